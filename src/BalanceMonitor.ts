@@ -0,0 +1,332 @@
+import { TypedEmitter } from "./emitter.js";
+import type OrderKuota from "./OrderKuota.js";
+import {
+  BalanceAccount,
+  BalanceChange,
+  BalanceMonitorOptions,
+  BalanceSnapshot,
+  QrisSettlement,
+  QrisTransaction,
+} from "./types.js";
+import { parseOrderKuotaDate } from "./utils.js";
+
+/**
+ * Events emitted by BalanceMonitor
+ */
+export interface BalanceMonitorEvents {
+  /** Balances were fetched */
+  snapshot: [snapshot: BalanceSnapshot];
+  /** A balance went up, other than through QRIS settlement */
+  credited: [change: BalanceChange];
+  /** A balance went down, other than through QRIS settlement */
+  debited: [change: BalanceChange];
+  /** A balance did not move although mutations were found for it */
+  unchanged: [change: BalanceChange];
+  /** QRIS balance moved to the account balance */
+  qrisSettled: [settlement: QrisSettlement];
+  /** A balance dropped under its configured threshold */
+  belowThreshold: [account: BalanceAccount, amount: number, threshold: number];
+  /** Polling failed */
+  error: [error: unknown];
+}
+
+/**
+ * Polls account balances, reports the movements between snapshots and
+ * reconciles them against QRIS history.
+ *
+ * When the account balance rises, outgoing QRIS mutations in the same window
+ * are reported as a settlement; without such mutations, a drop in QRIS balance
+ * matched by the rise is. Everything else is reported as a credit or debit,
+ * or as unchanged when mutations arrived but the balance did not move.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new BalanceMonitor(client, {
+ *   interval: 60000,
+ *   thresholds: { balance: 50000 },
+ * });
+ *
+ * monitor.on('credited', (change) => {
+ *   if (change.unexplained !== 0) {
+ *     alertFinance(`${change.account} moved ${change.unexplained} without a mutation`);
+ *   }
+ * });
+ * monitor.on('qrisSettled', (settlement) => console.log('settled', settlement.amount));
+ * monitor.on('belowThreshold', (account, amount) => console.warn(`${account} low: ${amount}`));
+ * monitor.start();
+ * ```
+ */
+export class BalanceMonitor extends TypedEmitter<BalanceMonitorEvents> {
+  private readonly client: Pick<OrderKuota, "checkBalance" | "history">;
+  private readonly interval: number;
+  private readonly historyType: string;
+  private readonly thresholds: Partial<Record<BalanceAccount, number>>;
+  private readonly clockSkew: number;
+  private readonly maxPages: number;
+  /** Mutation IDs already reconciled, with their timestamps for pruning */
+  private readonly seen = new Map<string, number>();
+  private readonly below = new Set<BalanceAccount>();
+  private snapshot?: BalanceSnapshot;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Create balance monitor
+   *
+   * @param client Authenticated OrderKuota client
+   * @param options Polling, threshold and reconciliation options
+   */
+  constructor(
+    client: Pick<OrderKuota, "checkBalance" | "history">,
+    options: BalanceMonitorOptions = {},
+  ) {
+    super();
+    this.client = client;
+    this.interval = options.interval ?? 60000;
+    this.historyType = options.historyType ?? "qris_history";
+    this.thresholds = options.thresholds ?? {};
+    this.clockSkew = options.clockSkew ?? 60000;
+    this.maxPages = options.maxPages ?? 5;
+  }
+
+  /**
+   * Starts polling on the configured interval.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling.
+   */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Checks whether the monitor is polling.
+   *
+   * @returns True if started
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Gets the latest balances.
+   *
+   * @returns Latest snapshot, or undefined before the first poll
+   */
+  getSnapshot(): BalanceSnapshot | undefined {
+    return this.snapshot && { ...this.snapshot };
+  }
+
+  /**
+   * Fetches balances and history once and emits the resulting events. The
+   * first poll only records the starting balances.
+   *
+   * @throws {OrderKuotaError} When the balance or history request fails
+   */
+  async poll(): Promise<void> {
+    const { balance, qris_balance } = await this.client.checkBalance();
+    const current: BalanceSnapshot = {
+      balance,
+      qris_balance,
+      takenAt: new Date(),
+    };
+    const previous = this.snapshot;
+    const transactions = await this.fetchTransactions(
+      previous?.takenAt ?? current.takenAt,
+      current.takenAt,
+    );
+
+    this.snapshot = current;
+    this.emit("snapshot", current);
+
+    if (previous) {
+      this.compare(previous, current, transactions);
+    }
+
+    this.checkThresholds(current);
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+      }
+
+      if (this.running) {
+        this.schedule(this.interval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Fetches mutations in the window that were not reconciled before, oldest
+   * first.
+   */
+  private async fetchTransactions(
+    since: Date,
+    until: Date,
+  ): Promise<QrisTransaction[]> {
+    const from = new Date(since.getTime() - this.clockSkew);
+    const fresh: QrisTransaction[] = [];
+
+    for await (const transaction of this.client.history({
+      type: this.historyType,
+      from,
+      to: until,
+      maxPages: this.maxPages,
+    })) {
+      if (!this.seen.has(transaction.id)) {
+        const time = timeOf(transaction);
+        // Undated mutations are kept until the window moves past this poll
+        this.seen.set(
+          transaction.id,
+          Number.isFinite(time) ? time : until.getTime(),
+        );
+        fresh.push(transaction);
+      }
+    }
+
+    for (const [id, time] of this.seen) {
+      if (time < from.getTime()) {
+        this.seen.delete(id);
+      }
+    }
+
+    return fresh.sort((a, b) => {
+      const [timeA, timeB] = [timeOf(a), timeOf(b)];
+      return timeA === timeB ? 0 : timeA - timeB;
+    });
+  }
+
+  private compare(
+    before: BalanceSnapshot,
+    after: BalanceSnapshot,
+    transactions: QrisTransaction[],
+  ): void {
+    const rise = after.balance - before.balance;
+    const settlement =
+      rise > 0
+        ? transactions.filter((transaction) => netAmount(transaction) < 0)
+        : [];
+    const qris = transactions.filter(
+      (transaction) => !settlement.includes(transaction),
+    );
+    // Without outgoing mutations, only a matching drop in QRIS balance counts
+    const settled =
+      settlement.length > 0
+        ? -settlement.reduce(
+            (sum, transaction) => sum + netAmount(transaction),
+            0,
+          )
+        : Math.min(
+            Math.max(before.qris_balance - after.qris_balance, 0),
+            Math.max(rise, 0),
+          );
+
+    if (settled > 0) {
+      this.emit("qrisSettled", {
+        amount: settled,
+        before,
+        after,
+        transactions: settlement,
+      });
+    }
+
+    this.report(
+      "qris_balance",
+      after.qris_balance - before.qris_balance + settled,
+      before,
+      after,
+      qris,
+    );
+    this.report(
+      "balance",
+      after.balance - before.balance - settled,
+      before,
+      after,
+      [],
+    );
+  }
+
+  private report(
+    account: BalanceAccount,
+    amount: number,
+    before: BalanceSnapshot,
+    after: BalanceSnapshot,
+    transactions: QrisTransaction[],
+  ): void {
+    if (amount === 0 && transactions.length === 0) {
+      return;
+    }
+
+    const explained = transactions.reduce(
+      (sum, transaction) => sum + netAmount(transaction),
+      0,
+    );
+    const change: BalanceChange = {
+      account,
+      amount,
+      before,
+      after,
+      transactions,
+      explained,
+      unexplained: amount - explained,
+    };
+
+    this.emit(
+      amount > 0 ? "credited" : amount < 0 ? "debited" : "unchanged",
+      change,
+    );
+  }
+
+  private checkThresholds(snapshot: BalanceSnapshot): void {
+    for (const account of ["balance", "qris_balance"] as const) {
+      const threshold = this.thresholds[account];
+
+      if (threshold === undefined) {
+        continue;
+      }
+
+      // Alert once per crossing, not on every poll while low
+      if (snapshot[account] < threshold) {
+        if (!this.below.has(account)) {
+          this.below.add(account);
+          this.emit("belowThreshold", account, snapshot[account], threshold);
+        }
+      } else {
+        this.below.delete(account);
+      }
+    }
+  }
+}
+
+/**
+ * Effect of a mutation on the QRIS balance: credits arrive net of the fee.
+ */
+function netAmount(transaction: QrisTransaction): number {
+  return transaction.credit - transaction.debit - transaction.fee;
+}
+
+/**
+ * Time of a mutation; unparseable dates sort after every dated mutation.
+ */
+function timeOf(transaction: QrisTransaction): number {
+  return (
+    parseOrderKuotaDate(transaction.date)?.getTime() ?? Number.POSITIVE_INFINITY
+  );
+}
@@ -0,0 +1,228 @@
+import {
+  decodeAccount,
+  decodeQrisAjaibResponse,
+  decodeQrisHistoryResponse,
+  decodeQrisMenu,
+} from "./decoders.js";
+import {
+  AccountInfo,
+  HistoryOptions,
+  OrderKuotaError,
+  QrisAjaibResponse,
+  QrisMenuItem,
+  QrisTransaction,
+  RequestOptions,
+} from "./types.js";
+
+/**
+ * Sends the `requests[...]` fields of a batch to `/api/v2/get` and decodes the
+ * response body. Failed sections are classified like single requests, e.g. as
+ * SESSION_EXPIRED or RATE_LIMITED. Supplied by OrderKuota.batch().
+ */
+export type BatchExecutor = <T>(
+  fields: Record<string, string>,
+  sections: string[],
+  idempotent: boolean,
+  options: RequestOptions,
+  decode: (data: unknown) => T,
+) => Promise<T>;
+
+/**
+ * One named section of a batch
+ */
+interface BatchItem {
+  name: string;
+  params?: Record<string, string>;
+  idempotent: boolean;
+  decode: (body: Record<string, unknown>) => unknown;
+}
+
+/**
+ * Builder that composes several `/api/v2/get` sub-requests into one round
+ * trip. Each call returns a new builder whose result tuple gains one element.
+ *
+ * @example
+ * ```typescript
+ * const [account, menu, mutations] = await client
+ *   .batch()
+ *   .account()
+ *   .qrisMenu()
+ *   .qrisHistory('qris_history', { page: '1' })
+ *   .send();
+ *
+ * console.log(account.balance, menu.length, mutations[0]?.amount);
+ * ```
+ */
+export class BatchRequest<T extends unknown[] = []> {
+  private readonly executor: BatchExecutor;
+  private readonly items: BatchItem[];
+
+  /**
+   * Create batch request; use OrderKuota.batch() instead of calling this directly
+   *
+   * @param executor Sends the composed request
+   * @param items Sections added so far
+   */
+  constructor(executor: BatchExecutor, items: BatchItem[] = []) {
+    this.executor = executor;
+    this.items = items;
+  }
+
+  /**
+   * Adds the account section: name, balance and QRIS balance.
+   *
+   * @returns Builder with AccountInfo appended to the result
+   */
+  account(): BatchRequest<[...T, AccountInfo]> {
+    return this.with({
+      name: "account",
+      idempotent: true,
+      decode: (body) => decodeAccount(body.account),
+    });
+  }
+
+  /**
+   * Adds the QRIS menu section.
+   *
+   * @returns Builder with the menu items appended to the result
+   */
+  qrisMenu(): BatchRequest<[...T, QrisMenuItem[]]> {
+    return this.with({
+      name: "qris_menu",
+      idempotent: true,
+      decode: decodeQrisMenu,
+    });
+  }
+
+  /**
+   * Adds one page of mutation history.
+   *
+   * @param historyType Type of history ('qris_history' or 'qris_ajaib_history')
+   * @param filters Page, description, amount and date filters
+   * @returns Builder with the page's transactions appended to the result
+   */
+  qrisHistory(
+    historyType: string = "qris_history",
+    filters: Omit<HistoryOptions, keyof RequestOptions> = {},
+  ): BatchRequest<[...T, QrisTransaction[]]> {
+    return this.with({
+      name: historyType,
+      params: {
+        keterangan: filters.keterangan || "",
+        jumlah: filters.jumlah || "",
+        page: filters.page || "1",
+        dari_tanggal: filters.dari_tanggal || "",
+        ke_tanggal: filters.ke_tanggal || "",
+      },
+      idempotent: true,
+      decode: (body) => decodeQrisHistoryResponse(body, historyType).data,
+    });
+  }
+
+  /**
+   * Adds QRIS Ajaib generation for an amount.
+   *
+   * @param amount Payment amount in Indonesian Rupiah
+   * @returns Builder with the QRIS data appended to the result
+   * @throws {OrderKuotaError} When the amount is not a positive whole number
+   */
+  qrisAjaib(amount: number): BatchRequest<[...T, QrisAjaibResponse["data"]]> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new OrderKuotaError(
+        "Amount must be a positive whole number of rupiah",
+        "INVALID_AMOUNT",
+        undefined,
+        { request: "batch" },
+      );
+    }
+
+    return this.with({
+      name: "qris_ajaib",
+      params: { amount: amount.toString() },
+      idempotent: false,
+      decode: (body) => decodeQrisAjaibResponse(body).data,
+    });
+  }
+
+  /**
+   * Adds any other section of the app API. Sections without parameters are
+   * sent as `requests[n]=name`, others as `requests[name][key]=value`.
+   *
+   * @param name Section name, e.g. "qris_ajaib_history"
+   * @param params Section parameters (optional)
+   * @param decode Converts the raw section into the result (default: raw section)
+   * @returns Builder with the decoded section appended to the result
+   */
+  add<R = unknown>(
+    name: string,
+    params?: Record<string, string>,
+    decode?: (section: unknown) => R,
+  ): BatchRequest<[...T, R]> {
+    return this.with({
+      name,
+      params,
+      idempotent: false,
+      decode: (body) => (decode ? decode(body[name]) : body[name]),
+    });
+  }
+
+  /**
+   * Sends every section in one request.
+   *
+   * @param options Abort signal, timeout and queue priority
+   * @returns Section results in the order they were added
+   * @throws {OrderKuotaError} When the batch is empty, no token is set, the request fails or a section reports failure
+   */
+  async send(options: RequestOptions = {}): Promise<T> {
+    if (this.items.length === 0) {
+      throw new OrderKuotaError("Batch has no requests", "MISSING_CONFIG");
+    }
+
+    const fields: Record<string, string> = {};
+    let index = 0;
+
+    for (const item of this.items) {
+      if (item.params) {
+        for (const [key, value] of Object.entries(item.params)) {
+          fields[`requests[${item.name}][${key}]`] = value;
+        }
+      } else {
+        fields[`requests[${index++}]`] = item.name;
+      }
+    }
+
+    return this.executor(
+      fields,
+      this.items.map((item) => item.name),
+      this.items.every((item) => item.idempotent),
+      options,
+      (data) => {
+        const body = data as Record<string, any>;
+
+        return this.items.map((item) => {
+          const section = body?.[item.name];
+
+          if (section?.success === false) {
+            throw new OrderKuotaError(
+              section.message || `OrderKuota API ${item.name} request failed`,
+              "API_ERROR",
+            );
+          }
+
+          return item.decode(body);
+        }) as T;
+      },
+    );
+  }
+
+  private with<R extends unknown[]>(item: BatchItem): BatchRequest<R> {
+    if (this.items.some((existing) => existing.name === item.name)) {
+      throw new OrderKuotaError(
+        `Batch already contains ${item.name}`,
+        "MISSING_CONFIG",
+      );
+    }
+
+    return new BatchRequest<R>(this.executor, [...this.items, item]);
+  }
+}
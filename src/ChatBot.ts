@@ -0,0 +1,444 @@
+import { TypedEmitter } from "./emitter.js";
+import type OrderKuota from "./OrderKuota.js";
+import { MemoryMutationStore } from "./PaymentWatcher.js";
+import { fromBase64 } from "./png.js";
+import {
+  ChatBotOptions,
+  ChatMessage,
+  ChatTransport,
+  MutationStore,
+  OrderKuotaError,
+  QrisTransaction,
+  SentChatMessage,
+} from "./types.js";
+import { formatOrderKuotaDate, formatRupiah, parseRupiah } from "./utils.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HELP_TEXT = [
+  "Commands:",
+  "/qris <amount> - Create a QRIS payment, e.g. /qris 15000",
+  "/saldo - Show account and QRIS balance",
+  "/mutasi [today|yesterday|yyyy-mm-dd] - List QRIS mutations for a day",
+].join("\n");
+
+/**
+ * Events emitted by ChatBot
+ */
+export interface ChatBotEvents {
+  /** A command from an allowed chat was handled */
+  command: [message: ChatMessage, command: string];
+  /** A message arrived from a chat that is not allowed */
+  unauthorized: [message: ChatMessage];
+  /** A new credit was announced */
+  credit: [transaction: QrisTransaction];
+  /** A command or credit check failed */
+  error: [error: unknown];
+}
+
+/**
+ * In-memory chat transport for tests. Records sent messages and lets tests
+ * deliver incoming ones.
+ *
+ * @example
+ * ```typescript
+ * const chat = new MemoryChatTransport();
+ * const bot = new ChatBot(client, { transport: chat, chats: ['42'] });
+ * await bot.start();
+ *
+ * const [reply] = await chat.receive('42', '/saldo');
+ * console.log(reply.text);
+ * ```
+ */
+export class MemoryChatTransport implements ChatTransport {
+  /** Messages sent so far, oldest first */
+  readonly sent: SentChatMessage[] = [];
+  private onMessage?: (message: ChatMessage) => Promise<void>;
+
+  async start(
+    onMessage: (message: ChatMessage) => Promise<void>,
+  ): Promise<void> {
+    this.onMessage = onMessage;
+  }
+
+  async stop(): Promise<void> {
+    this.onMessage = undefined;
+  }
+
+  async sendText(chatId: string, text: string): Promise<void> {
+    this.sent.push({ chatId, text });
+  }
+
+  async sendImage(
+    chatId: string,
+    png: Uint8Array,
+    caption?: string,
+  ): Promise<void> {
+    this.sent.push({ chatId, image: png, caption });
+  }
+
+  /**
+   * Delivers an incoming message and waits until it is handled.
+   *
+   * @param chatId Chat the message comes from
+   * @param text Message text
+   * @param sender Sender's username (optional)
+   * @returns Messages sent while handling it
+   * @throws {OrderKuotaError} When the transport is not started
+   */
+  async receive(
+    chatId: string,
+    text: string,
+    sender?: string,
+  ): Promise<SentChatMessage[]> {
+    if (!this.onMessage) {
+      throw new OrderKuotaError(
+        "Chat transport is not started",
+        "MISSING_CONFIG",
+      );
+    }
+
+    const before = this.sent.length;
+    await this.onMessage({ chatId, text, sender });
+    return this.sent.slice(before);
+  }
+}
+
+/**
+ * Chat bot that answers merchant commands and announces new QRIS credits.
+ *
+ * Commands: `/qris <amount>` replies with a QRIS Ajaib image, `/saldo` with
+ * the balances and `/mutasi [today|yesterday|yyyy-mm-dd]` with the first page
+ * of mutations for that day. Messages from chats outside `chats` are ignored.
+ * Credits already listed when the bot starts are not announced, unless a
+ * store is given: then only credits already in the store are skipped.
+ *
+ * @example
+ * ```typescript
+ * const bot = new ChatBot(client, {
+ *   transport: new TelegramTransport({ token: process.env.TELEGRAM_TOKEN! }),
+ *   chats: ['123456789'],
+ * });
+ *
+ * bot.on('error', (error) => console.error(error));
+ * await bot.start();
+ * ```
+ */
+export class ChatBot extends TypedEmitter<ChatBotEvents> {
+  private readonly client: Pick<
+    OrderKuota,
+    "generateQRISAjaib" | "generateQRImage" | "checkBalance" | "getQRISHistory"
+  >;
+  private readonly transport: ChatTransport;
+  private readonly chats: Set<string>;
+  private readonly interval: number | false;
+  private readonly historyType: string;
+  private readonly store: MutationStore;
+  private primed = false;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Create chat bot
+   *
+   * @param client Authenticated OrderKuota client
+   * @param options Chat transport, allowed chats and credit polling options
+   * @throws {OrderKuotaError} When no chat is allowed
+   */
+  constructor(
+    client: Pick<
+      OrderKuota,
+      | "generateQRISAjaib"
+      | "generateQRImage"
+      | "checkBalance"
+      | "getQRISHistory"
+    >,
+    options: ChatBotOptions,
+  ) {
+    super();
+
+    if (options.chats.length === 0) {
+      throw new OrderKuotaError(
+        "At least one chat must be allowed",
+        "MISSING_CONFIG",
+      );
+    }
+
+    this.client = client;
+    this.transport = options.transport;
+    this.chats = new Set(options.chats);
+    this.interval = options.interval ?? 10000;
+    this.historyType = options.historyType ?? "qris_history";
+    this.store = options.store ?? new MemoryMutationStore();
+    this.primed = !(options.skipExisting ?? options.store === undefined);
+  }
+
+  /**
+   * Connects to the chat service and starts announcing credits.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    await this.transport.start((message) => this.handle(message));
+
+    if (this.interval !== false) {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Stops announcing credits and disconnects from the chat service.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.transport.stop();
+  }
+
+  /**
+   * Checks whether the bot is running.
+   *
+   * @returns True if started
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Handles one incoming message. Failed commands are answered with the
+   * error and emitted as "error".
+   *
+   * @param message Incoming message
+   */
+  async handle(message: ChatMessage): Promise<void> {
+    const match = message.text.trim().match(/^\/(\w+)(?:@\S+)?\s*(.*)$/s);
+
+    if (!match) {
+      return;
+    }
+
+    if (!this.chats.has(message.chatId)) {
+      this.emit("unauthorized", message);
+      return;
+    }
+
+    const [, name, args] = match;
+    const command = name.toLowerCase();
+
+    try {
+      switch (command) {
+        case "qris":
+          await this.qris(message.chatId, args);
+          break;
+        case "saldo":
+          await this.saldo(message.chatId);
+          break;
+        case "mutasi":
+          await this.mutasi(message.chatId, args);
+          break;
+        default:
+          await this.transport.sendText(message.chatId, HELP_TEXT);
+      }
+      this.emit("command", message, command);
+    } catch (error) {
+      await this.reportError(message.chatId, error);
+    }
+  }
+
+  /**
+   * Fetches the latest mutations once and announces credits not seen before.
+   * With skipExisting, the first check only records the credits already
+   * listed.
+   *
+   * A credit is recorded before it is announced, so a chat whose message
+   * fails misses that credit instead of the other chats getting it twice.
+   *
+   * @throws {OrderKuotaError} When the history request or a message fails
+   */
+  async poll(): Promise<void> {
+    const response = await this.client.getQRISHistory(this.historyType);
+    const credits = response.data
+      .filter((transaction) => transaction.status === "IN")
+      .reverse();
+
+    for (const transaction of credits) {
+      if (await this.store.has(transaction.id)) {
+        continue;
+      }
+
+      await this.store.add(transaction.id);
+
+      if (!this.primed) {
+        continue;
+      }
+
+      const failures: unknown[] = [];
+
+      for (const chatId of this.chats) {
+        try {
+          await this.transport.sendText(chatId, formatCredit(transaction));
+        } catch (error) {
+          failures.push(error);
+        }
+      }
+      this.emit("credit", transaction);
+
+      if (failures.length > 0) {
+        throw failures[0];
+      }
+    }
+
+    this.primed = true;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+      }
+
+      if (this.running) {
+        this.schedule(this.interval as number);
+      }
+    }, delay);
+  }
+
+  private async qris(chatId: string, args: string): Promise<void> {
+    const amount = parseRupiah(args);
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      await this.transport.sendText(chatId, "Usage: /qris <amount>");
+      return;
+    }
+
+    const { data } = await this.client.generateQRISAjaib(amount);
+    const image = await this.client.generateQRImage(data.qr_string, {
+      width: 512,
+      margin: 2,
+    });
+    const caption = [`QRIS ${formatRupiah(amount)}`];
+
+    if (typeof data.expired_date === "string") {
+      caption.push(`Pay before ${data.expired_date} WIB`);
+    }
+
+    await this.transport.sendImage(
+      chatId,
+      fromBase64(image.slice(image.indexOf(",") + 1)),
+      caption.join("\n"),
+    );
+  }
+
+  private async saldo(chatId: string): Promise<void> {
+    const { balance, qris_balance } = await this.client.checkBalance();
+
+    await this.transport.sendText(
+      chatId,
+      `Balance: ${formatRupiah(balance)}\nQRIS balance: ${formatRupiah(qris_balance)}`,
+    );
+  }
+
+  private async mutasi(chatId: string, args: string): Promise<void> {
+    const day = parseDay(args.trim().toLowerCase() || "today");
+
+    if (!day) {
+      await this.transport.sendText(
+        chatId,
+        "Usage: /mutasi [today|yesterday|yyyy-mm-dd]",
+      );
+      return;
+    }
+
+    const { data } = await this.client.getQRISHistory(this.historyType, {
+      dari_tanggal: day,
+      ke_tanggal: day,
+    });
+
+    if (data.length === 0) {
+      await this.transport.sendText(chatId, `No mutations on ${day}`);
+      return;
+    }
+
+    const total = (status: string) =>
+      data
+        .filter((transaction) => transaction.status === status)
+        .reduce((sum, transaction) => sum + transaction.amount, 0);
+    const lines = data.map((transaction) =>
+      [
+        transaction.date,
+        `${transaction.status === "IN" ? "+" : "-"}${formatRupiah(transaction.amount)}`,
+        transaction.brand?.name,
+        transaction.description,
+      ]
+        .filter(Boolean)
+        .join("  "),
+    );
+
+    await this.transport.sendText(
+      chatId,
+      [
+        `Mutations on ${day}`,
+        ...lines,
+        `In: ${formatRupiah(total("IN"))}  Out: ${formatRupiah(total("OUT"))}`,
+      ].join("\n"),
+    );
+  }
+
+  private async reportError(chatId: string, error: unknown): Promise<void> {
+    const text =
+      error instanceof OrderKuotaError
+        ? `Error [${error.code}]: ${error.message}`
+        : "Error: command failed";
+
+    try {
+      await this.transport.sendText(chatId, text);
+    } catch {
+      // The chat service is unreachable; the error is still emitted below
+    }
+
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error);
+    }
+  }
+}
+
+/**
+ * Converts "today", "yesterday" or "yyyy-mm-dd" into a history filter date.
+ */
+function parseDay(value: string): string | undefined {
+  if (value === "today") {
+    return formatOrderKuotaDate(new Date());
+  }
+  if (value === "yesterday") {
+    return formatOrderKuotaDate(new Date(Date.now() - DAY_MS));
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+
+  // Date rolls days like 2020-02-30 over into the next month
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(date.getTime()) &&
+    date.toISOString().startsWith(value)
+    ? value
+    : undefined;
+}
+
+function formatCredit(transaction: QrisTransaction): string {
+  return [
+    `Payment received: ${formatRupiah(transaction.amount)}`,
+    transaction.brand?.name && `From: ${transaction.brand.name}`,
+    `Time: ${transaction.date}`,
+    transaction.fee > 0 && `Fee: ${formatRupiah(transaction.fee)}`,
+    transaction.description && `Note: ${transaction.description}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
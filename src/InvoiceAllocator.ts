@@ -0,0 +1,269 @@
+import { randomBytes, randomInt } from "crypto";
+import type OrderKuota from "./OrderKuota.js";
+import {
+  AllocatedAmount,
+  AllocatedQris,
+  AllocateOptions,
+  AllocateQrisOptions,
+  AmountReservation,
+  InvoiceAllocatorOptions,
+  OrderKuotaError,
+  ReservationStore,
+} from "./types.js";
+import { readJsonFile, writeJsonFile } from "./files.js";
+import { createLock } from "./utils.js";
+
+interface StoredReservation extends Omit<AmountReservation, "expiresAt"> {
+  expiresAt: string;
+}
+
+/**
+ * In-memory reservation store. Safe for concurrent calls within one process.
+ */
+export class MemoryReservationStore implements ReservationStore {
+  private readonly reservations = new Map<number, AmountReservation>();
+
+  async reserve(reservation: AmountReservation): Promise<boolean> {
+    const existing = this.reservations.get(reservation.amount);
+
+    if (existing && existing.expiresAt.getTime() > Date.now()) {
+      return false;
+    }
+
+    this.reservations.set(reservation.amount, reservation);
+    return true;
+  }
+
+  async release(amount: number, token: string): Promise<void> {
+    if (this.reservations.get(amount)?.token === token) {
+      this.reservations.delete(amount);
+    }
+  }
+
+  async list(): Promise<AmountReservation[]> {
+    const now = Date.now();
+    return [...this.reservations.values()].filter(
+      (reservation) => reservation.expiresAt.getTime() > now,
+    );
+  }
+}
+
+/**
+ * JSON file backed reservation store. Operations are serialized within the
+ * process; use a database-backed store when several processes allocate amounts.
+ */
+export class FileReservationStore implements ReservationStore {
+  private readonly path: string;
+  private readonly lock = createLock();
+
+  /**
+   * @param path Path of the JSON file holding reservations
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private async load(): Promise<AmountReservation[]> {
+    const now = Date.now();
+    const stored = await readJsonFile<StoredReservation[]>(this.path, []);
+
+    return stored
+      .map((reservation) => ({
+        ...reservation,
+        expiresAt: new Date(reservation.expiresAt),
+      }))
+      .filter((reservation) => reservation.expiresAt.getTime() > now);
+  }
+
+  private async save(reservations: AmountReservation[]): Promise<void> {
+    await writeJsonFile(
+      this.path,
+      reservations.map((reservation) => ({
+        ...reservation,
+        expiresAt: reservation.expiresAt.toISOString(),
+      })),
+    );
+  }
+
+  reserve(reservation: AmountReservation): Promise<boolean> {
+    return this.lock(async () => {
+      const reservations = await this.load();
+
+      if (reservations.some((r) => r.amount === reservation.amount)) {
+        return false;
+      }
+
+      await this.save([...reservations, reservation]);
+      return true;
+    });
+  }
+
+  release(amount: number, token: string): Promise<void> {
+    return this.lock(async () => {
+      const reservations = await this.load();
+      await this.save(
+        reservations.filter((r) => r.amount !== amount || r.token !== token),
+      );
+    });
+  }
+
+  list(): Promise<AmountReservation[]> {
+    return this.lock(() => this.load());
+  }
+}
+
+/**
+ * Allocates unique payment amounts so simultaneous QRIS payments of the same
+ * base price can be told apart in the mutation history.
+ *
+ * @example
+ * ```typescript
+ * const allocator = new InvoiceAllocator({ ttl: 10 * 60 * 1000 });
+ *
+ * const payment = await allocator.allocateQris(client, 10000);
+ * console.log(payment.amount); // e.g. 10437
+ *
+ * watcher.addInvoice(payment.toPendingInvoice('INV-1'));
+ * watcher.on('paid', () => payment.release());
+ * ```
+ */
+export class InvoiceAllocator {
+  private readonly store: ReservationStore;
+  private readonly minCode: number;
+  private readonly maxCode: number;
+  private readonly ttl: number;
+
+  /**
+   * Create invoice allocator
+   *
+   * @param options Unique-code range, lifetime and storage options
+   * @throws {OrderKuotaError} When the unique-code range is invalid
+   */
+  constructor(options: InvoiceAllocatorOptions = {}) {
+    this.store = options.store ?? new MemoryReservationStore();
+    this.minCode = options.minCode ?? 1;
+    this.maxCode = options.maxCode ?? 999;
+    this.ttl = options.ttl ?? 15 * 60 * 1000;
+
+    if (
+      !Number.isInteger(this.minCode) ||
+      !Number.isInteger(this.maxCode) ||
+      this.minCode < 0 ||
+      this.maxCode < this.minCode
+    ) {
+      throw new OrderKuotaError(
+        "Unique code range must be non-negative integers with minCode <= maxCode",
+        "MISSING_CONFIG",
+      );
+    }
+  }
+
+  /**
+   * Reserves a unique amount for a base price.
+   *
+   * @param baseAmount Base amount in IDR
+   * @param options Invoice ID and lifetime override
+   * @returns Reserved amount with a release handle
+   * @throws {OrderKuotaError} When every unique code for this base amount is taken
+   */
+  async allocate(
+    baseAmount: number,
+    options: AllocateOptions = {},
+  ): Promise<AllocatedAmount> {
+    if (!Number.isInteger(baseAmount) || baseAmount <= 0) {
+      throw new OrderKuotaError(
+        "Amount must be a positive whole number of rupiah",
+        "INVALID_AMOUNT",
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + (options.ttl ?? this.ttl));
+    const token = randomBytes(16).toString("hex");
+
+    // Walk the code range from a random starting point so allocations spread out
+    const rangeSize = this.maxCode - this.minCode + 1;
+    const start = randomInt(rangeSize);
+
+    for (let i = 0; i < rangeSize; i++) {
+      const uniqueCode = this.minCode + ((start + i) % rangeSize);
+      const reservation: AmountReservation = {
+        amount: baseAmount + uniqueCode,
+        baseAmount,
+        uniqueCode,
+        token,
+        invoiceId: options.invoiceId,
+        expiresAt,
+      };
+
+      if (await this.store.reserve(reservation)) {
+        return this.toAllocation(reservation);
+      }
+    }
+
+    throw new OrderKuotaError(
+      `No unique amount available for Rp ${baseAmount}`,
+      "ALLOCATION_EXHAUSTED",
+    );
+  }
+
+  /**
+   * Reserves a unique amount and creates a QRIS for it.
+   *
+   * The reservation is released again if QRIS creation fails.
+   *
+   * @param client Authenticated OrderKuota client
+   * @param baseAmount Base amount in IDR
+   * @param options QRIS source, invoice ID and lifetime override
+   * @returns Reserved amount with its QRIS string
+   */
+  async allocateQris(
+    client: OrderKuota,
+    baseAmount: number,
+    options: AllocateQrisOptions = {},
+  ): Promise<AllocatedQris> {
+    const allocation = await this.allocate(baseAmount, options);
+
+    try {
+      let qrString: string;
+
+      if (options.source === "local") {
+        qrString = client.generateDynamicQRIS(allocation.amount);
+      } else {
+        const response = await client.generateQRISAjaib(allocation.amount);
+        qrString = response.data.qr_string;
+      }
+
+      return { ...allocation, qrString };
+    } catch (error) {
+      await allocation.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Lists amounts that are currently reserved.
+   *
+   * @returns Unexpired reservations
+   */
+  async getReservations(): Promise<AmountReservation[]> {
+    return this.store.list();
+  }
+
+  private toAllocation(reservation: AmountReservation): AllocatedAmount {
+    const { amount, baseAmount, uniqueCode, expiresAt, token } = reservation;
+
+    return {
+      amount,
+      baseAmount,
+      uniqueCode,
+      expiresAt,
+      release: () => this.store.release(amount, token),
+      toPendingInvoice: (id: string) => ({
+        id,
+        amount: baseAmount,
+        uniqueCode,
+        expiresAt,
+      }),
+    };
+  }
+}
@@ -0,0 +1,545 @@
+import { randomBytes } from "crypto";
+import { TypedEmitter } from "./emitter.js";
+import type OrderKuota from "./OrderKuota.js";
+import { MemoryMutationStore } from "./PaymentWatcher.js";
+import {
+  CreateInvoiceOptions,
+  Invoice,
+  InvoiceManagerOptions,
+  InvoiceStatus,
+  InvoiceStore,
+  MutationStore,
+  OrderKuotaError,
+  QrisTransaction,
+} from "./types.js";
+import { readJsonFile, writeJsonFile } from "./files.js";
+import { createLock, parseOrderKuotaDate } from "./utils.js";
+
+/**
+ * Events emitted by InvoiceManager
+ */
+export interface InvoiceManagerEvents {
+  /** An invoice left the pending state */
+  transition: [invoice: Invoice, from: InvoiceStatus];
+  /** A credit of exactly the invoice amount arrived */
+  paid: [invoice: Invoice, transaction: QrisTransaction];
+  /** A larger credit within the tolerance arrived */
+  overpaid: [invoice: Invoice, transaction: QrisTransaction];
+  /** A smaller credit within the tolerance arrived */
+  underpaid: [invoice: Invoice, transaction: QrisTransaction];
+  /**
+   * A credit matches several invoices equally well; all of them stay pending.
+   * The credit is recorded as handled, so it is reported once and never
+   * settles any of them later.
+   */
+  ambiguous: [transaction: QrisTransaction, invoices: Invoice[]];
+  /** The invoice passed its expiry without a credit */
+  expired: [invoice: Invoice];
+  /** The invoice was cancelled */
+  cancelled: [invoice: Invoice];
+  /** Polling failed */
+  error: [error: unknown];
+}
+
+interface StoredInvoice extends Omit<
+  Invoice,
+  "createdAt" | "expiresAt" | "updatedAt" | "paidAt"
+> {
+  createdAt: string;
+  expiresAt: string;
+  updatedAt: string;
+  paidAt?: string;
+}
+
+// Pending is the only state with outgoing transitions
+const FINAL_STATES: InvoiceStatus[] = [
+  "paid",
+  "expired",
+  "cancelled",
+  "overpaid",
+  "underpaid",
+];
+
+function copy(invoice: Invoice): Invoice {
+  return structuredClone(invoice);
+}
+
+/**
+ * In-memory invoice store. Invoices are lost on restart.
+ */
+export class MemoryInvoiceStore implements InvoiceStore {
+  private readonly invoices = new Map<string, Invoice>();
+
+  async insert(invoice: Invoice): Promise<boolean> {
+    if (
+      invoice.idempotencyKey !== undefined &&
+      (await this.getByIdempotencyKey(invoice.idempotencyKey))
+    ) {
+      return false;
+    }
+
+    this.invoices.set(invoice.id, copy(invoice));
+    return true;
+  }
+
+  async get(id: string): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    return invoice && copy(invoice);
+  }
+
+  async getByIdempotencyKey(key: string): Promise<Invoice | undefined> {
+    for (const invoice of this.invoices.values()) {
+      if (invoice.idempotencyKey === key) {
+        return copy(invoice);
+      }
+    }
+    return undefined;
+  }
+
+  async update(invoice: Invoice): Promise<void> {
+    this.invoices.set(invoice.id, copy(invoice));
+  }
+
+  async listPending(): Promise<Invoice[]> {
+    return [...this.invoices.values()]
+      .filter((invoice) => invoice.status === "pending")
+      .map(copy);
+  }
+}
+
+/**
+ * JSON file backed invoice store. Operations are serialized within the
+ * process; implement InvoiceStore on your database when several processes
+ * create invoices.
+ */
+export class FileInvoiceStore implements InvoiceStore {
+  private readonly path: string;
+  private readonly lock = createLock();
+
+  /**
+   * @param path Path of the JSON file holding invoices
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private async load(): Promise<Invoice[]> {
+    const stored = await readJsonFile<StoredInvoice[]>(this.path, []);
+
+    return stored.map((invoice) => ({
+      ...invoice,
+      createdAt: new Date(invoice.createdAt),
+      expiresAt: new Date(invoice.expiresAt),
+      updatedAt: new Date(invoice.updatedAt),
+      paidAt: invoice.paidAt ? new Date(invoice.paidAt) : undefined,
+    }));
+  }
+
+  private async save(invoices: Invoice[]): Promise<void> {
+    await writeJsonFile(
+      this.path,
+      invoices.map((invoice): StoredInvoice => ({
+        ...invoice,
+        createdAt: invoice.createdAt.toISOString(),
+        expiresAt: invoice.expiresAt.toISOString(),
+        updatedAt: invoice.updatedAt.toISOString(),
+        paidAt: invoice.paidAt?.toISOString(),
+      })),
+    );
+  }
+
+  insert(invoice: Invoice): Promise<boolean> {
+    return this.lock(async () => {
+      const invoices = await this.load();
+
+      if (
+        invoice.idempotencyKey !== undefined &&
+        invoices.some((i) => i.idempotencyKey === invoice.idempotencyKey)
+      ) {
+        return false;
+      }
+
+      await this.save([...invoices, invoice]);
+      return true;
+    });
+  }
+
+  get(id: string): Promise<Invoice | undefined> {
+    return this.lock(async () =>
+      (await this.load()).find((invoice) => invoice.id === id),
+    );
+  }
+
+  getByIdempotencyKey(key: string): Promise<Invoice | undefined> {
+    return this.lock(async () =>
+      (await this.load()).find((invoice) => invoice.idempotencyKey === key),
+    );
+  }
+
+  update(invoice: Invoice): Promise<void> {
+    return this.lock(async () => {
+      const invoices = await this.load();
+      await this.save(
+        invoices.map((existing) =>
+          existing.id === invoice.id ? invoice : existing,
+        ),
+      );
+    });
+  }
+
+  listPending(): Promise<Invoice[]> {
+    return this.lock(async () =>
+      (await this.load()).filter((invoice) => invoice.status === "pending"),
+    );
+  }
+}
+
+/**
+ * Creates QRIS Ajaib invoices and moves them from pending to paid, overpaid,
+ * underpaid, expired or cancelled as QRIS history comes in.
+ *
+ * Creating again with the same idempotency key returns the stored invoice
+ * instead of generating a second QRIS.
+ *
+ * @example
+ * ```typescript
+ * const invoices = new InvoiceManager(client, {
+ *   store: new FileInvoiceStore('./invoices.json'),
+ * });
+ *
+ * invoices.on('paid', (invoice, tx) => fulfil(invoice.metadata?.orderId));
+ * invoices.on('underpaid', (invoice, tx) => flagForReview(invoice, tx));
+ *
+ * const invoice = await invoices.create(25000, {
+ *   idempotencyKey: req.headers['idempotency-key'],
+ *   metadata: { orderId: 'ORDER-1' },
+ * });
+ * invoices.start();
+ * ```
+ */
+export class InvoiceManager extends TypedEmitter<InvoiceManagerEvents> {
+  private readonly client: Pick<
+    OrderKuota,
+    "generateQRISAjaib" | "getQRISHistory" | "getConfig"
+  >;
+  private readonly store: InvoiceStore;
+  private readonly mutations: MutationStore;
+  private readonly ttl: number;
+  private readonly interval: number;
+  private readonly historyType: string;
+  private readonly clockSkew: number;
+  private readonly tolerance: number;
+  private readonly lock = createLock();
+  /** Creates in flight per idempotency key */
+  private readonly creating = new Map<string, Promise<Invoice>>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Create invoice manager
+   *
+   * @param client Authenticated OrderKuota client
+   * @param options Storage, lifetime, polling and matching options
+   */
+  constructor(
+    client: Pick<
+      OrderKuota,
+      "generateQRISAjaib" | "getQRISHistory" | "getConfig"
+    >,
+    options: InvoiceManagerOptions = {},
+  ) {
+    super();
+    this.client = client;
+    this.store = options.store ?? new MemoryInvoiceStore();
+    this.mutations = options.mutationStore ?? new MemoryMutationStore();
+    this.ttl = options.ttl ?? 15 * 60 * 1000;
+    this.interval = options.interval ?? 10000;
+    this.historyType = options.historyType ?? "qris_history";
+    this.clockSkew = options.clockSkew ?? 60000;
+    this.tolerance = options.mismatchTolerance ?? 0;
+  }
+
+  /**
+   * Creates a pending invoice with a QRIS Ajaib code, or returns the invoice
+   * already created with the same idempotency key.
+   *
+   * @param amount Amount the customer must pay in IDR
+   * @param options ID, idempotency key, lifetime, metadata, abort signal and timeout
+   * @returns Stored invoice
+   * @throws {OrderKuotaError} When the amount is invalid, QRIS generation fails,
+   * or the idempotency key was used with another amount or metadata
+   */
+  async create(
+    amount: number,
+    options: CreateInvoiceOptions = {},
+  ): Promise<Invoice> {
+    const { idempotencyKey } = options;
+
+    if (idempotencyKey === undefined) {
+      return this.generate(amount, options);
+    }
+
+    // Concurrent retries of one request share a single QRIS generation
+    let pending = this.creating.get(idempotencyKey);
+
+    if (!pending) {
+      pending = (async () => {
+        const existing = await this.store.getByIdempotencyKey(idempotencyKey);
+        return existing ?? this.generate(amount, options);
+      })().finally(() => this.creating.delete(idempotencyKey));
+      this.creating.set(idempotencyKey, pending);
+    }
+
+    const invoice = await pending;
+
+    // Compared as JSON, since a FileInvoiceStore round-trip turns Dates into
+    // strings and drops undefined properties
+    if (
+      (invoice.requestedAmount ?? invoice.amount) !== amount ||
+      JSON.stringify(invoice.metadata) !== JSON.stringify(options.metadata)
+    ) {
+      throw new OrderKuotaError(
+        `Idempotency key ${idempotencyKey} was already used for invoice ${invoice.id} with another amount or metadata`,
+        "INVALID_STATE",
+      );
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Gets an invoice by ID.
+   *
+   * @param id Invoice ID
+   * @returns Invoice, or undefined if unknown
+   */
+  get(id: string): Promise<Invoice | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Cancels a pending invoice.
+   *
+   * @param id Invoice ID
+   * @returns Cancelled invoice
+   * @throws {OrderKuotaError} When the invoice is unknown or no longer pending
+   */
+  cancel(id: string): Promise<Invoice> {
+    return this.lock(async () => {
+      const invoice = await this.store.get(id);
+
+      if (!invoice) {
+        throw new OrderKuotaError(`Unknown invoice ${id}`, "INVALID_STATE");
+      }
+
+      const cancelled = await this.transition(invoice, "cancelled");
+      this.emit("cancelled", cancelled);
+      return cancelled;
+    });
+  }
+
+  /**
+   * Applies QRIS mutations to pending invoices of this client's account, then
+   * expires overdue invoices. Use it to feed history you already fetch.
+   *
+   * A credit of exactly the invoice amount settles it as paid. With a
+   * tolerance, a credit of another amount settles the invoice with the closest
+   * amount as overpaid or underpaid. A credit that fits several invoices
+   * equally well settles none of them and emits "ambiguous" instead.
+   *
+   * @param transactions Mutations from getQRISHistory or history()
+   */
+  process(transactions: QrisTransaction[]): Promise<void> {
+    return this.lock(async () => {
+      const { username } = this.client.getConfig();
+      let pending = (await this.store.listPending()).filter(
+        (invoice) => invoice.account === username,
+      );
+
+      for (const transaction of transactions) {
+        if (
+          transaction.status !== "IN" ||
+          transaction.amount <= 0 ||
+          (await this.mutations.has(transaction.id))
+        ) {
+          continue;
+        }
+
+        const matches = this.match(pending, transaction);
+
+        if (matches.length > 1) {
+          await this.mutations.add(transaction.id);
+          this.emit("ambiguous", transaction, matches);
+          continue;
+        }
+
+        const [invoice] = matches;
+
+        if (!invoice) {
+          continue;
+        }
+
+        const status: "paid" | "overpaid" | "underpaid" =
+          transaction.amount === invoice.amount
+            ? "paid"
+            : transaction.amount > invoice.amount
+              ? "overpaid"
+              : "underpaid";
+
+        await this.mutations.add(transaction.id);
+        const settled = await this.transition(invoice, status, {
+          paidAmount: transaction.amount,
+          paidAt: parseOrderKuotaDate(transaction.date),
+          transactionId: transaction.id,
+        });
+        pending = pending.filter((candidate) => candidate.id !== invoice.id);
+        this.emit(status, settled, transaction);
+      }
+
+      const now = Date.now();
+
+      for (const invoice of pending) {
+        if (invoice.expiresAt.getTime() <= now) {
+          this.emit("expired", await this.transition(invoice, "expired"));
+        }
+      }
+    });
+  }
+
+  /**
+   * Fetches the latest history page once and applies it.
+   *
+   * @throws {OrderKuotaError} When the history request fails
+   */
+  async poll(): Promise<void> {
+    const pending = await this.store.listPending();
+    const transactions =
+      pending.length > 0
+        ? (await this.client.getQRISHistory(this.historyType)).data
+        : [];
+
+    await this.process(transactions);
+  }
+
+  /**
+   * Starts polling on the configured interval.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling.
+   */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+      }
+
+      if (this.running) {
+        this.schedule(this.interval);
+      }
+    }, delay);
+  }
+
+  private async generate(
+    amount: number,
+    options: CreateInvoiceOptions,
+  ): Promise<Invoice> {
+    const response = await this.client.generateQRISAjaib(amount, options);
+    const now = new Date();
+    const reportedExpiry = parseOrderKuotaDate(
+      typeof response.data.expired_date === "string"
+        ? response.data.expired_date
+        : undefined,
+    );
+    const invoice: Invoice = {
+      id: options.id ?? `inv_${randomBytes(8).toString("hex")}`,
+      idempotencyKey: options.idempotencyKey,
+      status: "pending",
+      amount: response.data.amount ?? amount,
+      requestedAmount: amount,
+      qrString: response.data.qr_string,
+      account: this.client.getConfig().username,
+      createdAt: now,
+      expiresAt:
+        options.ttl === undefined && reportedExpiry
+          ? reportedExpiry
+          : new Date(now.getTime() + (options.ttl ?? this.ttl)),
+      updatedAt: now,
+      metadata: options.metadata,
+    };
+
+    if (await this.store.insert(invoice)) {
+      return invoice;
+    }
+
+    // Another process created the invoice first; its QRIS wins
+    return (await this.store.getByIdempotencyKey(options.idempotencyKey!))!;
+  }
+
+  /**
+   * Finds the invoices a credit fits best: those of exactly its amount, or
+   * else those closest to it within the tolerance.
+   */
+  private match(pending: Invoice[], transaction: QrisTransaction): Invoice[] {
+    const paidAt = parseOrderKuotaDate(transaction.date)?.getTime();
+
+    // Without a timestamp we cannot rule out an older payment of the same amount
+    if (paidAt === undefined) {
+      return [];
+    }
+
+    const difference = (invoice: Invoice) =>
+      Math.abs(transaction.amount - invoice.amount);
+    const candidates = pending.filter(
+      (invoice) =>
+        paidAt >= invoice.createdAt.getTime() - this.clockSkew &&
+        paidAt <= invoice.expiresAt.getTime() &&
+        difference(invoice) <= invoice.amount * this.tolerance,
+    );
+    const closest = Math.min(...candidates.map(difference));
+
+    return candidates.filter((invoice) => difference(invoice) === closest);
+  }
+
+  private async transition(
+    invoice: Invoice,
+    status: InvoiceStatus,
+    changes: Partial<Invoice> = {},
+  ): Promise<Invoice> {
+    if (FINAL_STATES.includes(invoice.status)) {
+      throw new OrderKuotaError(
+        `Invoice ${invoice.id} is already ${invoice.status}`,
+        "INVALID_STATE",
+      );
+    }
+
+    const updated: Invoice = {
+      ...invoice,
+      ...changes,
+      status,
+      updatedAt: new Date(),
+    };
+
+    await this.store.update(updated);
+    this.emit("transition", updated, invoice.status);
+    return updated;
+  }
+}
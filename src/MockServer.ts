@@ -0,0 +1,487 @@
+import { randomBytes } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import OrderKuota from "./OrderKuota.js";
+import { createDynamicQris, crc16, serializeQrisTags } from "./qris.js";
+import {
+  MockPaymentOptions,
+  MockServerOptions,
+  OrderKuotaConfig,
+} from "./types.js";
+import { formatOrderKuotaDate } from "./utils.js";
+
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+const SESSION_EXPIRED_MESSAGE =
+  "Sesi login telah berakhir, silakan login ulang";
+
+/**
+ * Mutation in the raw shape returned by the mutasi endpoint
+ */
+interface RawMutation {
+  id: string;
+  debet: string;
+  kredit: string;
+  saldo_akhir: string;
+  keterangan: string;
+  tanggal: string;
+  status: "IN" | "OUT";
+  fee: string;
+  brand: { name: string; logo: string };
+  time: number;
+}
+
+type Fields = URLSearchParams;
+
+function createSampleQris(): string {
+  const payload = `${serializeQrisTags([
+    { id: "00", value: "01" },
+    { id: "01", value: "11" },
+    {
+      id: "51",
+      value: "",
+      children: [
+        { id: "00", value: "ID.CO.QRIS.WWW" },
+        { id: "02", value: "ID1020000000001" },
+        { id: "03", value: "UMI" },
+      ],
+    },
+    { id: "52", value: "5411" },
+    { id: "53", value: "360" },
+    { id: "58", value: "ID" },
+    { id: "59", value: "MOCK MERCHANT" },
+    { id: "60", value: "JAKARTA" },
+    { id: "61", value: "10110" },
+  ])}6304`;
+  return `${payload}${crc16(payload)}`;
+}
+
+function rupiah(amount: number): string {
+  return amount.toLocaleString("id-ID");
+}
+
+function formatMutationDate(date: Date): string {
+  const wib = new Date(date.getTime() + WIB_OFFSET_MS);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return (
+    `${pad(wib.getUTCDate())}/${pad(wib.getUTCMonth() + 1)}/${wib.getUTCFullYear()} ` +
+    `${pad(wib.getUTCHours())}:${pad(wib.getUTCMinutes())}`
+  );
+}
+
+async function readBody(req: IncomingMessage): Promise<Fields> {
+  let body = "";
+
+  req.setEncoding("utf8");
+  for await (const chunk of req) {
+    body += chunk;
+  }
+
+  return new URLSearchParams(body);
+}
+
+/**
+ * In-process fake of the OrderKuota API for offline integration tests.
+ *
+ * Implements the login (OTP and token stages), `/api/v2/get` (batched
+ * account, qris_menu, history and qris_ajaib sections), mutasi and menu
+ * endpoints with realistic payloads, plus scriptable
+ * scenarios: failed OTP, expired tokens, slow responses and payments that
+ * land after a delay.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockOrderKuotaServer({ otp: '123456' });
+ * await server.listen();
+ *
+ * const client = server.createClient();
+ * await client.getOTP();
+ * await client.getToken('123456');
+ *
+ * const { data } = await client.generateQRISAjaib(10000);
+ * server.schedulePayment({ amount: 10000 }, 2000);
+ *
+ * await server.close();
+ * ```
+ */
+export class MockOrderKuotaServer {
+  private readonly options: Required<Omit<MockServerOptions, "baseQrString">>;
+  private readonly baseQrString: string;
+  private readonly server: Server;
+  private readonly accountId = "1234567";
+  private readonly tokens = new Set<string>();
+  private readonly mutations: RawMutation[] = [];
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private balance: number;
+  private qrisBalance: number;
+  private latency = 0;
+  private otpFailure?: string;
+  private nextMutationId = 100000;
+  private address?: string;
+
+  /**
+   * Create mock server
+   *
+   * @param options Account credentials, balances and paging options
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.options = {
+      username: options.username ?? "mockuser",
+      password: options.password ?? "mockpass",
+      otp: options.otp ?? "123456",
+      email: options.email ?? "mock@example.com",
+      name: options.name ?? "Mock Merchant",
+      balance: options.balance ?? 0,
+      qrisBalance: options.qrisBalance ?? 0,
+      pageSize: options.pageSize ?? 20,
+      feeRate: options.feeRate ?? 0.007,
+    };
+    this.baseQrString = options.baseQrString ?? createSampleQris();
+    this.balance = this.options.balance;
+    this.qrisBalance = this.options.qrisBalance;
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, { success: false, message: String(error) });
+      });
+    });
+  }
+
+  /**
+   * Base URL of the running server, for OrderKuotaConfig.baseUrl.
+   *
+   * @throws {Error} When the server is not listening
+   */
+  get url(): string {
+    if (!this.address) {
+      throw new Error("Mock server is not listening. Call listen() first.");
+    }
+    return this.address;
+  }
+
+  /**
+   * Starts listening.
+   *
+   * @param port Port to bind (default: a random free port)
+   * @param host Interface to bind (default: 127.0.0.1)
+   * @returns Base URL of the server
+   */
+  async listen(port = 0, host = "127.0.0.1"): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = this.server.address() as AddressInfo;
+    this.address = `http://${host}:${address.port}`;
+    return this.address;
+  }
+
+  /**
+   * Stops the server, cancelling scheduled payments and open connections.
+   */
+  async close(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.address = undefined;
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Creates a client pointed at this server with the mock credentials.
+   *
+   * @param config Extra client configuration
+   * @returns OrderKuota client
+   */
+  createClient(config: Partial<OrderKuotaConfig> = {}): OrderKuota {
+    return new OrderKuota({
+      username: this.options.username,
+      password: this.options.password,
+      baseUrl: this.url,
+      ...config,
+    });
+  }
+
+  /**
+   * Makes the next OTP request fail.
+   *
+   * @param message Failure message returned by the API
+   */
+  failNextOtp(message = "Gagal mengirim OTP, silakan coba lagi"): void {
+    this.otpFailure = message;
+  }
+
+  /**
+   * Invalidates every issued token so the next authenticated request reports
+   * an expired session.
+   */
+  expireTokens(): void {
+    this.tokens.clear();
+  }
+
+  /**
+   * Delays every response, e.g. to exercise client timeouts.
+   *
+   * @param ms Delay in milliseconds, or 0 to respond immediately
+   */
+  setLatency(ms: number): void {
+    this.latency = ms;
+  }
+
+  /**
+   * Adds an incoming QRIS payment to the mutation history right away.
+   *
+   * @param payment Paid amount, time and issuer
+   * @returns ID of the new mutation
+   */
+  pay(payment: MockPaymentOptions): string {
+    const date = payment.date ?? new Date();
+    const fee = Math.round(payment.amount * this.options.feeRate);
+    const brand = payment.brand ?? "DANA";
+    const id = String(this.nextMutationId++);
+
+    this.qrisBalance += payment.amount - fee;
+    this.mutations.push({
+      id,
+      debet: "0",
+      kredit: rupiah(payment.amount),
+      saldo_akhir: rupiah(this.qrisBalance),
+      keterangan:
+        payment.description ??
+        `NMID : ID1020000000001 | ${brand} | ${randomBytes(6).toString("hex").toUpperCase()}`,
+      tanggal: formatMutationDate(date),
+      status: "IN",
+      fee: rupiah(fee),
+      brand: {
+        name: brand,
+        logo: `https://app.orderkuota.com/assets/qris/${brand.toLowerCase()}.png`,
+      },
+      time: date.getTime(),
+    });
+
+    return id;
+  }
+
+  /**
+   * Adds an incoming QRIS payment after a delay.
+   *
+   * @param payment Paid amount and issuer
+   * @param delay Milliseconds until the payment lands
+   * @returns Promise resolving with the mutation ID once the payment lands
+   */
+  schedulePayment(payment: MockPaymentOptions, delay: number): Promise<string> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve(this.pay(payment));
+      }, delay);
+      this.timers.add(timer);
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const fields = await readBody(req);
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+
+    if (req.method !== "POST") {
+      return this.send(res, 405, {
+        success: false,
+        message: "Method not allowed",
+      });
+    }
+
+    if (path === "/api/v2/login") {
+      return this.send(res, 200, this.login(fields));
+    }
+
+    const match = /^\/api\/v2\/(?:get|qris\/(mutasi|menu)\/([^/]+))$/.exec(
+      path,
+    );
+
+    if (!match) {
+      return this.send(res, 404, { success: false, message: "Not found" });
+    }
+
+    const [, endpoint, tokenId] = match;
+
+    if (!this.isAuthorized(fields, tokenId)) {
+      return this.send(res, 200, {
+        success: false,
+        message: SESSION_EXPIRED_MESSAGE,
+      });
+    }
+
+    const body: Record<string, unknown> = { success: true };
+
+    // Unparameterized sections are listed as requests[0]=account, requests[1]=...
+    const sections = new Set(
+      [...fields]
+        .filter(([key]) => /^requests\[\d+\]$/.test(key))
+        .map(([, value]) => value),
+    );
+
+    if (sections.has("account")) {
+      body.account = this.account();
+    }
+
+    if (endpoint !== "menu") {
+      for (const [key] of fields) {
+        const type = /^requests\[(\w+)\]\[page\]$/.exec(key)?.[1];
+        if (type) {
+          body[type] = this.history(type, fields);
+        }
+      }
+    }
+
+    if (endpoint === "menu" || sections.has("qris_menu")) {
+      body.qris_menu = this.menu();
+    }
+
+    if (!endpoint && fields.has("requests[qris_ajaib][amount]")) {
+      body.qris_ajaib = this.qrisAjaib(
+        Number(fields.get("requests[qris_ajaib][amount]")),
+      );
+    }
+
+    return this.send(res, 200, body);
+  }
+
+  private login(fields: Fields) {
+    const { username, password, otp, email, name } = this.options;
+
+    if (fields.get("username") !== username) {
+      return { success: false, message: "Username atau password salah" };
+    }
+
+    // OTP stage: the account password is sent
+    if (fields.get("password") === password) {
+      if (this.otpFailure) {
+        const message = this.otpFailure;
+        this.otpFailure = undefined;
+        return { success: false, message };
+      }
+
+      return {
+        success: true,
+        results: { otp: "email", otp_value: email },
+      };
+    }
+
+    // Token stage: the OTP is sent in the password field
+    if (fields.get("password") !== otp) {
+      return { success: false, message: "Kode OTP salah" };
+    }
+
+    const token = `${this.accountId}:${randomBytes(16).toString("hex")}`;
+    this.tokens.add(token);
+
+    return {
+      success: true,
+      results: {
+        token,
+        id: this.accountId,
+        name,
+        username,
+        balance: rupiah(this.balance),
+      },
+    };
+  }
+
+  private isAuthorized(fields: Fields, tokenId?: string): boolean {
+    const token = fields.get("auth_token") ?? "";
+
+    return (
+      fields.get("auth_username") === this.options.username &&
+      this.tokens.has(token) &&
+      (tokenId === undefined || token.split(":")[0] === tokenId)
+    );
+  }
+
+  private account() {
+    return {
+      success: true,
+      results: {
+        id: this.accountId,
+        name: this.options.name,
+        username: this.options.username,
+        balance: rupiah(this.balance),
+        qris_balance: rupiah(this.qrisBalance),
+      },
+    };
+  }
+
+  private history(type: string, fields: Fields) {
+    const param = (name: string) => fields.get(`requests[${type}][${name}]`);
+    const page = Math.max(1, Number(param("page")) || 1);
+    const from = param("dari_tanggal");
+    const to = param("ke_tanggal");
+    const keterangan = param("keterangan")?.toLowerCase();
+    const jumlah = param("jumlah");
+
+    const results = [...this.mutations]
+      .sort((a, b) => b.time - a.time)
+      .filter((mutation) => {
+        const day = formatOrderKuotaDate(new Date(mutation.time));
+        return (
+          (!from || day >= from) &&
+          (!to || day <= to) &&
+          (!keterangan ||
+            mutation.keterangan.toLowerCase().includes(keterangan)) &&
+          (!jumlah || mutation.kredit === rupiah(Number(jumlah)))
+        );
+      })
+      .slice((page - 1) * this.options.pageSize, page * this.options.pageSize)
+      .map(({ time: _time, ...mutation }) => mutation);
+
+    return { success: true, message: "", results };
+  }
+
+  private menu() {
+    return {
+      success: true,
+      message: "",
+      results: [
+        { id: "1", name: "QRIS Statis", description: "QRIS tanpa nominal" },
+        { id: "2", name: "QRIS Ajaib", description: "QRIS dengan nominal" },
+        { id: "3", name: "Mutasi QRIS", description: "Riwayat transaksi QRIS" },
+      ],
+    };
+  }
+
+  private qrisAjaib(amount: number) {
+    if (
+      !Number.isInteger(amount) ||
+      amount <= 0 ||
+      amount > 9_999_999_999_999
+    ) {
+      return { success: false, message: "Nominal tidak valid" };
+    }
+
+    return {
+      success: true,
+      message: "",
+      results: {
+        qr_string: createDynamicQris(this.baseQrString, { amount }),
+        amount: rupiah(amount),
+        expired_date: formatMutationDate(new Date(Date.now() + 30 * 60 * 1000)),
+      },
+    };
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
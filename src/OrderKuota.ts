@@ -1,7 +1,129 @@
-import axios, { AxiosResponse, AxiosError } from "axios";
-import * as QRCode from "qrcode";
-import * as qs from "qs";
-import { OrderKuotaConfig, HistoryOptions, OrderKuotaError } from "./types.js";
+import { TypedEmitter } from "./emitter.js";
+import {
+  OrderKuotaConfig,
+  HistoryOptions,
+  HistoryIteratorOptions,
+  QrisTransaction,
+  OrderKuotaError,
+  QrisTip,
+  RequestOptions,
+  Transport,
+  SessionStore,
+  OtpProvider,
+  DeviceProfile,
+  OTPResponse,
+  TokenResponse,
+  QrisHistoryResponse,
+  QrisMenuResponse,
+  QrisAjaibResponse,
+  BalanceResponse,
+  EndpointClass,
+  TransportResponse,
+  QrImageOptions,
+  QrRenderOptions,
+  Credentials,
+  CredentialsProvider,
+} from "./types.js";
+import type { RateLimiter } from "./RateLimiter.js";
+import { REDACTED, RequestObserver } from "./observability.js";
+import { fingerprintToken } from "./credentials.js";
+import { BatchRequest } from "./BatchRequest.js";
+import { createDynamicQris } from "./qris.js";
+import {
+  decodeOtpResponse,
+  decodeTokenResponse,
+  decodeQrisHistoryResponse,
+  decodeQrisMenuResponse,
+  decodeQrisAjaibResponse,
+} from "./decoders.js";
+import { FetchTransport } from "./fetchTransport.js";
+import { renderQrDataUrl } from "./render.js";
+import {
+  encodeForm,
+  formatOrderKuotaDate,
+  parseOrderKuotaDate,
+} from "./utils.js";
+import {
+  DEFAULT_DEVICE_PROFILE,
+  generateDeviceProfile,
+  toDeviceFields,
+} from "./device.js";
+
+/**
+ * Request description passed to the internal post helper
+ */
+interface PostRequest {
+  /** Name of the public method making the request */
+  name: string;
+  /** Endpoint URL */
+  url: string;
+  /** Endpoint class used for rate limiting */
+  endpoint: EndpointClass;
+  /** Form fields */
+  payload: Record<string, string>;
+  /** Response sections whose own success flags must be checked */
+  sections?: string[];
+  /** Whether the request is a read that can safely be retried */
+  idempotent?: boolean;
+  /** Caller-supplied signal and timeout */
+  options?: RequestOptions;
+  /** Whether the request carries the auth token */
+  authenticated?: boolean;
+}
+
+/**
+ * Events emitted by OrderKuota
+ */
+export interface OrderKuotaEvents {
+  /** The API rejected the token; emitted before any automatic re-login */
+  sessionExpired: [error: OrderKuotaError];
+  /** A new token was obtained via getToken() or an automatic re-login */
+  login: [token: TokenResponse];
+}
+
+// Messages the API uses when the auth token is no longer accepted. Kept to
+// whole phrases, since words like "token" or "kadaluarsa" alone also appear in
+// business errors such as an expired QRIS.
+const SESSION_EXPIRED_PATTERN =
+  /sesi (login )?(anda )?(telah |sudah )?(berakhir|habis)|silakan login (ulang|kembali)|session (has )?expired|token (tidak valid|sudah tidak berlaku|expired)|invalid token|unauthori[sz]ed/i;
+
+// Messages the API uses when requests come in too fast
+const THROTTLED_PATTERN =
+  /too many|rate limit|terlalu banyak|terlalu sering|coba lagi nanti/i;
+
+// Attempts for an idempotent request that keeps getting throttled
+const MAX_THROTTLED_ATTEMPTS = 3;
+
+// generateQRImage() options the renderer honours
+const QR_IMAGE_OPTIONS = [
+  "width",
+  "scale",
+  "margin",
+  "errorCorrectionLevel",
+  "color",
+  "type",
+];
+
+// Lets util.inspect and console.log show the masked view without importing util
+const INSPECT = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * Keeps a configured password in a closure instead of a property, so it does
+ * not show up when the client is inspected, serialized or enumerated, and
+ * drops it on release() so it is not held for the client's lifetime.
+ */
+function staticCredentials(
+  password: string,
+): CredentialsProvider & { release(): void } {
+  let held: string | undefined = password;
+
+  return {
+    resolve: async () => ({ password: held }),
+    release: () => {
+      held = undefined;
+    },
+  };
+}
 
 /**
  * OrderKuota API wrapper for Indonesian QRIS payment system.
@@ -20,44 +142,49 @@ import { OrderKuotaConfig, HistoryOptions, OrderKuotaError } from "./types.js";
  * const payment = await client.generateQRISAjaib(10000);
  * ```
  */
-export default class OrderKuota {
+export default class OrderKuota extends TypedEmitter<OrderKuotaEvents> {
   private readonly username: string;
-  private readonly password: string;
+  private readonly credentials: CredentialsProvider;
+  private readonly releasePassword?: () => void;
   private token?: string;
   private readonly baseQrString?: string;
+  private readonly transport: Transport;
+  private readonly timeout: number;
+  private readonly sessionStore?: SessionStore;
+  private readonly otpProvider?: OtpProvider;
+  private sessionRestore?: Promise<boolean>;
+  private relogin?: Promise<void>;
+  private readonly deviceOverrides: Partial<DeviceProfile>;
+  private device: DeviceProfile;
+  private readonly baseUrl: string;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly observer: RequestObserver;
 
-  // API endpoints
-  private static readonly OK_LOGIN_ENDPOINT =
-    "https://app.orderkuota.com/api/v2/login";
-  private static readonly OKE_GET_ENDPOINT =
-    "https://app.orderkuota.com/api/v2/get";
+  private static readonly DEFAULT_BASE_URL = "https://app.orderkuota.com";
 
   private static readonly OK_HEADERS = {
-    "User-Agent": "okhttp/4.12.0",
-    Host: "app.orderkuota.com",
     "Content-Type": "application/x-www-form-urlencoded",
   };
 
-  private static readonly OK_CONSTANTS = {
-    app_reg_id:
-      "e5aCENGrQOWvhQWYnv-uNc:APA91bFj3O_mv5Nf_2SM4Duz4Z8Ug3nBNaHlgodlY92CBuNIA9xmc0Dahev5xxqssPmnTdcie4mlhiG9ZAE1iCe1QbyhxcUyGXlenJxiUaXdfm1rklOEo9k",
-    phone_uuid: "e5aCENGrQOWvhQWYnv-uNc",
-    phone_model: "sdk_gphone64_x86_64",
-    phone_android_version: "16",
-    app_version_code: "250811",
-    app_version_name: "25.08.11",
-    ui_mode: "light",
-  };
+  /**
+   * Creates the transport for clients configured without one. Uses
+   * FetchTransport; the Node.js entry point replaces it with AxiosTransport.
+   */
+  static createDefaultTransport: (options: { timeout: number }) => Transport = (
+    options,
+  ) => new FetchTransport(options);
 
   /**
    * Create OrderKuota client
    *
-   * @param config Configuration with username and password
-   * @throws {OrderKuotaError} When username or password is missing
+   * @param config Configuration with username and password or credentials provider
+   * @throws {OrderKuotaError} When username or password is missing or baseUrl is invalid
    */
   constructor(config: OrderKuotaConfig) {
+    super();
+
     // Validate required fields
-    if (!config.username || !config.password) {
+    if (!config.username || !(config.password || config.credentials)) {
       throw new OrderKuotaError(
         "Missing required configuration. Username and password are required.",
         "MISSING_CONFIG",
@@ -65,418 +192,546 @@ export default class OrderKuota {
     }
 
     this.username = config.username;
-    this.password = config.password;
+
+    if (config.credentials) {
+      this.credentials = config.credentials;
+    } else {
+      const credentials = staticCredentials(config.password as string);
+      this.credentials = credentials;
+      // Automatic re-login needs the password again, so it is only released
+      // after login when no OTP provider is configured
+      if (!config.otpProvider) {
+        this.releasePassword = credentials.release;
+      }
+    }
     this.token = config.token;
     this.baseQrString = config.baseQrString;
+    this.baseUrl = (config.baseUrl ?? OrderKuota.DEFAULT_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+
+    if (!URL.canParse(this.baseUrl)) {
+      throw new OrderKuotaError(
+        `Invalid baseUrl: ${config.baseUrl}`,
+        "MISSING_CONFIG",
+      );
+    }
+
+    this.timeout = config.timeout ?? 30000;
+    this.transport =
+      config.transport ??
+      OrderKuota.createDefaultTransport({ timeout: this.timeout });
+    this.sessionStore = config.sessionStore;
+    this.rateLimiter = config.rateLimiter;
+    this.observer = new RequestObserver(
+      config.hooks,
+      config.logger,
+      config.telemetry,
+    );
+    this.otpProvider = config.otpProvider;
+    this.deviceOverrides = config.device ?? {};
+    this.device = {
+      ...(config.randomDevice
+        ? generateDeviceProfile()
+        : DEFAULT_DEVICE_PROFILE),
+      ...this.deviceOverrides,
+    };
   }
 
   /**
-   * Request OTP for authentication
+   * Loads the token and device profile from the session store.
    *
-   * @returns Promise with OTP response including email
+   * Called automatically before the first authenticated request; call it
+   * directly to fail fast on startup.
+   *
+   * @returns True if a stored token was loaded
    */
-  async getOTP(): Promise<any> {
-    try {
-      const payload = qs.stringify({
-        username: this.username,
-        password: this.password,
-        ...OrderKuota.OK_CONSTANTS,
-      });
+  async restoreSession(): Promise<boolean> {
+    const session = await this.sessionStore?.load(this.username);
 
-      const response: AxiosResponse = await axios.post(
-        OrderKuota.OK_LOGIN_ENDPOINT,
-        payload,
-        {
-          headers: {
-            ...OrderKuota.OK_HEADERS,
-            "User-Agent": "okhttp/4.12.0",
-          },
-        },
-      );
-
-      const data = response?.data;
+    if (session?.device) {
+      this.device = { ...session.device, ...this.deviceOverrides };
+    }
 
-      // Return API response directly
-      if (data?.success === false) {
-        return data;
-      }
+    // An explicit token takes precedence over the stored session
+    if (session?.token && !this.token) {
+      this.token = session.token;
+      return true;
+    }
 
-      const email = data?.results?.otp_value;
+    return false;
+  }
 
-      if (!email) {
-        return {
-          success: false,
-          message: "Failed to get OTP email from response",
-        };
-      }
+  /**
+   * Forgets the current token and removes it from the session store. The
+   * device profile stays stored, so the next login comes from the same device.
+   */
+  async logout(): Promise<void> {
+    await this.forgetToken();
+  }
 
-      return {
-        status: "success",
-        email: email,
-        message: `OTP has been sent to ${email}. Please check your email.`,
-      };
-    } catch (error) {
-      if (error instanceof OrderKuotaError) {
-        throw error;
-      }
+  /**
+   * Request OTP for authentication
+   *
+   * @param options Abort signal and timeout
+   * @returns Promise with OTP response including email
+   * @throws {OrderKuotaError} MISSING_CONFIG when no password is available,
+   * e.g. a plain password released after login, or when the request fails or
+   * the API rejects the credentials
+   */
+  async getOTP(options: RequestOptions = {}): Promise<OTPResponse> {
+    await this.restoreSessionOnce();
 
-      if (error instanceof AxiosError) {
-        return {
-          success: false,
-          message: `Network error: ${error.message}`,
-        };
-      }
+    const { password } = await this.resolveCredentials("getOTP");
 
-      return {
-        success: false,
-        message: `Unexpected error during OTP request: ${error}`,
-      };
+    if (!password) {
+      throw new OrderKuotaError(
+        "Password is required to log in. A plain password is released after the first login; use a credentials provider or otpProvider to log in again.",
+        "MISSING_CONFIG",
+        undefined,
+        { request: "getOTP" },
+      );
     }
+    const payload = {
+      username: this.username,
+      password,
+      ...this.deviceFields,
+    };
+
+    const data = await this.post({
+      name: "getOTP",
+      url: `${this.baseUrl}/api/v2/login`,
+      endpoint: "login",
+      payload,
+      options,
+    });
+
+    return this.decode("getOTP", data, decodeOtpResponse);
   }
 
   /**
    * Authenticates and retrieves access token using OTP.
    *
    * @param otp OTP code received via email
+   * @param options Abort signal and timeout
    * @returns Promise with authentication token and user data
+   * @throws {OrderKuotaError} When the OTP is missing or rejected, or the request fails
    */
-  async getToken(otp: string): Promise<any> {
-    try {
-      if (!otp) {
-        throw new OrderKuotaError(
-          "OTP code is required",
-          "INVALID_CREDENTIALS",
-        );
-      }
-
-      const payload = qs.stringify({
-        username: this.username,
-        password: otp,
-        ...OrderKuota.OK_CONSTANTS,
-      });
-
-      const response: AxiosResponse = await axios.post(
-        OrderKuota.OK_LOGIN_ENDPOINT,
-        payload,
-        {
-          headers: {
-            ...OrderKuota.OK_HEADERS,
-            "User-Agent": "okhttp/4.12.0",
-          },
-        },
+  async getToken(
+    otp: string,
+    options: RequestOptions = {},
+  ): Promise<TokenResponse> {
+    if (!otp) {
+      throw new OrderKuotaError(
+        "OTP code is required",
+        "INVALID_CREDENTIALS",
+        undefined,
+        { request: "getToken" },
       );
+    }
 
-      const data = response.data;
-
-      // Return API response directly
-      if (data?.success === false) {
-        return data;
-      }
-
-      if (!data?.results?.token) {
-        return {
-          success: false,
-          message: "Token not found in response.",
-        };
-      }
+    await this.restoreSessionOnce();
 
-      this.token = data.results.token;
+    const payload = {
+      username: this.username,
+      password: otp,
+      ...this.deviceFields,
+    };
 
-      return {
-        status: "success",
-        token: data.results.token,
-        id: data.results.id,
-        name: data.results.name,
-        username: data.results.username,
-        balance: data.results.balance,
-        message: "Token successfully obtained.",
-      };
-    } catch (error) {
-      if (error instanceof OrderKuotaError) {
-        throw error;
-      }
+    const data = await this.post({
+      name: "getToken",
+      url: `${this.baseUrl}/api/v2/login`,
+      endpoint: "login",
+      payload,
+      options,
+    });
+    const tokenResponse = this.decode("getToken", data, decodeTokenResponse);
 
-      if (error instanceof AxiosError) {
-        return {
-          success: false,
-          message: `Network error: ${error.message}`,
-        };
-      }
+    this.token = tokenResponse.token;
+    this.releasePassword?.();
+    await this.sessionStore?.save({
+      username: this.username,
+      token: tokenResponse.token,
+      device: this.device,
+      updatedAt: new Date().toISOString(),
+    });
+    this.emit("login", tokenResponse);
+    this.observer.log("info", "OrderKuota login", {
+      username: this.username,
+      tokenFingerprint: await fingerprintToken(tokenResponse.token),
+    });
 
-      return {
-        success: false,
-        message: `Unexpected error during token request: ${error}`,
-      };
-    }
+    return tokenResponse;
   }
 
   /**
    * Get QRIS transaction history
    *
    * @param historyType Type of history ('qris_history' or 'qris_ajaib_history')
-   * @param options Optional filters for history
+   * @param options Optional filters for history, abort signal and timeout
    * @returns Promise with transaction history
+   * @throws {OrderKuotaError} When no token is set or the request fails
    */
   async getQRISHistory(
     historyType: string = "qris_history",
     options: HistoryOptions = {},
-  ): Promise<any> {
-    try {
-      if (!this.token) {
-        throw new OrderKuotaError(
-          "Token is required. Please call getToken() first.",
-          "INVALID_CREDENTIALS",
-        );
-      }
-
+  ): Promise<QrisHistoryResponse> {
+    return this.authorized("getQRISHistory", async (token) => {
       const timestamp = Date.now().toString();
-      const tokenId = this.token.split(":")[0]; // Extract token ID
+      const tokenId = token.split(":")[0]; // Extract token ID
+
+      const device = this.deviceFields;
 
       // Prepare payload for QRIS history
       const payload = {
-        app_reg_id: OrderKuota.OK_CONSTANTS.app_reg_id,
-        phone_uuid: OrderKuota.OK_CONSTANTS.phone_uuid,
-        phone_model: OrderKuota.OK_CONSTANTS.phone_model,
+        app_reg_id: device.app_reg_id,
+        phone_uuid: device.phone_uuid,
+        phone_model: device.phone_model,
         [`requests[${historyType}][keterangan]`]: options.keterangan || "",
         [`requests[${historyType}][jumlah]`]: options.jumlah || "",
         request_time: timestamp,
-        phone_android_version: OrderKuota.OK_CONSTANTS.phone_android_version,
-        app_version_code: OrderKuota.OK_CONSTANTS.app_version_code,
+        phone_android_version: device.phone_android_version,
+        app_version_code: device.app_version_code,
         auth_username: this.username,
         [`requests[${historyType}][page]`]: options.page || "1",
-        auth_token: this.token,
-        app_version_name: OrderKuota.OK_CONSTANTS.app_version_name,
-        ui_mode: OrderKuota.OK_CONSTANTS.ui_mode,
+        auth_token: token,
+        app_version_name: device.app_version_name,
+        ui_mode: device.ui_mode,
         [`requests[${historyType}][dari_tanggal]`]: options.dari_tanggal || "",
         "requests[0]": "account",
         [`requests[${historyType}][ke_tanggal]`]: options.ke_tanggal || "",
       };
 
-      const response: AxiosResponse = await axios.post(
-        `https://app.orderkuota.com/api/v2/qris/mutasi/${tokenId}`,
-        qs.stringify(payload),
-        {
-          headers: {
-            ...OrderKuota.OK_HEADERS,
-            "Content-Type": "application/x-www-form-urlencoded",
-            "User-Agent": "okhttp/4.12.0",
-          },
-        },
+      const data = await this.post({
+        name: "getQRISHistory",
+        url: `${this.baseUrl}/api/v2/qris/mutasi/${tokenId}`,
+        endpoint: "mutasi",
+        payload,
+        sections: [historyType],
+        idempotent: true,
+        authenticated: true,
+        options,
+      });
+
+      return this.decode("getQRISHistory", data, (body) =>
+        decodeQrisHistoryResponse(body, historyType),
       );
+    });
+  }
 
-      return response.data;
-    } catch (error) {
-      if (error instanceof OrderKuotaError) {
-        throw error;
+  /**
+   * Iterates transaction history across pages, newest first.
+   *
+   * Stops when a page comes back empty, when `maxPages` is reached or when
+   * transactions older than `from` appear.
+   *
+   * @example
+   * ```typescript
+   * for await (const tx of client.history({
+   *   from: new Date('2025-08-01T00:00:00+07:00'),
+   *   to: new Date('2025-08-31T23:59:59+07:00'),
+   * })) {
+   *   console.log(tx.date, tx.amount, tx.description);
+   * }
+   * ```
+   *
+   * @param options Date range, history type, filters and paging limits
+   * @returns Async iterator of transactions
+   * @throws {OrderKuotaError} When from or to is not a valid date, no token is set or a page request fails
+   */
+  async *history(
+    options: HistoryIteratorOptions = {},
+  ): AsyncGenerator<QrisTransaction, void, undefined> {
+    const { from, to, maxPages } = options;
+
+    for (const [name, value] of [
+      ["from", from],
+      ["to", to],
+    ] as const) {
+      if (
+        value !== undefined &&
+        !(value instanceof Date && !Number.isNaN(value.getTime()))
+      ) {
+        throw new OrderKuotaError(
+          `history() option ${name} must be a valid Date`,
+          "INVALID_ARGUMENT",
+          undefined,
+          { request: "history" },
+        );
       }
+    }
 
-      if (error instanceof AxiosError) {
-        return {
-          success: false,
-          message: `Network error: ${error.message}`,
-        };
+    const type = options.type ?? "qris_history";
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+    const filters: HistoryOptions = {
+      keterangan: options.keterangan,
+      jumlah: options.jumlah,
+      dari_tanggal: from && formatOrderKuotaDate(from),
+      ke_tanggal: to && formatOrderKuotaDate(to),
+      signal: options.signal,
+      timeout: options.timeout,
+    };
+    // New mutations shift later pages while iterating, so skip repeats
+    const seen = new Set<string>();
+    let page = 1;
+
+    while (maxPages === undefined || page <= maxPages) {
+      const count =
+        maxPages === undefined
+          ? concurrency
+          : Math.min(concurrency, maxPages - page + 1);
+      const responses = await Promise.all(
+        Array.from({ length: count }, (_, index) =>
+          this.getQRISHistory(type, {
+            ...filters,
+            page: String(page + index),
+          }),
+        ),
+      );
+
+      for (const response of responses) {
+        if (response.data.length === 0) {
+          return;
+        }
+
+        for (const transaction of response.data) {
+          const time = parseOrderKuotaDate(transaction.date)?.getTime();
+
+          if (time !== undefined && from && time < from.getTime()) {
+            return;
+          }
+
+          if (
+            seen.has(transaction.id) ||
+            (time !== undefined && to && time > to.getTime())
+          ) {
+            continue;
+          }
+
+          seen.add(transaction.id);
+          yield transaction;
+        }
       }
 
-      return {
-        success: false,
-        message: `Unexpected error during QRIS history request: ${error}`,
-      };
+      page += count;
     }
   }
 
   /**
    * Fetches available QRIS menu options and account status.
    *
+   * @param options Abort signal and timeout
    * @returns Promise with QRIS menu data and account information
+   * @throws {OrderKuotaError} When no token is set or the request fails
    */
-  async fetchQrisMenu(): Promise<any> {
-    try {
-      if (!this.token) {
-        throw new OrderKuotaError(
-          "Token is required. Please call getToken() first.",
-          "INVALID_CREDENTIALS",
-        );
-      }
-
+  async fetchQrisMenu(options: RequestOptions = {}): Promise<QrisMenuResponse> {
+    return this.authorized("fetchQrisMenu", async (token) => {
       const timestamp = Date.now().toString();
-      const tokenId = this.token.split(":")[0]; // Extract token ID
+      const tokenId = token.split(":")[0]; // Extract token ID
+
+      const device = this.deviceFields;
 
       // Prepare payload data
       const payload = {
         request_time: timestamp,
-        app_reg_id: OrderKuota.OK_CONSTANTS.app_reg_id,
-        phone_android_version: OrderKuota.OK_CONSTANTS.phone_android_version,
-        app_version_code: OrderKuota.OK_CONSTANTS.app_version_code,
-        phone_uuid: OrderKuota.OK_CONSTANTS.phone_uuid,
+        app_reg_id: device.app_reg_id,
+        phone_android_version: device.phone_android_version,
+        app_version_code: device.app_version_code,
+        phone_uuid: device.phone_uuid,
         auth_username: this.username,
         "requests[1]": "qris_menu",
-        auth_token: this.token,
-        app_version_name: OrderKuota.OK_CONSTANTS.app_version_name,
-        ui_mode: OrderKuota.OK_CONSTANTS.ui_mode,
+        auth_token: token,
+        app_version_name: device.app_version_name,
+        ui_mode: device.ui_mode,
         "requests[0]": "account",
-        phone_model: OrderKuota.OK_CONSTANTS.phone_model,
+        phone_model: device.phone_model,
       };
 
-      const response: AxiosResponse = await axios.post(
-        `https://app.orderkuota.com/api/v2/qris/menu/${tokenId}`,
-        qs.stringify(payload),
-        {
-          headers: {
-            ...OrderKuota.OK_HEADERS,
-            "Content-Type": "application/x-www-form-urlencoded",
-            "User-Agent": "okhttp/4.12.0",
-          },
-        },
-      );
-
-      return response.data;
-    } catch (error) {
-      if (error instanceof OrderKuotaError) {
-        throw error;
-      }
-
-      if (error instanceof AxiosError) {
-        return {
-          success: false,
-          message: `Network error: ${error.message}`,
-        };
-      }
+      const data = await this.post({
+        name: "fetchQrisMenu",
+        url: `${this.baseUrl}/api/v2/qris/menu/${tokenId}`,
+        endpoint: "menu",
+        payload,
+        sections: ["account"],
+        idempotent: true,
+        authenticated: true,
+        options,
+      });
 
-      return {
-        success: false,
-        message: `Unexpected error during QRIS menu request: ${error}`,
-      };
-    }
+      return this.decode("fetchQrisMenu", data, decodeQrisMenuResponse);
+    });
   }
 
   /**
    * Generates QRIS Ajaib payment with specified amount.
    *
    * @param amount Payment amount in Indonesian Rupiah (default: 1000)
+   * @param options Abort signal and timeout
    * @returns Promise with QRIS payment data and QR string
+   * @throws {OrderKuotaError} When no token is set, the amount is not a positive whole number or the request fails
    */
-  async generateQRISAjaib(amount: number = 1000): Promise<any> {
-    try {
-      if (!this.token) {
-        throw new OrderKuotaError(
-          "Token is required. Please call getToken() first.",
-          "INVALID_CREDENTIALS",
-        );
-      }
-
-      if (amount <= 0) {
-        throw new OrderKuotaError(
-          "Amount must be greater than 0",
-          "INVALID_AMOUNT",
-        );
-      }
+  async generateQRISAjaib(
+    amount: number = 1000,
+    options: RequestOptions = {},
+  ): Promise<QrisAjaibResponse> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new OrderKuotaError(
+        "Amount must be a positive whole number of rupiah",
+        "INVALID_AMOUNT",
+        undefined,
+        { request: "generateQRISAjaib" },
+      );
+    }
 
+    return this.authorized("generateQRISAjaib", async (token) => {
       const timestamp = Date.now().toString();
 
       // Prepare payload with required fields
       const payload = {
-        ...OrderKuota.OK_CONSTANTS,
+        ...this.deviceFields,
         auth_username: this.username,
-        auth_token: this.token,
+        auth_token: token,
         request_time: timestamp,
         "requests[qris_ajaib][amount]": amount.toString(),
       };
 
-      const response: AxiosResponse = await axios.post(
-        OrderKuota.OKE_GET_ENDPOINT,
-        qs.stringify(payload),
-        {
-          headers: {
-            ...OrderKuota.OK_HEADERS,
-            "Content-Type": "application/x-www-form-urlencoded",
-            "User-Agent": "okhttp/4.12.0",
-          },
-        },
-      );
+      const data = await this.post({
+        name: "generateQRISAjaib",
+        url: `${this.baseUrl}/api/v2/get`,
+        endpoint: "get",
+        payload,
+        sections: ["qris_ajaib"],
+        authenticated: true,
+        options,
+      });
 
-      return response.data;
-    } catch (error) {
-      if (error instanceof OrderKuotaError) {
-        throw error;
-      }
+      return this.decode("generateQRISAjaib", data, decodeQrisAjaibResponse);
+    });
+  }
 
-      if (error instanceof AxiosError) {
-        return {
-          success: false,
-          message: `Network error: ${error.message}`,
+  /**
+   * Starts a batch that sends several `/api/v2/get` sub-requests in one round
+   * trip and returns their results as a typed tuple.
+   *
+   * @example
+   * ```typescript
+   * const [account, menu, mutations] = await client
+   *   .batch()
+   *   .account()
+   *   .qrisMenu()
+   *   .qrisHistory()
+   *   .send();
+   * ```
+   *
+   * @returns Empty batch builder
+   */
+  batch(): BatchRequest {
+    return new BatchRequest((fields, sections, idempotent, options, decode) =>
+      this.authorized("batch", async (token) => {
+        const payload = {
+          ...this.deviceFields,
+          auth_username: this.username,
+          auth_token: token,
+          request_time: Date.now().toString(),
+          ...fields,
         };
-      }
 
-      return {
-        success: false,
-        message: `Unexpected error during QRIS Ajaib generation: ${error}`,
-      };
-    }
+        const data = await this.post({
+          name: "batch",
+          url: `${this.baseUrl}/api/v2/get`,
+          endpoint: "get",
+          payload,
+          sections,
+          idempotent,
+          authenticated: true,
+          options,
+        });
+
+        return this.decode("batch", data, decode);
+      }),
+    );
   }
 
   /**
    * Checks current account balance from QRIS menu data.
    *
+   * @param options Abort signal and timeout
    * @returns Promise with balance and QRIS balance information
+   * @throws {OrderKuotaError} When no token is set or the request fails
    */
-  async checkBalance(): Promise<any> {
-    try {
-      if (!this.token) {
-        return {
-          success: false,
-          message: "Token is required. Please call getToken() first.",
-        };
-      }
+  async checkBalance(options: RequestOptions = {}): Promise<BalanceResponse> {
+    await this.ensureToken("checkBalance");
 
-      const menuResponse = await this.fetchQrisMenu();
+    const { account } = await this.fetchQrisMenu(options);
 
-      if (menuResponse?.success === false) {
-        return {
-          success: false,
-          message: menuResponse?.message || "Failed to check balance",
-        };
-      }
-
-      if (menuResponse?.account?.success !== true) {
-        return {
-          success: false,
-          message: menuResponse?.account?.message || "Failed to check balance",
-        };
-      }
-
-      const accountData = menuResponse?.account?.results;
-
-      if (!accountData) {
-        return {
-          success: false,
-          message: "Account data not found in response",
-        };
-      }
+    return {
+      success: true,
+      balance: account.balance,
+      qris_balance: account.qris_balance,
+    };
+  }
 
-      return {
-        success: true,
-        balance: accountData.balance || 0,
-        qris_balance: accountData.qris_balance || 0,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Unexpected error during balance check: ${error}`,
-      };
+  /**
+   * Generates a dynamic QRIS locally from the configured base QRIS string,
+   * without calling the OrderKuota API.
+   *
+   * @param amount Payment amount in Indonesian Rupiah
+   * @param tip Optional tip or convenience fee
+   * @returns Dynamic QRIS string with recomputed CRC16
+   * @throws {OrderKuotaError} When baseQrString is not configured or is invalid, or the amount is not a positive whole number
+   */
+  generateDynamicQRIS(amount: number, tip?: QrisTip): string {
+    if (!this.baseQrString) {
+      throw new OrderKuotaError(
+        "baseQrString is required to generate a dynamic QRIS locally.",
+        "MISSING_CONFIG",
+      );
     }
+
+    return createDynamicQris(this.baseQrString, { amount, tip });
   }
 
   /**
    * Generate QR code image from QRIS string
    *
+   * Rendered as PNG without Node.js modules, so it works on edge runtimes
+   * too. Takes the qrcode package's width, scale, margin, color and
+   * errorCorrectionLevel options; other options of that package, such as
+   * JPEG or WebP output and their quality, are rejected.
+   *
    * @param qrisString QRIS string to convert
-   * @param options QR code generation options
+   * @param options Size, margin, colours and error correction level
    * @returns Promise with base64 encoded QR image
+   * @throws {OrderKuotaError} INVALID_ARGUMENT for unsupported options, or
+   * QR_GENERATION_FAILED when the QR code cannot be generated
    */
   async generateQRImage(
     qrisString: string,
-    options: QRCode.QRCodeToDataURLOptions = {},
+    options: QrImageOptions = {},
   ): Promise<string> {
+    const unsupported = Object.keys(options).filter(
+      (key) => !QR_IMAGE_OPTIONS.includes(key),
+    );
+
+    if (unsupported.length > 0) {
+      throw new OrderKuotaError(
+        `Unsupported QR image options: ${unsupported.join(", ")}. Only ${QR_IMAGE_OPTIONS.join(", ")} are supported`,
+        "INVALID_ARGUMENT",
+        undefined,
+        { request: "generateQRImage" },
+      );
+    }
+
+    if (options.type !== undefined && options.type !== "image/png") {
+      throw new OrderKuotaError(
+        `Unsupported QR image type ${options.type}: only image/png is rendered`,
+        "INVALID_ARGUMENT",
+        undefined,
+        { request: "generateQRImage" },
+      );
+    }
+
     try {
       if (!qrisString) {
         throw new OrderKuotaError(
@@ -485,19 +740,26 @@ export default class OrderKuota {
         );
       }
 
-      const defaultOptions: QRCode.QRCodeToDataURLOptions = {
-        type: "image/png",
-        margin: 1,
-        color: {
-          dark: "#000000",
-          light: "#FFFFFF",
-        },
-        width: 256,
-        ...options,
-      };
-
-      return await QRCode.toDataURL(qrisString, defaultOptions);
+      return await renderQrDataUrl(qrisString, {
+        width: options.width,
+        scale: options.scale,
+        margin: options.margin ?? 1,
+        // Accepts both "L" and "low" spellings of the qrcode package
+        errorCorrectionLevel: options.errorCorrectionLevel
+          ?.charAt(0)
+          .toUpperCase() as QrRenderOptions["errorCorrectionLevel"],
+        dark: options.color?.dark,
+        light: options.color?.light,
+      });
     } catch (error) {
+      if (
+        error instanceof OrderKuotaError &&
+        (error.code === "QR_GENERATION_FAILED" ||
+          error.code === "INVALID_ARGUMENT")
+      ) {
+        throw error;
+      }
+
       throw new OrderKuotaError(
         `Failed to generate QR image: ${error}`,
         "QR_GENERATION_FAILED",
@@ -524,25 +786,61 @@ export default class OrderKuota {
   }
 
   /**
-   * Gets current configuration without sensitive data.
+   * Gets the device profile reported to the API.
+   *
+   * @returns Current device profile
+   */
+  getDeviceProfile(): DeviceProfile {
+    return { ...this.device };
+  }
+
+  /**
+   * Gets a short, non-reversible identifier of the current token for logs.
+   *
+   * @returns "sha256:" followed by 12 hex digits, or undefined if no token is set
+   */
+  async getTokenFingerprint(): Promise<string | undefined> {
+    return this.token === undefined ? undefined : fingerprintToken(this.token);
+  }
+
+  /**
+   * Gets current configuration without sensitive data. The token is masked;
+   * use getTokenValue() to read it.
    *
-   * @returns Configuration object excluding password
+   * @returns Configuration object excluding password, with the token masked
    */
   getConfig(): Omit<OrderKuotaConfig, "password"> {
     return {
       username: this.username,
-      token: this.token,
+      token: this.token === undefined ? undefined : REDACTED,
       baseQrString: this.baseQrString,
+      baseUrl: this.baseUrl,
     };
   }
 
+  /**
+   * Masked view used by JSON.stringify, so serialized clients carry no secrets.
+   *
+   * @returns Same as getConfig()
+   */
+  toJSON(): Omit<OrderKuotaConfig, "password"> {
+    return this.getConfig();
+  }
+
+  /**
+   * Masked view used by util.inspect and console.log in Node.js.
+   */
+  [INSPECT](): Omit<OrderKuotaConfig, "password"> {
+    return this.getConfig();
+  }
+
   /**
    * Validates if configuration has required fields.
    *
-   * @returns True if username and password are both set
+   * @returns True if username and password or a credentials provider are set
    */
   isConfigValid(): boolean {
-    return !!(this.username && this.password);
+    return !!(this.username && this.credentials);
   }
 
   /**
@@ -553,4 +851,314 @@ export default class OrderKuota {
   hasToken(): boolean {
     return !!this.token;
   }
+
+  private async restoreSessionOnce(): Promise<void> {
+    if (this.sessionStore) {
+      this.sessionRestore ??= this.restoreSession();
+      await this.sessionRestore;
+    }
+  }
+
+  private async forgetToken(): Promise<void> {
+    this.token = undefined;
+    await this.sessionStore?.save({
+      username: this.username,
+      device: this.device,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private get deviceFields(): Record<string, string> {
+    return toDeviceFields(this.device);
+  }
+
+  private async ensureToken(request: string): Promise<string> {
+    await this.restoreSessionOnce();
+
+    this.token ??= (await this.resolveCredentials(request)).token;
+
+    if (!this.token) {
+      throw new OrderKuotaError(
+        "Token is required. Please call getToken() first.",
+        "INVALID_CREDENTIALS",
+        undefined,
+        { request },
+      );
+    }
+
+    return this.token;
+  }
+
+  /**
+   * Resolves the password and token from the credentials provider, reporting
+   * provider failures as OrderKuotaErrors.
+   */
+  private async resolveCredentials(request: string): Promise<Credentials> {
+    try {
+      return await this.credentials.resolve(this.username);
+    } catch (error) {
+      if (error instanceof OrderKuotaError) {
+        throw error.request
+          ? error
+          : new OrderKuotaError(error.message, error.code, error.status, {
+              request,
+            });
+      }
+
+      throw new OrderKuotaError(
+        `Failed to resolve credentials: ${error instanceof Error ? error.message : error}`,
+        "MISSING_CONFIG",
+        undefined,
+        { request },
+      );
+    }
+  }
+
+  /**
+   * Runs an authenticated request, logging in again through the OTP provider
+   * and retrying once when the API reports an expired session.
+   */
+  private async authorized<T>(
+    request: string,
+    run: (token: string) => Promise<T>,
+  ): Promise<T> {
+    const token = await this.ensureToken(request);
+
+    try {
+      return await run(token);
+    } catch (error) {
+      if (
+        !(error instanceof OrderKuotaError) ||
+        error.code !== "SESSION_EXPIRED"
+      ) {
+        throw error;
+      }
+
+      // Another request may already have replaced the rejected token
+      if (this.token === token) {
+        await this.forgetToken();
+        this.emit("sessionExpired", error);
+        this.observer.log("warn", "OrderKuota session expired", {
+          username: this.username,
+        });
+      }
+
+      if (!this.otpProvider) {
+        throw error;
+      }
+
+      this.relogin ??= this.loginWithOtpProvider(this.otpProvider).finally(
+        () => {
+          this.relogin = undefined;
+        },
+      );
+      await this.relogin;
+
+      return run(await this.ensureToken(request));
+    }
+  }
+
+  private async loginWithOtpProvider(otpProvider: OtpProvider): Promise<void> {
+    const { email } = await this.getOTP();
+    await this.getToken(await otpProvider(email));
+  }
+
+  /**
+   * Sends a form-encoded request through the transport and converts every
+   * failure into an OrderKuotaError, reporting it to hooks, logger and telemetry.
+   *
+   * @param request Request description
+   * @returns Raw response body
+   */
+  private async post(request: PostRequest): Promise<any> {
+    const observed = this.observer.start(request);
+
+    try {
+      const { status, data } = await this.exchange(request);
+      observed.succeed(status, data);
+      return data;
+    } catch (error) {
+      observed.fail(
+        error instanceof OrderKuotaError
+          ? error
+          : new OrderKuotaError(String(error), "UNKNOWN_ERROR", undefined, {
+              request: request.name,
+            }),
+      );
+      throw error;
+    }
+  }
+
+  private async exchange(request: PostRequest): Promise<TransportResponse> {
+    const { name, sections = [] } = request;
+    let status: number;
+    let data: any;
+
+    for (let attempt = 1; ; attempt++) {
+      ({ status, data } = await this.send(request));
+
+      if (!this.isThrottled(status, data, sections)) {
+        this.rateLimiter?.reportSuccess(request.endpoint);
+        break;
+      }
+
+      this.rateLimiter?.reportThrottle(request.endpoint);
+
+      // With a limiter the retry waits out the backoff pause in the queue
+      if (
+        !this.rateLimiter ||
+        !request.idempotent ||
+        attempt >= MAX_THROTTLED_ATTEMPTS
+      ) {
+        throw new OrderKuotaError(
+          data?.message || "Too many requests to OrderKuota API",
+          "RATE_LIMITED",
+          status,
+          { request: name, body: data },
+        );
+      }
+    }
+
+    if (
+      request.authenticated &&
+      this.isSessionExpired(status, data, sections)
+    ) {
+      throw new OrderKuotaError(
+        data?.message || "Session expired. Please log in again.",
+        "SESSION_EXPIRED",
+        status,
+        { request: name, body: data },
+      );
+    }
+
+    if (status >= 400) {
+      throw new OrderKuotaError(
+        data?.message || `Request failed with status ${status}`,
+        "API_ERROR",
+        status,
+        { request: name, body: data },
+      );
+    }
+
+    if (data === undefined || data === null || data === "") {
+      throw new OrderKuotaError(
+        "Empty response from OrderKuota API",
+        "EMPTY_RESPONSE",
+        status,
+        { request: name, body: data },
+      );
+    }
+
+    if (data.success === false) {
+      throw new OrderKuotaError(
+        data.message || "OrderKuota API request failed",
+        "API_ERROR",
+        status,
+        { request: name, body: data },
+      );
+    }
+
+    const failed = sections.find((section) => data[section]?.success === false);
+
+    if (failed) {
+      throw new OrderKuotaError(
+        data[failed].message || `OrderKuota API ${failed} request failed`,
+        "API_ERROR",
+        status,
+        { request: name, body: data },
+      );
+    }
+
+    return { status, data };
+  }
+
+  /**
+   * Sends the request through the rate limiter, if any, and the transport.
+   */
+  private async send(request: PostRequest): Promise<TransportResponse> {
+    const { name, options = {} } = request;
+    const send = () =>
+      this.transport.send({
+        name,
+        url: request.url,
+        body: encodeForm(request.payload),
+        headers: {
+          ...OrderKuota.OK_HEADERS,
+          Host: new URL(this.baseUrl).host,
+          "User-Agent": this.device.userAgent,
+        },
+        timeout: options.timeout ?? this.timeout,
+        signal: options.signal,
+        idempotent: request.idempotent ?? false,
+      });
+
+    try {
+      return await (this.rateLimiter
+        ? this.rateLimiter.schedule(request.endpoint, options, send)
+        : send());
+    } catch (error) {
+      if (error instanceof OrderKuotaError) {
+        throw error.request
+          ? error
+          : new OrderKuotaError(error.message, error.code, error.status, {
+              request: name,
+            });
+      }
+
+      throw new OrderKuotaError(
+        `Network error: ${error instanceof Error ? error.message : error}`,
+        "NETWORK_ERROR",
+        undefined,
+        { request: name },
+      );
+    }
+  }
+
+  private isThrottled(status: number, data: any, sections: string[]): boolean {
+    if (status === 429) {
+      return true;
+    }
+
+    return [data, ...sections.map((section) => data?.[section])].some(
+      (result) =>
+        result?.success === false &&
+        THROTTLED_PATTERN.test(String(result.message ?? "")),
+    );
+  }
+
+  private isSessionExpired(
+    status: number,
+    data: any,
+    sections: string[],
+  ): boolean {
+    if (status === 401 || status === 403) {
+      return true;
+    }
+
+    return [data, ...sections.map((section) => data?.[section])].some(
+      (result) =>
+        result?.success === false &&
+        SESSION_EXPIRED_PATTERN.test(String(result.message ?? "")),
+    );
+  }
+
+  private decode<T>(
+    request: string,
+    data: unknown,
+    decoder: (data: unknown) => T,
+  ): T {
+    try {
+      return decoder(data);
+    } catch (error) {
+      if (error instanceof OrderKuotaError) {
+        throw new OrderKuotaError(error.message, error.code, error.status, {
+          path: error.path,
+          request,
+          body: data,
+        });
+      }
+
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,365 @@
+import { TypedEmitter } from "./emitter.js";
+import OrderKuota from "./OrderKuota.js";
+import {
+  HistoryIteratorOptions,
+  OrderKuotaConfig,
+  OrderKuotaError,
+  OrderKuotaPoolOptions,
+  PoolAccountBalance,
+  PoolAccountStatus,
+  PoolBalance,
+  PooledQrisAjaibResponse,
+  PooledTransaction,
+  PoolStrategy,
+  RequestOptions,
+} from "./types.js";
+import { parseOrderKuotaDate } from "./utils.js";
+
+/**
+ * Events emitted by OrderKuotaPool
+ */
+export interface OrderKuotaPoolEvents {
+  /** An account was taken out of rotation because its token is invalid */
+  accountDisabled: [username: string, error: OrderKuotaError];
+  /** An account logged in again and is back in rotation */
+  accountEnabled: [username: string];
+}
+
+/**
+ * Pool bookkeeping for one account
+ */
+interface PoolAccount {
+  username: string;
+  client: OrderKuota;
+  available: boolean;
+  lastUsedAt?: Date;
+  /** Expiry times of payments still counted as pending, by payment ID */
+  pending: Map<string, number>;
+}
+
+function isTokenError(error: unknown): error is OrderKuotaError {
+  return (
+    error instanceof OrderKuotaError &&
+    (error.code === "SESSION_EXPIRED" || error.code === "INVALID_CREDENTIALS")
+  );
+}
+
+/**
+ * Manages several merchant accounts, each with its own client, session and
+ * device profile, and spreads QRIS generation across them.
+ *
+ * Accounts whose token is rejected are taken out of rotation until they log
+ * in again.
+ *
+ * @example
+ * ```typescript
+ * const pool = new OrderKuotaPool(
+ *   [
+ *     { username: 'merchant-a', password: '...' },
+ *     { username: 'merchant-b', password: '...' },
+ *   ],
+ *   { strategy: 'fewest-pending', sessionStore: new FileSessionStore('./sessions.json') },
+ * );
+ *
+ * const payment = await pool.generateQRISAjaib(10000);
+ * console.log(payment.account, payment.data.qr_string);
+ * pool.completePayment(payment.account, payment.paymentId);
+ *
+ * const { balance, accounts } = await pool.checkBalance();
+ * ```
+ */
+export class OrderKuotaPool extends TypedEmitter<OrderKuotaPoolEvents> {
+  private readonly accounts: PoolAccount[] = [];
+  private readonly strategy: PoolStrategy;
+  private readonly pendingTtl: number;
+  private cursor = 0;
+  private sequence = 0;
+
+  /**
+   * Create account pool
+   *
+   * @param accounts Account configurations or existing clients
+   * @param options Selection strategy, shared session store and pending lifetime
+   * @throws {OrderKuotaError} When an account is missing credentials or listed twice
+   */
+  constructor(
+    accounts: (OrderKuotaConfig | OrderKuota)[],
+    options: OrderKuotaPoolOptions = {},
+  ) {
+    super();
+    this.strategy = options.strategy ?? "round-robin";
+    this.pendingTtl = options.pendingTtl ?? 15 * 60 * 1000;
+
+    for (const account of accounts) {
+      this.add(
+        account instanceof OrderKuota
+          ? account
+          : new OrderKuota({
+              // Each account gets its own device unless one is configured
+              randomDevice: true,
+              sessionStore: options.sessionStore,
+              ...account,
+            }),
+      );
+    }
+  }
+
+  /**
+   * Adds an account to the pool.
+   *
+   * @param client Client for the account
+   * @throws {OrderKuotaError} When the account is already pooled
+   */
+  add(client: OrderKuota): void {
+    const { username } = client.getConfig();
+
+    if (this.accounts.some((account) => account.username === username)) {
+      throw new OrderKuotaError(
+        `Account ${username} is already in the pool`,
+        "MISSING_CONFIG",
+      );
+    }
+
+    const account: PoolAccount = {
+      username,
+      client,
+      available: true,
+      pending: new Map(),
+    };
+
+    client.on("sessionExpired", (error) => this.disable(account, error));
+    client.on("login", () => {
+      if (!account.available) {
+        account.available = true;
+        this.emit("accountEnabled", username);
+      }
+    });
+
+    this.accounts.push(account);
+  }
+
+  /**
+   * Gets the client for one account.
+   *
+   * @param username Account username
+   * @returns Client, or undefined if the account is not pooled
+   */
+  getClient(username: string): OrderKuota | undefined {
+    return this.find(username)?.client;
+  }
+
+  /**
+   * Lists pooled accounts with their rotation state.
+   *
+   * @returns Account states in pool order
+   */
+  getAccounts(): PoolAccountStatus[] {
+    return this.accounts.map((account) => ({
+      username: account.username,
+      available: account.available,
+      pending: this.pendingCount(account),
+      lastUsedAt: account.lastUsedAt,
+    }));
+  }
+
+  /**
+   * Generates a QRIS Ajaib payment on the account picked by the strategy,
+   * moving on to the next account when a token is rejected.
+   *
+   * @param amount Payment amount in Indonesian Rupiah
+   * @param options Abort signal and timeout
+   * @returns QRIS response tagged with the account that generated it and a
+   * payment ID for completePayment()
+   * @throws {OrderKuotaError} When no account is available or the request fails
+   */
+  async generateQRISAjaib(
+    amount: number,
+    options: RequestOptions = {},
+  ): Promise<PooledQrisAjaibResponse> {
+    while (true) {
+      const account = this.pick();
+      account.lastUsedAt = new Date();
+
+      try {
+        const response = await account.client.generateQRISAjaib(
+          amount,
+          options,
+        );
+        const paymentId = `${account.username}:${++this.sequence}`;
+        account.pending.set(paymentId, Date.now() + this.pendingTtl);
+        return { ...response, account: account.username, paymentId };
+      } catch (error) {
+        if (!isTokenError(error)) {
+          throw error;
+        }
+        this.disable(account, error);
+      }
+    }
+  }
+
+  /**
+   * Marks a payment generated on an account as paid or cancelled, so it no
+   * longer counts towards the 'fewest-pending' strategy.
+   *
+   * @param username Account the payment was generated on
+   * @param paymentId Payment ID returned by generateQRISAjaib()
+   */
+  completePayment(username: string, paymentId: string): void {
+    this.find(username)?.pending.delete(paymentId);
+  }
+
+  /**
+   * Fetches balances of every account in rotation and sums them.
+   *
+   * Accounts that fail are reported with their error and a zero balance.
+   *
+   * @param options Abort signal and timeout
+   * @returns Total and per-account balances
+   */
+  async checkBalance(options: RequestOptions = {}): Promise<PoolBalance> {
+    const accounts = await Promise.all(
+      this.accounts
+        .filter((account) => account.available)
+        .map(async (account): Promise<PoolAccountBalance> => {
+          try {
+            const { balance, qris_balance } =
+              await account.client.checkBalance(options);
+            return { username: account.username, balance, qris_balance };
+          } catch (error) {
+            if (isTokenError(error)) {
+              this.disable(account, error);
+            }
+
+            return {
+              username: account.username,
+              balance: 0,
+              qris_balance: 0,
+              error:
+                error instanceof OrderKuotaError
+                  ? error
+                  : new OrderKuotaError(String(error), "UNKNOWN_ERROR"),
+            };
+          }
+        }),
+    );
+
+    return {
+      balance: accounts.reduce((sum, account) => sum + account.balance, 0),
+      qris_balance: accounts.reduce(
+        (sum, account) => sum + account.qris_balance,
+        0,
+      ),
+      accounts,
+    };
+  }
+
+  /**
+   * Iterates the history of every account in rotation, merged newest first
+   * and tagged with the account username.
+   *
+   * @param options Date range, history type, filters and paging limits
+   * @returns Async iterator of tagged transactions
+   * @throws {OrderKuotaError} When a page request fails
+   */
+  async *history(
+    options: HistoryIteratorOptions = {},
+  ): AsyncGenerator<PooledTransaction, void, undefined> {
+    const streams = this.accounts
+      .filter((account) => account.available)
+      .map((account) => ({
+        username: account.username,
+        iterator: account.client.history(options),
+      }));
+
+    try {
+      // Inside the try, so one failing first page still closes the others
+      const heads = await Promise.all(
+        streams.map((stream) => stream.iterator.next()),
+      );
+
+      while (true) {
+        let latest = -1;
+        let latestTime = -Infinity;
+
+        heads.forEach((head, index) => {
+          if (head.done) {
+            return;
+          }
+
+          const time =
+            parseOrderKuotaDate(head.value.date)?.getTime() ?? -Infinity;
+
+          if (latest === -1 || time > latestTime) {
+            latest = index;
+            latestTime = time;
+          }
+        });
+
+        if (latest === -1) {
+          return;
+        }
+
+        const head = heads[latest];
+
+        if (!head.done) {
+          yield { ...head.value, account: streams[latest].username };
+        }
+
+        heads[latest] = await streams[latest].iterator.next();
+      }
+    } finally {
+      await Promise.all(streams.map((stream) => stream.iterator.return()));
+    }
+  }
+
+  private find(username: string): PoolAccount | undefined {
+    return this.accounts.find((account) => account.username === username);
+  }
+
+  private pendingCount(account: PoolAccount): number {
+    const now = Date.now();
+
+    for (const [paymentId, expiresAt] of account.pending) {
+      if (expiresAt <= now) {
+        account.pending.delete(paymentId);
+      }
+    }
+    return account.pending.size;
+  }
+
+  private pick(): PoolAccount {
+    const available = this.accounts.filter((account) => account.available);
+
+    if (available.length === 0) {
+      throw new OrderKuotaError(
+        "No account in the pool has a valid session",
+        "INVALID_CREDENTIALS",
+      );
+    }
+
+    switch (this.strategy) {
+      case "least-recently-used":
+        return available.reduce((best, account) =>
+          (account.lastUsedAt?.getTime() ?? 0) <
+          (best.lastUsedAt?.getTime() ?? 0)
+            ? account
+            : best,
+        );
+
+      case "fewest-pending":
+        return available.reduce((best, account) =>
+          this.pendingCount(account) < this.pendingCount(best) ? account : best,
+        );
+
+      default:
+        return available[this.cursor++ % available.length];
+    }
+  }
+
+  private disable(account: PoolAccount, error: OrderKuotaError): void {
+    if (account.available) {
+      account.available = false;
+      this.emit("accountDisabled", account.username, error);
+    }
+  }
+}
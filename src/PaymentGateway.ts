@@ -0,0 +1,778 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { TypedEmitter } from "./emitter.js";
+import type OrderKuota from "./OrderKuota.js";
+import { InvoiceAllocator } from "./InvoiceAllocator.js";
+import { PaymentWatcher } from "./PaymentWatcher.js";
+import { renderQrSvg } from "./render.js";
+import {
+  GatewayInvoice,
+  OrderKuotaError,
+  OrderKuotaErrorCode,
+  PaymentGatewayOptions,
+} from "./types.js";
+
+/**
+ * Events emitted by PaymentGateway
+ */
+export interface PaymentGatewayEvents {
+  /** An invoice was created */
+  created: [invoice: GatewayInvoice];
+  /** An invoice was paid */
+  paid: [invoice: GatewayInvoice];
+  /** An invoice expired unpaid */
+  expired: [invoice: GatewayInvoice];
+  /** Payment polling failed */
+  error: [error: unknown];
+}
+
+// HTTP status returned for each client error code
+const ERROR_STATUS: Record<OrderKuotaErrorCode, number> = {
+  MISSING_CONFIG: 500,
+  API_ERROR: 502,
+  EMPTY_RESPONSE: 502,
+  INVALID_RESPONSE: 502,
+  NETWORK_ERROR: 502,
+  INVALID_AMOUNT: 400,
+  INVALID_CREDENTIALS: 503,
+  QR_GENERATION_FAILED: 500,
+  INVALID_QRIS: 500,
+  ALLOCATION_EXHAUSTED: 409,
+  RATE_LIMITED: 429,
+  INVALID_STATE: 409,
+  INVALID_ARGUMENT: 400,
+  TIMEOUT: 504,
+  SESSION_EXPIRED: 503,
+  ABORTED: 503,
+  UNKNOWN_ERROR: 500,
+};
+
+/**
+ * Errors raised by the gateway itself rather than the OrderKuota client
+ */
+class GatewayError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const invoiceSchema = {
+  type: "object",
+  required: [
+    "id",
+    "status",
+    "amount",
+    "baseAmount",
+    "uniqueCode",
+    "qrString",
+    "createdAt",
+    "expiresAt",
+  ],
+  properties: {
+    id: { type: "string" },
+    status: { type: "string", enum: ["pending", "paid", "expired"] },
+    amount: { type: "integer", description: "Amount to pay in IDR" },
+    baseAmount: { type: "integer", description: "Requested amount in IDR" },
+    uniqueCode: { type: "integer" },
+    qrString: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    expiresAt: { type: "string", format: "date-time" },
+    paidAt: { type: "string", format: "date-time" },
+    transactionId: { type: "string" },
+    metadata: { type: "object", additionalProperties: true },
+  },
+};
+
+const errorResponse = {
+  description: "Error",
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+};
+
+/**
+ * OpenAPI 3.0 description of the payment gateway REST API, also served at
+ * `GET /openapi.json`.
+ */
+export const GATEWAY_OPENAPI_DOCUMENT = Object.freeze({
+  openapi: "3.0.3",
+  info: {
+    title: "OrderKuota Payment Gateway",
+    version: "1.0.0",
+    description: "QRIS invoices, balance and transactions over REST.",
+  },
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  paths: {
+    "/invoices": {
+      post: {
+        summary: "Create an invoice with a QRIS for a unique amount",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["amount"],
+                properties: {
+                  amount: { type: "integer", minimum: 1 },
+                  id: { type: "string" },
+                  ttl: {
+                    type: "integer",
+                    description: "Lifetime in milliseconds",
+                  },
+                  image: {
+                    type: "string",
+                    enum: ["png", "svg", "none"],
+                    default: "png",
+                  },
+                  metadata: { type: "object", additionalProperties: true },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Invoice created",
+            content: {
+              "application/json": {
+                schema: {
+                  allOf: [
+                    { $ref: "#/components/schemas/Invoice" },
+                    {
+                      type: "object",
+                      properties: {
+                        qrImage: {
+                          type: "string",
+                          description: "PNG data URL or SVG markup",
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+          default: errorResponse,
+        },
+      },
+    },
+    "/invoices/{id}": {
+      get: {
+        summary: "Get invoice status",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Invoice",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Invoice" },
+              },
+            },
+          },
+          default: errorResponse,
+        },
+      },
+    },
+    "/balance": {
+      get: {
+        summary: "Get account and QRIS balance",
+        responses: {
+          "200": {
+            description: "Balance",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    balance: { type: "integer" },
+                    qris_balance: { type: "integer" },
+                  },
+                },
+              },
+            },
+          },
+          default: errorResponse,
+        },
+      },
+    },
+    "/transactions": {
+      get: {
+        summary: "List QRIS mutations",
+        parameters: [
+          {
+            name: "type",
+            in: "query",
+            schema: {
+              type: "string",
+              enum: ["qris_history", "qris_ajaib_history"],
+            },
+          },
+          {
+            name: "page",
+            in: "query",
+            schema: { type: "integer", minimum: 1 },
+          },
+          {
+            name: "from",
+            in: "query",
+            schema: { type: "string", format: "date" },
+          },
+          {
+            name: "to",
+            in: "query",
+            schema: { type: "string", format: "date" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Transactions",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "array",
+                      items: { type: "object", additionalProperties: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          default: errorResponse,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+      apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+    schemas: {
+      Invoice: invoiceSchema,
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: { type: "string" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+function digest(value: string): Uint8Array {
+  return new Uint8Array(createHash("sha256").update(value).digest());
+}
+
+const HISTORY_TYPES = ["qris_history", "qris_ajaib_history"];
+
+function parsePositiveInteger(value: unknown, name: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new GatewayError(
+      400,
+      "INVALID_REQUEST",
+      `${name} must be a positive integer`,
+    );
+  }
+  return value;
+}
+
+function decodeInvoiceId(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new GatewayError(400, "INVALID_REQUEST", "Invalid invoice id");
+  }
+}
+
+/**
+ * REST payment gateway built on the client, for services that cannot use the
+ * library directly.
+ *
+ * Routes: `POST /invoices`, `GET /invoices/:id`, `GET /balance`,
+ * `GET /transactions` and the unauthenticated `GET /openapi.json`. Invoices
+ * get a unique amount from InvoiceAllocator and are confirmed by a
+ * PaymentWatcher while the gateway is listening. Invoices are kept in memory
+ * and dropped once they have been paid or expired for `retention` ms.
+ *
+ * @example
+ * ```typescript
+ * const gateway = new PaymentGateway(client, {
+ *   apiKeys: [process.env.GATEWAY_API_KEY!],
+ *   allocator: { ttl: 15 * 60 * 1000 },
+ * });
+ *
+ * gateway.on('paid', (invoice) => console.log(`${invoice.id} paid`));
+ * await gateway.listen(8080);
+ * ```
+ */
+export class PaymentGateway extends TypedEmitter<PaymentGatewayEvents> {
+  private readonly client: OrderKuota;
+  private readonly apiKeys: Uint8Array[];
+  private readonly source: "ajaib" | "local";
+  private readonly bodyLimit: number;
+  private readonly allocator: InvoiceAllocator;
+  private readonly watcher: PaymentWatcher;
+  private readonly retention: number;
+  private readonly invoices = new Map<string, GatewayInvoice>();
+  private readonly releases = new Map<string, () => Promise<void>>();
+  // Settlement time of paid and expired invoices, oldest first
+  private readonly settled = new Map<string, number>();
+  // IDs of invoices being created, reserved before the first await
+  private readonly reserved = new Set<string>();
+  private server?: Server;
+
+  /**
+   * Create payment gateway
+   *
+   * @param client Authenticated OrderKuota client
+   * @param options API keys, QRIS source, allocation and polling options
+   * @throws {OrderKuotaError} When no API key is configured
+   */
+  constructor(client: OrderKuota, options: PaymentGatewayOptions) {
+    super();
+
+    if (!options.apiKeys?.length || options.apiKeys.some((key) => !key)) {
+      throw new OrderKuotaError(
+        "At least one non-empty API key is required",
+        "MISSING_CONFIG",
+      );
+    }
+
+    this.client = client;
+    this.apiKeys = options.apiKeys.map(digest);
+    this.source = options.source ?? "ajaib";
+    this.bodyLimit = options.bodyLimit ?? 64 * 1024;
+    this.retention = options.retention ?? 60 * 60 * 1000;
+    this.allocator = new InvoiceAllocator(options.allocator);
+    this.watcher = new PaymentWatcher(client, options.watcher);
+
+    this.watcher.on("paid", (pending, transaction) => {
+      this.settle(pending.id, (invoice) => {
+        invoice.status = "paid";
+        invoice.paidAt = new Date().toISOString();
+        invoice.transactionId = transaction.id;
+        this.emit("paid", invoice);
+      });
+    });
+    this.watcher.on("expired", (pending) => {
+      this.settle(pending.id, (invoice) => {
+        invoice.status = "expired";
+        this.emit("expired", invoice);
+      });
+    });
+    this.watcher.on("error", (error) => {
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", error);
+      }
+    });
+  }
+
+  /**
+   * Starts the HTTP server and payment polling.
+   *
+   * @param port Port to bind (default: a random free port)
+   * @param host Interface to bind (default: all interfaces)
+   * @returns Base URL of the server
+   */
+  async listen(port = 0, host?: string): Promise<string> {
+    const server = createServer((req, res) => void this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.watcher.start();
+
+    const address = server.address() as AddressInfo;
+    return `http://${host ?? "localhost"}:${address.port}`;
+  }
+
+  /**
+   * Stops the HTTP server and payment polling.
+   */
+  async close(): Promise<void> {
+    this.watcher.stop();
+
+    const server = this.server;
+    this.server = undefined;
+
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Handles one request. Use it to mount the gateway on an existing server
+   * or framework; call `startWatching()` in that case to confirm payments.
+   *
+   * @param req Incoming request
+   * @param res Server response
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const method = req.method ?? "GET";
+
+      if (method === "GET" && url.pathname === "/openapi.json") {
+        return this.send(res, 200, GATEWAY_OPENAPI_DOCUMENT);
+      }
+
+      this.authenticate(req);
+      // Pruned on every request, so a read-only gateway drops old invoices too
+      this.prune();
+
+      const invoiceId = /^\/invoices\/([^/]+)$/.exec(url.pathname)?.[1];
+
+      if (method === "POST" && url.pathname === "/invoices") {
+        return this.send(res, 201, await this.createInvoice(req));
+      }
+
+      if (method === "GET" && invoiceId) {
+        return this.send(
+          res,
+          200,
+          this.requireInvoice(decodeInvoiceId(invoiceId)),
+        );
+      }
+
+      if (method === "GET" && url.pathname === "/balance") {
+        const { balance, qris_balance } = await this.client.checkBalance();
+        return this.send(res, 200, { balance, qris_balance });
+      }
+
+      if (method === "GET" && url.pathname === "/transactions") {
+        return this.send(res, 200, await this.listTransactions(url));
+      }
+
+      throw new GatewayError(404, "NOT_FOUND", "Route not found");
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  /**
+   * Starts payment polling without an HTTP server, for use with `handle()`.
+   */
+  startWatching(): void {
+    this.watcher.start();
+  }
+
+  /**
+   * Gets an invoice by ID.
+   *
+   * @param id Invoice ID
+   * @returns Invoice, or undefined if unknown
+   */
+  getInvoice(id: string): GatewayInvoice | undefined {
+    const invoice = this.invoices.get(id);
+    return invoice && { ...invoice };
+  }
+
+  private authenticate(req: IncomingMessage): void {
+    const header = req.headers.authorization;
+    const key =
+      (header?.startsWith("Bearer ") ? header.slice(7) : undefined) ??
+      (req.headers["x-api-key"] as string | undefined);
+
+    if (key) {
+      const provided = digest(key);
+      if (
+        this.apiKeys.some((expected) => timingSafeEqual(expected, provided))
+      ) {
+        return;
+      }
+    }
+
+    throw new GatewayError(401, "UNAUTHORIZED", "Missing or invalid API key");
+  }
+
+  private async createInvoice(req: IncomingMessage) {
+    const body = await this.readJson(req);
+    const baseAmount = parsePositiveInteger(body.amount, "amount");
+    const ttl =
+      body.ttl === undefined
+        ? undefined
+        : parsePositiveInteger(body.ttl, "ttl");
+    const image = body.image ?? "png";
+    const id =
+      body.id === undefined ? `inv_${randomBytes(8).toString("hex")}` : body.id;
+
+    if (typeof id !== "string" || id === "") {
+      throw new GatewayError(400, "INVALID_REQUEST", "id must be a string");
+    }
+
+    if (!["png", "svg", "none"].includes(image)) {
+      throw new GatewayError(
+        400,
+        "INVALID_REQUEST",
+        "image must be 'png', 'svg' or 'none'",
+      );
+    }
+
+    if (
+      body.metadata !== undefined &&
+      (typeof body.metadata !== "object" ||
+        body.metadata === null ||
+        Array.isArray(body.metadata))
+    ) {
+      throw new GatewayError(
+        400,
+        "INVALID_REQUEST",
+        "metadata must be a JSON object",
+      );
+    }
+
+    if (this.invoices.has(id) || this.reserved.has(id)) {
+      throw new GatewayError(409, "CONFLICT", `Invoice ${id} already exists`);
+    }
+
+    this.reserved.add(id);
+
+    try {
+      return await this.issueInvoice(id, baseAmount, ttl, image, body.metadata);
+    } finally {
+      this.reserved.delete(id);
+    }
+  }
+
+  private async issueInvoice(
+    id: string,
+    baseAmount: number,
+    ttl: number | undefined,
+    image: string,
+    metadata: Record<string, unknown> | undefined,
+  ) {
+    const allocation = await this.allocator.allocateQris(
+      this.client,
+      baseAmount,
+      { source: this.source, invoiceId: id, ttl },
+    );
+
+    let qrImage: string | undefined;
+
+    try {
+      if (image === "png") {
+        qrImage = await this.client.generateQRImage(allocation.qrString);
+      } else if (image === "svg") {
+        qrImage = renderQrSvg(allocation.qrString);
+      }
+    } catch (error) {
+      await allocation.release();
+      throw error;
+    }
+
+    const createdAt = new Date();
+    const invoice: GatewayInvoice = {
+      id,
+      status: "pending",
+      amount: allocation.amount,
+      baseAmount,
+      uniqueCode: allocation.uniqueCode,
+      qrString: allocation.qrString,
+      createdAt: createdAt.toISOString(),
+      expiresAt: allocation.expiresAt.toISOString(),
+      metadata,
+    };
+
+    this.invoices.set(id, invoice);
+    this.releases.set(id, allocation.release);
+    this.watcher.addInvoice({
+      ...allocation.toPendingInvoice(id),
+      createdAt,
+    });
+    this.emit("created", { ...invoice });
+
+    return { ...invoice, qrImage };
+  }
+
+  private requireInvoice(id: string): GatewayInvoice {
+    const invoice = this.getInvoice(id);
+
+    if (!invoice) {
+      throw new GatewayError(404, "NOT_FOUND", `Invoice ${id} not found`);
+    }
+
+    return invoice;
+  }
+
+  private async listTransactions(url: URL) {
+    const param = (name: string) => url.searchParams.get(name) ?? undefined;
+    const date = (name: string) => {
+      const value = param(name);
+      if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new GatewayError(
+          400,
+          "INVALID_REQUEST",
+          `${name} must be a yyyy-mm-dd date`,
+        );
+      }
+      return value;
+    };
+
+    const type = param("type");
+    const page = param("page");
+
+    if (type !== undefined && !HISTORY_TYPES.includes(type)) {
+      throw new GatewayError(
+        400,
+        "INVALID_REQUEST",
+        "type must be 'qris_history' or 'qris_ajaib_history'",
+      );
+    }
+
+    if (page !== undefined && !/^[1-9]\d*$/.test(page)) {
+      throw new GatewayError(
+        400,
+        "INVALID_REQUEST",
+        "page must be a positive integer",
+      );
+    }
+
+    const response = await this.client.getQRISHistory(type, {
+      page,
+      dari_tanggal: date("from"),
+      ke_tanggal: date("to"),
+    });
+
+    return { data: response.data };
+  }
+
+  private settle(id: string, update: (invoice: GatewayInvoice) => void): void {
+    const invoice = this.invoices.get(id);
+
+    if (!invoice || invoice.status !== "pending") {
+      return;
+    }
+
+    update(invoice);
+    this.settled.set(id, Date.now());
+    void this.releases.get(id)?.();
+    this.releases.delete(id);
+  }
+
+  /**
+   * Drops invoices settled longer than the retention period ago, and expires
+   * pending ones the watcher never settled, e.g. when it is not running.
+   */
+  private prune(): void {
+    const now = Date.now();
+
+    for (const [id, invoice] of this.invoices) {
+      if (
+        invoice.status === "pending" &&
+        Date.parse(invoice.expiresAt) + this.retention <= now
+      ) {
+        this.watcher.removeInvoice(id);
+        this.settle(id, (expired) => {
+          expired.status = "expired";
+          this.emit("expired", expired);
+        });
+      }
+    }
+
+    for (const [id, settledAt] of this.settled) {
+      if (settledAt + this.retention > now) {
+        break;
+      }
+      this.settled.delete(id);
+      this.invoices.delete(id);
+    }
+  }
+
+  private async readJson(req: IncomingMessage): Promise<Record<string, any>> {
+    let body = "";
+
+    req.setEncoding("utf8");
+    for await (const chunk of req) {
+      body += chunk;
+
+      if (Buffer.byteLength(body) > this.bodyLimit) {
+        throw new GatewayError(
+          413,
+          "PAYLOAD_TOO_LARGE",
+          "Request body too large",
+        );
+      }
+    }
+
+    try {
+      const parsed = JSON.parse(body || "{}");
+
+      if (
+        typeof parsed === "object" &&
+        parsed !== null &&
+        !Array.isArray(parsed)
+      ) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+
+    throw new GatewayError(
+      400,
+      "INVALID_REQUEST",
+      "Body must be a JSON object",
+    );
+  }
+
+  private sendError(res: ServerResponse, error: unknown): void {
+    if (error instanceof GatewayError) {
+      return this.send(res, error.status, {
+        error: { code: error.code, message: error.message },
+      });
+    }
+
+    if (error instanceof OrderKuotaError) {
+      return this.send(res, ERROR_STATUS[error.code] ?? 500, {
+        error: { code: error.code, message: error.message },
+      });
+    }
+
+    this.send(res, 500, {
+      error: { code: "UNKNOWN_ERROR", message: "Internal server error" },
+    });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,292 @@
+import { TypedEmitter } from "./emitter.js";
+import type OrderKuota from "./OrderKuota.js";
+import {
+  MutationStore,
+  OrderKuotaError,
+  PaymentWatcherOptions,
+  PendingInvoice,
+  QrisTransaction,
+} from "./types.js";
+import { readJsonFile, writeJsonFile } from "./files.js";
+import { createLock, parseOrderKuotaDate } from "./utils.js";
+
+/**
+ * Events emitted by PaymentWatcher
+ */
+export interface PaymentWatcherEvents {
+  /** A credit matched exactly one pending invoice */
+  paid: [invoice: PendingInvoice, transaction: QrisTransaction];
+  /** An invoice passed its expiry without a matching credit */
+  expired: [invoice: PendingInvoice];
+  /** A credit matched more than one pending invoice */
+  ambiguous: [transaction: QrisTransaction, candidates: PendingInvoice[]];
+  /** Polling failed */
+  error: [error: unknown];
+}
+
+/**
+ * In-memory mutation store. Processed IDs are lost on restart.
+ */
+export class MemoryMutationStore implements MutationStore {
+  private readonly ids = new Set<string>();
+
+  async has(id: string): Promise<boolean> {
+    return this.ids.has(id);
+  }
+
+  async add(id: string): Promise<void> {
+    this.ids.add(id);
+  }
+}
+
+/**
+ * JSON file backed mutation store that survives process restarts. Reads and
+ * writes are serialized, so overlapping add() calls keep every ID.
+ */
+export class FileMutationStore implements MutationStore {
+  private readonly path: string;
+  private readonly lock = createLock();
+  private ids?: Set<string>;
+
+  /**
+   * @param path Path of the JSON file holding processed mutation IDs
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private async load(): Promise<Set<string>> {
+    if (!this.ids) {
+      this.ids = new Set(await readJsonFile<string[]>(this.path, []));
+    }
+    return this.ids;
+  }
+
+  has(id: string): Promise<boolean> {
+    return this.lock(async () => (await this.load()).has(id));
+  }
+
+  add(id: string): Promise<void> {
+    return this.lock(async () => {
+      const ids = await this.load();
+      ids.add(id);
+      await writeJsonFile(this.path, [...ids]);
+    });
+  }
+}
+
+/**
+ * Polls QRIS history and matches incoming credits to pending invoices.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new PaymentWatcher(client, { interval: 5000 });
+ *
+ * watcher.on('paid', (invoice, tx) => console.log(`${invoice.id} paid`, tx.id));
+ * watcher.on('expired', (invoice) => console.log(`${invoice.id} expired`));
+ *
+ * watcher.addInvoice({
+ *   id: 'INV-1',
+ *   amount: 10000,
+ *   uniqueCode: 123,
+ *   expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+ * });
+ * watcher.start();
+ * ```
+ */
+export class PaymentWatcher extends TypedEmitter<PaymentWatcherEvents> {
+  private readonly client: Pick<OrderKuota, "getQRISHistory">;
+  private readonly interval: number;
+  private readonly historyType: string;
+  private readonly store: MutationStore;
+  private readonly clockSkew: number;
+  private readonly invoices = new Map<string, PendingInvoice>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Create payment watcher
+   *
+   * @param client Authenticated OrderKuota client
+   * @param options Polling and storage options
+   */
+  constructor(
+    client: Pick<OrderKuota, "getQRISHistory">,
+    options: PaymentWatcherOptions = {},
+  ) {
+    super();
+    this.client = client;
+    this.interval = options.interval ?? 10000;
+    this.historyType = options.historyType ?? "qris_history";
+    this.store = options.store ?? new MemoryMutationStore();
+    this.clockSkew = options.clockSkew ?? 60000;
+  }
+
+  /**
+   * Adds an invoice to watch for.
+   *
+   * @param invoice Pending invoice
+   */
+  addInvoice(invoice: PendingInvoice): void {
+    if (invoice.amount <= 0) {
+      throw new OrderKuotaError(
+        "Amount must be greater than 0",
+        "INVALID_AMOUNT",
+      );
+    }
+
+    this.invoices.set(invoice.id, {
+      ...invoice,
+      createdAt: invoice.createdAt ?? new Date(),
+    });
+  }
+
+  /**
+   * Stops watching an invoice without emitting an event.
+   *
+   * @param id Invoice ID
+   * @returns True if the invoice was pending
+   */
+  removeInvoice(id: string): boolean {
+    return this.invoices.delete(id);
+  }
+
+  /**
+   * Gets invoices that are still awaiting payment.
+   *
+   * @returns Pending invoices
+   */
+  getPendingInvoices(): PendingInvoice[] {
+    return [...this.invoices.values()];
+  }
+
+  /**
+   * Starts polling on the configured interval.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling.
+   */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Checks whether the watcher is polling.
+   *
+   * @returns True if started
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Fetches history once and processes matches and expiries.
+   */
+  async poll(): Promise<void> {
+    if (this.invoices.size > 0) {
+      const response = await this.client.getQRISHistory(this.historyType);
+
+      for (const transaction of response.data) {
+        await this.processTransaction(transaction);
+      }
+    }
+
+    this.expireInvoices();
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+      }
+
+      if (this.running) {
+        this.schedule(this.interval);
+      }
+    }, delay);
+  }
+
+  private async processTransaction(
+    transaction: QrisTransaction,
+  ): Promise<void> {
+    if (!isCredit(transaction)) {
+      return;
+    }
+
+    if (await this.store.has(transaction.id)) {
+      return;
+    }
+
+    const candidates = [...this.invoices.values()].filter((invoice) =>
+      this.matches(invoice, transaction),
+    );
+
+    if (candidates.length === 0) {
+      return;
+    }
+
+    await this.store.add(transaction.id);
+
+    if (candidates.length > 1) {
+      this.emit("ambiguous", transaction, candidates);
+      return;
+    }
+
+    const [invoice] = candidates;
+    this.invoices.delete(invoice.id);
+    this.emit("paid", invoice, transaction);
+  }
+
+  private matches(
+    invoice: PendingInvoice,
+    transaction: QrisTransaction,
+  ): boolean {
+    const expected = invoice.amount + (invoice.uniqueCode ?? 0);
+
+    if (transaction.amount !== expected) {
+      return false;
+    }
+
+    const paidAt = parseOrderKuotaDate(transaction.date);
+
+    // Without a timestamp we cannot rule out an older payment of the same amount
+    if (!paidAt) {
+      return false;
+    }
+
+    return (
+      paidAt.getTime() >= invoice.createdAt!.getTime() - this.clockSkew &&
+      paidAt.getTime() <= invoice.expiresAt.getTime()
+    );
+  }
+
+  private expireInvoices(): void {
+    const now = Date.now();
+
+    for (const invoice of [...this.invoices.values()]) {
+      if (invoice.expiresAt.getTime() <= now) {
+        this.invoices.delete(invoice.id);
+        this.emit("expired", invoice);
+      }
+    }
+  }
+}
+
+function isCredit(transaction: QrisTransaction): boolean {
+  return transaction.status === "IN" && transaction.amount > 0;
+}
@@ -0,0 +1,298 @@
+import { TypedEmitter } from "./emitter.js";
+import {
+  EndpointClass,
+  OrderKuotaError,
+  RateLimiterMetrics,
+  RateLimiterOptions,
+  RateLimitRule,
+  RequestOptions,
+} from "./types.js";
+
+/**
+ * Events emitted by RateLimiter
+ */
+export interface RateLimiterEvents {
+  /** The queue of an endpoint class grew or shrank */
+  queueDepth: [endpoint: EndpointClass, depth: number];
+  /** A throttling response paused an endpoint class */
+  throttled: [endpoint: EndpointClass, pauseMs: number];
+}
+
+const DEFAULT_RULES: Record<EndpointClass, RateLimitRule> = {
+  login: { rate: 0.2, burst: 2, concurrency: 1 },
+  get: { rate: 2, burst: 5, concurrency: 2 },
+  mutasi: { rate: 1, burst: 3, concurrency: 1 },
+  menu: { rate: 1, burst: 3, concurrency: 1 },
+};
+
+/**
+ * Rejects rules that would stall the queue: a bucket that never refills,
+ * never holds a whole token or never lets a request run.
+ */
+function validateRule(endpoint: EndpointClass, rule: RateLimitRule): void {
+  const invalid = (name: string, expected: string) =>
+    new OrderKuotaError(
+      `Rate limit ${name} for ${endpoint} must be ${expected}`,
+      "INVALID_ARGUMENT",
+    );
+
+  if (!Number.isFinite(rule.rate) || rule.rate <= 0) {
+    throw invalid("rate", "a positive number");
+  }
+  if (!Number.isFinite(rule.burst) || rule.burst < 1) {
+    throw invalid("burst", "a number of at least 1");
+  }
+  if (!Number.isInteger(rule.concurrency) || rule.concurrency <= 0) {
+    throw invalid("concurrency", "a positive integer");
+  }
+}
+
+/**
+ * Queued request waiting for a token
+ */
+interface QueuedTask {
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * Token bucket, queue and throttling state of one endpoint class
+ */
+interface Bucket {
+  rule: RateLimitRule;
+  tokens: number;
+  refilledAt: number;
+  inFlight: number;
+  queue: QueuedTask[];
+  pausedUntil: number;
+  consecutiveThrottles: number;
+  throttled: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Token-bucket rate limiter with a priority queue per endpoint class.
+ *
+ * Requests of equal priority run in FIFO order. A throttling response pauses
+ * the endpoint class with exponential backoff.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ rules: { get: { rate: 1, burst: 3, concurrency: 1 } } });
+ * const client = new OrderKuota({ username, password, rateLimiter: limiter });
+ *
+ * limiter.on('queueDepth', (endpoint, depth) => metrics.gauge(`ok.queue.${endpoint}`, depth));
+ * await client.generateQRISAjaib(10000, { priority: 10 });
+ * ```
+ */
+export class RateLimiter extends TypedEmitter<RateLimiterEvents> {
+  private readonly buckets: Record<EndpointClass, Bucket>;
+  private readonly maxQueue: number;
+  private readonly minDelay: number;
+  private readonly maxDelay: number;
+
+  /**
+   * Create rate limiter
+   *
+   * @param options Per-endpoint limits, queue size and backoff
+   * @throws {OrderKuotaError} INVALID_ARGUMENT for a non-positive or
+   * non-finite rate, burst or concurrency
+   */
+  constructor(options: RateLimiterOptions = {}) {
+    super();
+    this.maxQueue = options.maxQueue ?? 1000;
+    this.minDelay = options.backoff?.minDelay ?? 2000;
+    this.maxDelay = options.backoff?.maxDelay ?? 60000;
+
+    const bucket = (endpoint: EndpointClass): Bucket => {
+      const rule = { ...DEFAULT_RULES[endpoint], ...options.rules?.[endpoint] };
+      validateRule(endpoint, rule);
+      return {
+        rule,
+        tokens: rule.burst,
+        refilledAt: Date.now(),
+        inFlight: 0,
+        queue: [],
+        pausedUntil: 0,
+        consecutiveThrottles: 0,
+        throttled: 0,
+      };
+    };
+
+    this.buckets = {
+      login: bucket("login"),
+      get: bucket("get"),
+      mutasi: bucket("mutasi"),
+      menu: bucket("menu"),
+    };
+  }
+
+  /**
+   * Runs a task once the endpoint class has a token and a free slot.
+   *
+   * @param endpoint Endpoint class of the request
+   * @param options Priority and abort signal
+   * @param task Request to run
+   * @returns Result of the task
+   * @throws {OrderKuotaError} When the queue is full or the signal aborts while queued
+   */
+  schedule<T>(
+    endpoint: EndpointClass,
+    options: RequestOptions,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const bucket = this.buckets[endpoint];
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(
+        new OrderKuotaError("Request was aborted", "ABORTED"),
+      );
+    }
+
+    if (bucket.queue.length >= this.maxQueue) {
+      return Promise.reject(
+        new OrderKuotaError(
+          `Rate limiter queue for ${endpoint} is full`,
+          "RATE_LIMITED",
+        ),
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        bucket.queue = bucket.queue.filter((item) => item !== queued);
+        this.emit("queueDepth", endpoint, bucket.queue.length);
+        reject(new OrderKuotaError("Request was aborted", "ABORTED"));
+      };
+
+      const queued: QueuedTask = {
+        priority: options.priority ?? 0,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          bucket.inFlight++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              bucket.inFlight--;
+              this.drain(endpoint);
+            });
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // Higher priority first, FIFO within a priority
+      const index = bucket.queue.findIndex(
+        (item) => item.priority < queued.priority,
+      );
+      bucket.queue.splice(
+        index === -1 ? bucket.queue.length : index,
+        0,
+        queued,
+      );
+      this.emit("queueDepth", endpoint, bucket.queue.length);
+      this.drain(endpoint);
+    });
+  }
+
+  /**
+   * Pauses an endpoint class after a throttling response. The pause doubles
+   * with every consecutive throttle.
+   *
+   * @param endpoint Endpoint class that was throttled
+   */
+  reportThrottle(endpoint: EndpointClass): void {
+    const bucket = this.buckets[endpoint];
+    const pause = Math.min(
+      this.maxDelay,
+      this.minDelay * 2 ** bucket.consecutiveThrottles,
+    );
+
+    bucket.consecutiveThrottles++;
+    bucket.throttled++;
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + pause);
+    bucket.tokens = 0;
+    this.emit("throttled", endpoint, pause);
+    this.drain(endpoint);
+  }
+
+  /**
+   * Resets the throttling backoff of an endpoint class after a normal response.
+   *
+   * @param endpoint Endpoint class that responded normally
+   */
+  reportSuccess(endpoint: EndpointClass): void {
+    this.buckets[endpoint].consecutiveThrottles = 0;
+  }
+
+  /**
+   * Reports queue depth, in-flight requests and throttling per endpoint class.
+   *
+   * @returns Metrics keyed by endpoint class
+   */
+  getMetrics(): Record<EndpointClass, RateLimiterMetrics> {
+    const metrics = {} as Record<EndpointClass, RateLimiterMetrics>;
+
+    for (const endpoint of Object.keys(this.buckets) as EndpointClass[]) {
+      const bucket = this.buckets[endpoint];
+      this.refill(bucket);
+      metrics[endpoint] = {
+        queued: bucket.queue.length,
+        inFlight: bucket.inFlight,
+        tokens: Math.floor(bucket.tokens),
+        pausedUntil:
+          bucket.pausedUntil > Date.now()
+            ? new Date(bucket.pausedUntil)
+            : undefined,
+        throttled: bucket.throttled,
+      };
+    }
+
+    return metrics;
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    bucket.tokens = Math.min(
+      bucket.rule.burst,
+      bucket.tokens + ((now - bucket.refilledAt) / 1000) * bucket.rule.rate,
+    );
+    bucket.refilledAt = now;
+  }
+
+  private drain(endpoint: EndpointClass): void {
+    const bucket = this.buckets[endpoint];
+
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+
+    while (
+      bucket.queue.length > 0 &&
+      bucket.inFlight < bucket.rule.concurrency
+    ) {
+      const now = Date.now();
+
+      if (bucket.pausedUntil > now) {
+        this.wake(endpoint, bucket.pausedUntil - now);
+        return;
+      }
+
+      this.refill(bucket);
+
+      if (bucket.tokens < 1) {
+        this.wake(endpoint, ((1 - bucket.tokens) / bucket.rule.rate) * 1000);
+        return;
+      }
+
+      bucket.tokens--;
+      bucket.queue.shift()!.start();
+      this.emit("queueDepth", endpoint, bucket.queue.length);
+    }
+  }
+
+  private wake(endpoint: EndpointClass, delay: number): void {
+    const bucket = this.buckets[endpoint];
+    bucket.timer = setTimeout(() => this.drain(endpoint), Math.ceil(delay));
+  }
+}
@@ -0,0 +1,438 @@
+import axios, { AxiosInstance } from "axios";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { TypedEmitter } from "./emitter.js";
+import type { PaymentWatcher } from "./PaymentWatcher.js";
+import {
+  DeadLetter,
+  DeadLetterStore,
+  PendingInvoice,
+  QrisTransaction,
+  RetryOptions,
+  WebhookAttempt,
+  WebhookDispatcherOptions,
+  WebhookEndpoint,
+  WebhookEvent,
+} from "./types.js";
+import { readJsonFile, writeJsonFile } from "./files.js";
+import { createLock, sleep } from "./utils.js";
+
+/**
+ * Events emitted by WebhookDispatcher
+ */
+export interface WebhookDispatcherEvents {
+  /** A delivery attempt finished, successfully or not */
+  attempt: [attempt: WebhookAttempt];
+  /** An event was accepted by a receiver */
+  delivered: [event: WebhookEvent, url: string];
+  /** A delivery exhausted its retries and was moved to the dead-letter store */
+  deadLettered: [entry: DeadLetter];
+  /** A delivery started by attach() failed, e.g. the dead-letter store rejected it */
+  error: [error: unknown];
+}
+
+const SIGNATURE_HEADER = "x-orderkuota-signature";
+const TIMESTAMP_HEADER = "x-orderkuota-timestamp";
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 5,
+  minDelay: 1000,
+  maxDelay: 5 * 60 * 1000,
+  factor: 2,
+};
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Computes the signature sent in the X-OrderKuota-Signature header.
+ *
+ * @param body Raw request body
+ * @param timestamp Unix timestamp in seconds, as sent in X-OrderKuota-Timestamp
+ * @param secret Endpoint secret
+ * @returns Signature in the form "sha256=<hex>"
+ */
+export function signWebhook(
+  body: string,
+  timestamp: number,
+  secret: string,
+): string {
+  const hmac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Verifies a webhook delivery on the receiving side.
+ *
+ * Pass the raw body exactly as received; re-serialized JSON will not match.
+ *
+ * @example
+ * ```typescript
+ * if (!verifyWebhookSignature(rawBody, req.headers, process.env.WEBHOOK_SECRET)) {
+ *   return res.status(401).end();
+ * }
+ * const event: WebhookEvent = JSON.parse(rawBody);
+ * ```
+ *
+ * @param body Raw request body
+ * @param headers Request headers (lower-case names, as in Node.js)
+ * @param secret Endpoint secret
+ * @param tolerance Maximum age of the delivery in seconds (default: 300)
+ * @returns True if the signature matches and the timestamp is fresh
+ */
+export function verifyWebhookSignature(
+  body: string,
+  headers: Record<string, string | string[] | undefined>,
+  secret: string,
+  tolerance = 300,
+): boolean {
+  const signature = headers[SIGNATURE_HEADER];
+  const timestamp = Number(headers[TIMESTAMP_HEADER]);
+
+  if (typeof signature !== "string" || !Number.isInteger(timestamp)) {
+    return false;
+  }
+
+  // Rejects replays of captured deliveries
+  if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+    return false;
+  }
+
+  const expected = new TextEncoder().encode(
+    signWebhook(body, timestamp, secret),
+  );
+  const actual = new TextEncoder().encode(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * In-memory dead-letter store. Entries are lost on restart.
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private readonly entries = new Map<string, DeadLetter>();
+
+  async add(entry: DeadLetter): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async list(): Promise<DeadLetter[]> {
+    return [...this.entries.values()];
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+/**
+ * JSON file backed dead-letter store that survives process restarts.
+ */
+export class FileDeadLetterStore implements DeadLetterStore {
+  private readonly path: string;
+  private readonly lock = createLock();
+
+  /**
+   * @param path Path of the JSON file holding undelivered webhooks
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  add(entry: DeadLetter): Promise<void> {
+    return this.lock(async () => {
+      const entries = await readJsonFile<DeadLetter[]>(this.path, []);
+      await writeJsonFile(this.path, [...entries, entry]);
+    });
+  }
+
+  list(): Promise<DeadLetter[]> {
+    return this.lock(() => readJsonFile<DeadLetter[]>(this.path, []));
+  }
+
+  remove(id: string): Promise<void> {
+    return this.lock(async () => {
+      const entries = await readJsonFile<DeadLetter[]>(this.path, []);
+      await writeJsonFile(
+        this.path,
+        entries.filter((entry) => entry.id !== id),
+      );
+    });
+  }
+}
+
+/**
+ * Delivers signed webhook events to downstream systems.
+ *
+ * Each delivery is a JSON POST with `X-OrderKuota-Event`,
+ * `X-OrderKuota-Delivery`, `X-OrderKuota-Timestamp` and
+ * `X-OrderKuota-Signature` headers. Network errors, timeouts, 408, 429 and 5xx
+ * responses are retried with exponential backoff; deliveries that still fail
+ * go to the dead-letter store.
+ *
+ * @example
+ * ```typescript
+ * const webhooks = new WebhookDispatcher({
+ *   endpoints: [{ url: 'https://orders.example.com/hooks', secret: 'whsec_...' }],
+ *   deadLetterStore: new FileDeadLetterStore('./dead-letters.json'),
+ * });
+ *
+ * webhooks.attach(watcher);
+ * webhooks.on('deadLettered', (entry) => console.error('undelivered', entry.url));
+ * ```
+ */
+export class WebhookDispatcher extends TypedEmitter<WebhookDispatcherEvents> {
+  private endpoints: WebhookEndpoint[];
+  private readonly retry: Required<RetryOptions>;
+  private readonly timeout: number;
+  private readonly store: DeadLetterStore;
+  private readonly http: AxiosInstance;
+  private controller = new AbortController();
+
+  /**
+   * Create webhook dispatcher
+   *
+   * @param options Endpoints, retry policy and dead-letter store
+   */
+  constructor(options: WebhookDispatcherOptions = {}) {
+    super();
+    this.endpoints = [...(options.endpoints ?? [])];
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.timeout = options.timeout ?? 10000;
+    this.store = options.deadLetterStore ?? new MemoryDeadLetterStore();
+    this.http = axios.create({ validateStatus: () => true });
+  }
+
+  /**
+   * Registers a receiver.
+   *
+   * @param endpoint Receiver URL, secret and event filter
+   */
+  addEndpoint(endpoint: WebhookEndpoint): void {
+    this.endpoints.push(endpoint);
+  }
+
+  /**
+   * Unregisters every receiver with the given URL.
+   *
+   * @param url Receiver URL
+   * @returns True if a receiver was removed
+   */
+  removeEndpoint(url: string): boolean {
+    const count = this.endpoints.length;
+    this.endpoints = this.endpoints.filter((endpoint) => endpoint.url !== url);
+    return this.endpoints.length < count;
+  }
+
+  /**
+   * Sends payment.received for every invoice a PaymentWatcher reports as paid.
+   * Failures are emitted as "error".
+   *
+   * @param watcher Payment watcher to listen to
+   * @returns Function that detaches the listener
+   */
+  attach(watcher: PaymentWatcher): () => void {
+    const onPaid = (invoice: PendingInvoice, transaction: QrisTransaction) => {
+      this.paymentReceived(transaction, invoice).catch((error) => {
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+      });
+    };
+
+    watcher.on("paid", onPaid);
+    return () => {
+      watcher.off("paid", onPaid);
+    };
+  }
+
+  /**
+   * Delivers a payment.received event to every subscribed receiver.
+   *
+   * @param transaction Incoming QRIS mutation
+   * @param invoice Invoice the payment was matched to
+   * @returns The event, once every delivery succeeded or was dead-lettered
+   */
+  async paymentReceived(
+    transaction: QrisTransaction,
+    invoice?: PendingInvoice,
+  ): Promise<WebhookEvent> {
+    const event: WebhookEvent = {
+      id: `evt_${randomBytes(12).toString("hex")}`,
+      type: "payment.received",
+      createdAt: new Date().toISOString(),
+      data: { transaction, invoice },
+    };
+
+    await this.dispatch(event);
+    return event;
+  }
+
+  /**
+   * Delivers an event to every subscribed receiver.
+   *
+   * @param event Event to deliver
+   */
+  async dispatch(event: WebhookEvent): Promise<void> {
+    const endpoints = this.endpoints.filter(
+      (endpoint) => !endpoint.events || endpoint.events.includes(event.type),
+    );
+
+    await Promise.all(
+      endpoints.map((endpoint) => this.deliver(event, endpoint)),
+    );
+  }
+
+  /**
+   * Lists deliveries that exhausted their retries.
+   *
+   * @returns Dead letters
+   */
+  getDeadLetters(): Promise<DeadLetter[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Retries a dead-lettered delivery once and removes it from the store if
+   * the receiver accepts it.
+   *
+   * @param id Dead letter ID
+   * @returns True if the event was delivered
+   */
+  async redeliver(id: string): Promise<boolean> {
+    const entry = (await this.store.list()).find((item) => item.id === id);
+    const endpoint = this.endpoints.find((item) => item.url === entry?.url);
+
+    if (!entry || !endpoint) {
+      return false;
+    }
+
+    const result = await this.attempt(entry.event, endpoint, 1, false);
+
+    if (result.delivered) {
+      await this.store.remove(id);
+      this.emit("delivered", entry.event, endpoint.url);
+    }
+
+    return result.delivered;
+  }
+
+  /**
+   * Cancels pending retries. Deliveries still in flight are dead-lettered.
+   */
+  close(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+  }
+
+  private async deliver(
+    event: WebhookEvent,
+    endpoint: WebhookEndpoint,
+  ): Promise<void> {
+    const signal = this.controller.signal;
+    let attempt = 1;
+
+    while (true) {
+      const willRetry = attempt <= this.retry.retries && !signal.aborted;
+      const result = await this.attempt(event, endpoint, attempt, willRetry);
+
+      if (result.delivered) {
+        this.emit("delivered", event, endpoint.url);
+        return;
+      }
+
+      if (result.retryable && willRetry) {
+        try {
+          await sleep(this.backoff(attempt), signal);
+          attempt++;
+          continue;
+        } catch {
+          // Closed while waiting; keep the event in the dead-letter store
+        }
+      }
+
+      const entry: DeadLetter = {
+        id: `dlq_${randomBytes(12).toString("hex")}`,
+        event,
+        url: endpoint.url,
+        attempts: attempt,
+        lastStatus: result.status,
+        lastError: result.error,
+        failedAt: new Date().toISOString(),
+      };
+
+      await this.store.add(entry);
+      this.emit("deadLettered", entry);
+      return;
+    }
+  }
+
+  private async attempt(
+    event: WebhookEvent,
+    endpoint: WebhookEndpoint,
+    attempt: number,
+    willRetry: boolean,
+  ): Promise<
+    | { delivered: true }
+    | { delivered: false; retryable: boolean; status?: number; error: string }
+  > {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let status: number | undefined;
+    let error: string | undefined;
+    let retryable = true;
+
+    try {
+      const response = await this.http.post(endpoint.url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "orderkuota-webhooks",
+          "X-OrderKuota-Event": event.type,
+          "X-OrderKuota-Delivery": event.id,
+          "X-OrderKuota-Timestamp": String(timestamp),
+          "X-OrderKuota-Signature": signWebhook(
+            body,
+            timestamp,
+            endpoint.secret,
+          ),
+        },
+        timeout: this.timeout,
+        // Deliver the body exactly as signed
+        transformRequest: [(data) => data],
+      });
+
+      status = response.status;
+
+      if (status < 200 || status >= 300) {
+        error = `Receiver responded with status ${status}`;
+        retryable = isRetryableStatus(status);
+      }
+    } catch (cause) {
+      error = cause instanceof Error ? cause.message : String(cause);
+    }
+
+    const delivered = error === undefined;
+
+    this.emit("attempt", {
+      event,
+      url: endpoint.url,
+      attempt,
+      status,
+      error,
+      duration: Date.now() - startedAt,
+      willRetry: !delivered && retryable && willRetry,
+    });
+
+    return delivered
+      ? { delivered: true }
+      : { delivered: false, retryable, status, error: error! };
+  }
+
+  private backoff(attempt: number): number {
+    const { minDelay, maxDelay, factor } = this.retry;
+    return Math.min(maxDelay, minDelay * factor ** (attempt - 1));
+  }
+}
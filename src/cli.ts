@@ -0,0 +1,321 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { createInterface } from "readline/promises";
+import { parseArgs } from "util";
+import OrderKuota from "./index.js";
+import { FileSessionStore } from "./session.js";
+import {
+  OrderKuotaError,
+  OrderKuotaErrorCode,
+  QrisTransaction,
+} from "./types.js";
+import { renderQrTerminal, renderQrToFile } from "./nodeRender.js";
+import { readJsonFile } from "./files.js";
+import { formatCsv, formatRupiah } from "./utils.js";
+
+/**
+ * Process exit codes for each error code. 2 is reserved for usage errors.
+ */
+const CLI_EXIT_CODES: Record<OrderKuotaErrorCode, number> = {
+  UNKNOWN_ERROR: 1,
+  MISSING_CONFIG: 3,
+  INVALID_CREDENTIALS: 4,
+  SESSION_EXPIRED: 5,
+  NETWORK_ERROR: 6,
+  TIMEOUT: 7,
+  ABORTED: 8,
+  API_ERROR: 9,
+  EMPTY_RESPONSE: 10,
+  INVALID_RESPONSE: 11,
+  INVALID_AMOUNT: 12,
+  INVALID_QRIS: 13,
+  QR_GENERATION_FAILED: 14,
+  ALLOCATION_EXHAUSTED: 15,
+  RATE_LIMITED: 16,
+  INVALID_STATE: 17,
+  INVALID_ARGUMENT: 18,
+};
+
+const USAGE_EXIT_CODE = 2;
+
+const USAGE = `Usage: orderkuota <command> [options]
+
+Commands:
+  login                 Request an OTP and save the session
+  balance               Show account and QRIS balance
+  history               List QRIS mutations
+  qris <amount>         Generate a QRIS Ajaib payment
+  menu                  Show the QRIS menu as JSON
+
+Options:
+  -c, --config <path>   Config file (default: ./orderkuota.json)
+  --session <path>      Session file (default: ~/.orderkuota/session.json)
+  -h, --help            Show this help
+
+History options:
+  --from <yyyy-mm-dd>   Start date (WIB)
+  --to <yyyy-mm-dd>     End date (WIB)
+  --type <type>         History type (default: qris_history)
+  --max-pages <n>       Stop after n pages
+  -f, --format <fmt>    table, json or csv (default: table)
+
+QRIS options:
+  -o, --output <path>   Write the QR code to a PNG or .svg file instead of the terminal
+
+Credentials are read from ORDERKUOTA_USERNAME and ORDERKUOTA_PASSWORD, or
+from the "username" and "password" fields of the config file. The password
+is only needed to log in; other commands use the saved session.`;
+
+/**
+ * Contents of the CLI config file
+ */
+interface CliConfig {
+  /** Account username */
+  username?: string;
+  /** Account password */
+  password?: string;
+  /** Session file path */
+  sessionFile?: string;
+  /** API base URL */
+  baseUrl?: string;
+}
+
+class UsageError extends Error {}
+
+async function loadConfig(
+  values: Record<string, string | boolean | undefined>,
+): Promise<CliConfig> {
+  const configPath =
+    (values.config as string | undefined) ??
+    process.env.ORDERKUOTA_CONFIG ??
+    "orderkuota.json";
+  const fileConfig = await readJsonFile<CliConfig>(configPath, {});
+
+  return {
+    username: process.env.ORDERKUOTA_USERNAME ?? fileConfig.username,
+    password: process.env.ORDERKUOTA_PASSWORD ?? fileConfig.password,
+    baseUrl: process.env.ORDERKUOTA_BASE_URL ?? fileConfig.baseUrl,
+    sessionFile:
+      (values.session as string | undefined) ??
+      process.env.ORDERKUOTA_SESSION_FILE ??
+      fileConfig.sessionFile ??
+      join(homedir(), ".orderkuota", "session.json"),
+  };
+}
+
+async function createClient(config: CliConfig): Promise<OrderKuota> {
+  await fs.mkdir(dirname(config.sessionFile!), { recursive: true });
+
+  const { password } = config;
+
+  return new OrderKuota({
+    username: config.username ?? "",
+    // Commands other than login run on the saved session without a password
+    credentials: {
+      resolve: async () => {
+        if (!password) {
+          throw new OrderKuotaError(
+            "No saved session and no password configured. Set ORDERKUOTA_PASSWORD or the config file's password field and run `orderkuota login`.",
+            "MISSING_CONFIG",
+          );
+        }
+        return { password };
+      },
+    },
+    baseUrl: config.baseUrl,
+    sessionStore: new FileSessionStore(config.sessionFile!),
+    randomDevice: true,
+  });
+}
+
+function parseDate(value: string | undefined, endOfDay: boolean) {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const [year, month, day] = (match ?? []).slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    !match ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new UsageError(`Invalid date "${value}", expected yyyy-mm-dd`);
+  }
+
+  return new Date(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}+07:00`);
+}
+
+function printTransactions(
+  transactions: QrisTransaction[],
+  format: string,
+): void {
+  const columns: [string, (tx: QrisTransaction) => string | number][] = [
+    ["id", (tx) => tx.id],
+    ["date", (tx) => tx.date],
+    ["status", (tx) => tx.status],
+    ["amount", (tx) => tx.amount],
+    ["fee", (tx) => tx.fee],
+    ["balance", (tx) => tx.balance],
+    ["brand", (tx) => tx.brand?.name ?? ""],
+    ["description", (tx) => tx.description],
+  ];
+
+  if (format === "json") {
+    console.log(JSON.stringify(transactions, null, 2));
+    return;
+  }
+
+  if (format === "csv") {
+    process.stdout.write(
+      formatCsv([
+        columns.map(([name]) => name),
+        ...transactions.map((tx) => columns.map(([, get]) => get(tx))),
+      ]),
+    );
+    return;
+  }
+
+  if (format !== "table") {
+    throw new UsageError(`Unknown format "${format}"`);
+  }
+
+  const rows = transactions.map((tx) =>
+    columns.map(([, get]) => String(get(tx))),
+  );
+  const widths = columns.map(([name], index) =>
+    Math.max(name.length, ...rows.map((row) => row[index].length)),
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, index) => cell.padEnd(widths[index])).join("  ");
+
+  console.log(line(columns.map(([name]) => name.toUpperCase())));
+  rows.forEach((row) => console.log(line(row)));
+  console.log(`\n${transactions.length} transaction(s)`);
+}
+
+async function login(client: OrderKuota): Promise<void> {
+  const { email } = await client.getOTP();
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    const otp = await rl.question(`OTP sent to ${email}. Enter OTP: `);
+    const { name, username } = await client.getToken(otp.trim());
+    console.log(`Logged in as ${name} (${username}). Session saved.`);
+  } finally {
+    rl.close();
+  }
+}
+
+async function run(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      session: { type: "string" },
+      help: { type: "boolean", short: "h" },
+      from: { type: "string" },
+      to: { type: "string" },
+      type: { type: "string" },
+      "max-pages": { type: "string" },
+      format: { type: "string", short: "f" },
+      output: { type: "string", short: "o" },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const client = await createClient(await loadConfig(values));
+
+  switch (command) {
+    case "login":
+      await login(client);
+      break;
+
+    case "balance": {
+      const { balance, qris_balance } = await client.checkBalance();
+      console.log(`Balance:      ${formatRupiah(balance)}`);
+      console.log(`QRIS balance: ${formatRupiah(qris_balance)}`);
+      break;
+    }
+
+    case "history": {
+      const maxPages = values["max-pages"]
+        ? Number(values["max-pages"])
+        : undefined;
+
+      if (maxPages !== undefined && !(maxPages > 0)) {
+        throw new UsageError("--max-pages must be a positive number");
+      }
+
+      const transactions: QrisTransaction[] = [];
+      for await (const tx of client.history({
+        type: values.type,
+        from: parseDate(values.from, false),
+        to: parseDate(values.to, true),
+        maxPages,
+      })) {
+        transactions.push(tx);
+      }
+      printTransactions(transactions, values.format ?? "table");
+      break;
+    }
+
+    case "qris": {
+      const amount = Number(args[0]);
+
+      if (!args[0] || !Number.isInteger(amount)) {
+        throw new UsageError("Usage: orderkuota qris <amount>");
+      }
+
+      const { data } = await client.generateQRISAjaib(amount);
+
+      if (values.output) {
+        await renderQrToFile(values.output, data.qr_string, {
+          width: 512,
+          margin: 2,
+        });
+        console.log(`QR code written to ${values.output}`);
+      } else {
+        console.log(await renderQrTerminal(data.qr_string, { ansi: true }));
+      }
+
+      console.log(`Amount: ${formatRupiah(amount)}`);
+      console.log(`QRIS:   ${data.qr_string}`);
+      break;
+    }
+
+    case "menu":
+      console.log(JSON.stringify(await client.fetchQrisMenu(), null, 2));
+      break;
+
+    default:
+      throw new UsageError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+run(process.argv.slice(2)).catch((error) => {
+  if (error instanceof OrderKuotaError) {
+    console.error(`Error [${error.code}]: ${error.message}`);
+    process.exitCode = CLI_EXIT_CODES[error.code] ?? 1;
+  } else if (
+    error instanceof UsageError ||
+    (error as NodeJS.ErrnoException)?.code?.startsWith("ERR_PARSE_ARGS")
+  ) {
+    console.error(error.message);
+    process.exitCode = USAGE_EXIT_CODE;
+  } else {
+    console.error(error);
+    process.exitCode = 1;
+  }
+});
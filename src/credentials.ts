@@ -0,0 +1,76 @@
+import {
+  Credentials,
+  CredentialsProvider,
+  EnvCredentialsOptions,
+  OrderKuotaError,
+} from "./types.js";
+
+/**
+ * Reads the password and token from environment variables each time they are
+ * needed, so rotated secrets are picked up without a restart. The password
+ * may be left unset when a token is set; logging in then fails.
+ *
+ * @example
+ * ```typescript
+ * const client = new OrderKuota({
+ *   username: 'your-username',
+ *   credentials: new EnvCredentialsProvider(),
+ * });
+ * ```
+ */
+export class EnvCredentialsProvider implements CredentialsProvider {
+  private readonly passwordVariable: string;
+  private readonly tokenVariable: string;
+  private readonly env?: Record<string, string | undefined>;
+
+  /**
+   * Create environment credentials provider
+   *
+   * @param options Variable names and environment
+   */
+  constructor(options: EnvCredentialsOptions = {}) {
+    this.passwordVariable = options.passwordVariable ?? "ORDERKUOTA_PASSWORD";
+    this.tokenVariable = options.tokenVariable ?? "ORDERKUOTA_TOKEN";
+    this.env = options.env;
+  }
+
+  /**
+   * Reads the password and token variables.
+   *
+   * @returns Password and token, either of which may be undefined
+   * @throws {OrderKuotaError} When neither variable is set
+   */
+  async resolve(): Promise<Credentials> {
+    const env = this.env ?? globalThis.process?.env ?? {};
+    const password = env[this.passwordVariable] || undefined;
+    const token = env[this.tokenVariable] || undefined;
+
+    if (!password && !token) {
+      throw new OrderKuotaError(
+        `Environment variable ${this.passwordVariable} or ${this.tokenVariable} must be set`,
+        "MISSING_CONFIG",
+      );
+    }
+
+    return { password, token };
+  }
+}
+
+/**
+ * Derives a short, non-reversible identifier for a token, safe to log and
+ * compare across processes.
+ *
+ * @param token Authentication token
+ * @returns "sha256:" followed by the first 12 hex digits of the token's SHA-256
+ */
+export async function fingerprintToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+  return `sha256:${hex.slice(0, 12)}`;
+}
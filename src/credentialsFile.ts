@@ -0,0 +1,185 @@
+import { createCipheriv, createDecipheriv, scrypt } from "crypto";
+import { readJsonFile, writeJsonFile } from "./files.js";
+import { fromBase64, toBase64 } from "./png.js";
+import {
+  Credentials,
+  CredentialsProvider,
+  EncryptedCredentialsFile,
+  OrderKuotaError,
+} from "./types.js";
+import { createLock } from "./utils.js";
+
+// scrypt cost; 2^15 with r=8 needs 32 MiB, so maxmem is raised above Node's default
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  params: { N: number; r: number; p: number },
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      32,
+      { ...params, maxmem: SCRYPT_MAXMEM },
+      (error, key) => (error ? reject(error) : resolve(new Uint8Array(key))),
+    );
+  });
+}
+
+/**
+ * Credentials file encrypted with AES-256-GCM under a key derived from a
+ * passphrase with scrypt. One file can hold credentials for several accounts.
+ *
+ * The file is decrypted on every resolve and nothing is cached, so the
+ * plaintext password only lives in memory while a login is in progress.
+ *
+ * @example
+ * ```typescript
+ * const credentials = new EncryptedFileCredentialsProvider(
+ *   './orderkuota.credentials.json',
+ *   () => process.env.ORDERKUOTA_PASSPHRASE!,
+ * );
+ * await credentials.save('your-username', { password: 'your-password' });
+ *
+ * const client = new OrderKuota({ username: 'your-username', credentials });
+ * ```
+ */
+export class EncryptedFileCredentialsProvider implements CredentialsProvider {
+  private readonly path: string;
+  private readonly passphrase: () => string | Promise<string>;
+  private readonly lock = createLock();
+
+  /**
+   * @param path Path of the encrypted credentials file
+   * @param passphrase Passphrase, or a function returning it when needed
+   */
+  constructor(
+    path: string,
+    passphrase: string | (() => string | Promise<string>),
+  ) {
+    this.path = path;
+    this.passphrase =
+      typeof passphrase === "function" ? passphrase : () => passphrase;
+  }
+
+  /**
+   * Decrypts the file and returns an account's credentials.
+   *
+   * @param username Account username
+   * @returns Password and token
+   * @throws {OrderKuotaError} When the file is missing, the passphrase is wrong or the account is not in the file
+   */
+  resolve(username: string): Promise<Credentials> {
+    return this.lock(async () => {
+      const credentials = (await this.read())?.[username];
+
+      if (!credentials) {
+        throw new OrderKuotaError(
+          `No credentials for ${username} in ${this.path}`,
+          "MISSING_CONFIG",
+        );
+      }
+
+      return credentials;
+    });
+  }
+
+  /**
+   * Stores an account's credentials, re-encrypting the file with a new salt
+   * and nonce. The file is written with owner-only permissions.
+   *
+   * @param username Account username
+   * @param credentials Password and optional token
+   * @throws {OrderKuotaError} When the existing file cannot be decrypted
+   */
+  save(username: string, credentials: Credentials): Promise<void> {
+    return this.lock(async () => {
+      const accounts = (await this.read()) ?? {};
+      accounts[username] = credentials;
+      await this.write(accounts);
+    });
+  }
+
+  /**
+   * Removes an account's credentials.
+   *
+   * @param username Account username
+   * @throws {OrderKuotaError} When the existing file cannot be decrypted
+   */
+  remove(username: string): Promise<void> {
+    return this.lock(async () => {
+      const accounts = await this.read();
+
+      if (accounts?.[username]) {
+        delete accounts[username];
+        await this.write(accounts);
+      }
+    });
+  }
+
+  private async read(): Promise<Record<string, Credentials> | undefined> {
+    const file = await readJsonFile<EncryptedCredentialsFile | undefined>(
+      this.path,
+      undefined,
+    );
+
+    if (!file) {
+      return undefined;
+    }
+
+    if (file.version !== 1 || file.kdf !== "scrypt") {
+      throw new OrderKuotaError(
+        `Unsupported credentials file format in ${this.path}`,
+        "MISSING_CONFIG",
+      );
+    }
+
+    const key = await deriveKey(
+      await this.passphrase(),
+      fromBase64(file.salt),
+      { N: file.N, r: file.r, p: file.p },
+    );
+
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        key,
+        fromBase64(file.iv),
+      );
+      decipher.setAuthTag(fromBase64(file.tag));
+
+      return JSON.parse(
+        decipher.update(file.data, "base64", "utf8") + decipher.final("utf8"),
+      );
+    } catch {
+      throw new OrderKuotaError(
+        `Cannot decrypt ${this.path}: wrong passphrase or corrupted file`,
+        "INVALID_CREDENTIALS",
+      );
+    }
+  }
+
+  private async write(accounts: Record<string, Credentials>): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(await this.passphrase(), salt, SCRYPT_PARAMS);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data =
+      cipher.update(JSON.stringify(accounts), "utf8", "base64") +
+      cipher.final("base64");
+    const file: EncryptedCredentialsFile = {
+      version: 1,
+      kdf: "scrypt",
+      ...SCRYPT_PARAMS,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      tag: toBase64(new Uint8Array(cipher.getAuthTag())),
+      data,
+    };
+
+    await writeJsonFile(this.path, file, 0o600);
+  }
+}
@@ -0,0 +1,284 @@
+import {
+  AccountInfo,
+  OrderKuotaError,
+  OTPResponse,
+  QrisAjaibResponse,
+  QrisBrand,
+  QrisHistoryResponse,
+  QrisMenuItem,
+  QrisMenuResponse,
+  QrisTransaction,
+  TokenResponse,
+} from "./types.js";
+import { parseRupiah } from "./utils.js";
+
+type JsonObject = Record<string, unknown>;
+
+function invalid(path: string, expected: string, value: unknown): never {
+  const actual =
+    value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+  throw new OrderKuotaError(
+    `Invalid response at ${path}: expected ${expected}, got ${actual}`,
+    "INVALID_RESPONSE",
+    undefined,
+    { path },
+  );
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, path: string): JsonObject {
+  return isObject(value) ? value : invalid(path, "object", value);
+}
+
+function array(value: unknown, path: string): unknown[] {
+  return Array.isArray(value) ? value : invalid(path, "array", value);
+}
+
+function string(value: unknown, path: string): string {
+  // IDs come back as numbers on some endpoints and strings on others
+  if (typeof value === "number") {
+    return value.toString();
+  }
+  return typeof value === "string" && value !== ""
+    ? value
+    : invalid(path, "non-empty string", value);
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : string(value, path);
+}
+
+function amount(value: unknown, path: string): number {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return invalid(path, "amount", value);
+  }
+
+  const parsed = parseRupiah(value);
+  return Number.isNaN(parsed) ? invalid(path, "amount", value) : parsed;
+}
+
+function optionalAmount(value: unknown, path: string): number {
+  return value === undefined || value === null || value === ""
+    ? 0
+    : amount(value, path);
+}
+
+function message(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Decodes the account section of menu and history responses.
+ *
+ * @param value Raw "account" object
+ * @param path Path of the value in the response
+ * @returns Normalized account information
+ */
+export function decodeAccount(value: unknown, path = "$.account"): AccountInfo {
+  const results = object(object(value, path).results, `${path}.results`);
+
+  return {
+    id: optionalString(results.id, `${path}.results.id`),
+    name: optionalString(results.name, `${path}.results.name`),
+    username: optionalString(results.username, `${path}.results.username`),
+    balance: optionalAmount(results.balance, `${path}.results.balance`),
+    qris_balance: optionalAmount(
+      results.qris_balance,
+      `${path}.results.qris_balance`,
+    ),
+  };
+}
+
+/**
+ * Decodes the OTP stage of the login endpoint.
+ *
+ * @param data Raw response body
+ * @returns Normalized OTP response
+ */
+export function decodeOtpResponse(data: unknown): OTPResponse {
+  const results = object(object(data, "$").results, "$.results");
+  const email = string(results.otp_value, "$.results.otp_value");
+
+  return {
+    status: "success",
+    email,
+    message: `OTP has been sent to ${email}. Please check your email.`,
+  };
+}
+
+/**
+ * Decodes the token stage of the login endpoint.
+ *
+ * @param data Raw response body
+ * @returns Normalized token response
+ */
+export function decodeTokenResponse(data: unknown): TokenResponse {
+  const results = object(object(data, "$").results, "$.results");
+
+  return {
+    status: "success",
+    token: string(results.token, "$.results.token"),
+    id: string(results.id, "$.results.id"),
+    name: string(results.name, "$.results.name"),
+    username: string(results.username, "$.results.username"),
+    balance: optionalAmount(results.balance, "$.results.balance"),
+    message: "Token successfully obtained.",
+  };
+}
+
+function decodeBrand(value: unknown, path: string): QrisBrand | undefined {
+  if (!isObject(value) || !value.name) {
+    return undefined;
+  }
+
+  return {
+    name: string(value.name, `${path}.name`),
+    logo: optionalString(value.logo, `${path}.logo`),
+  };
+}
+
+/**
+ * Decodes one raw mutation entry.
+ *
+ * @param value Raw mutation entry
+ * @param path Path of the value in the response
+ * @returns Normalized transaction
+ */
+export function decodeTransaction(
+  value: unknown,
+  path: string,
+): QrisTransaction {
+  const entry = object(value, path);
+  const status = string(entry.status, `${path}.status`);
+  const credit = optionalAmount(entry.kredit, `${path}.kredit`);
+  const debit = optionalAmount(entry.debet, `${path}.debet`);
+
+  return {
+    id: string(entry.id, `${path}.id`),
+    status,
+    amount: status === "IN" ? credit : debit,
+    credit,
+    debit,
+    balance: optionalAmount(entry.saldo_akhir, `${path}.saldo_akhir`),
+    fee: optionalAmount(entry.fee, `${path}.fee`),
+    date: string(entry.tanggal, `${path}.tanggal`),
+    description: message(entry.keterangan),
+    brand: decodeBrand(entry.brand, `${path}.brand`),
+  };
+}
+
+/**
+ * Decodes a QRIS mutation history response.
+ *
+ * @param data Raw response body
+ * @param historyType History type the request was made for
+ * @returns Normalized history response
+ */
+export function decodeQrisHistoryResponse(
+  data: unknown,
+  historyType: string,
+): QrisHistoryResponse {
+  const body = object(data, "$");
+  const path = `$.${historyType}`;
+  const history = object(body[historyType], path);
+  const results =
+    history.results === undefined || history.results === null
+      ? []
+      : array(history.results, `${path}.results`);
+
+  return {
+    status: "success",
+    data: results.map((entry, index) =>
+      decodeTransaction(entry, `${path}.results[${index}]`),
+    ),
+    account: isObject(body.account) ? decodeAccount(body.account) : undefined,
+    message: message(history.message),
+  };
+}
+
+function decodeMenuItems(value: unknown, path: string): QrisMenuItem[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const entries = isObject(value) ? Object.values(value) : array(value, path);
+
+  return entries.flatMap((item, index) =>
+    isObject(item)
+      ? [
+          {
+            ...item,
+            id: optionalString(item.id, `${path}[${index}].id`),
+            name: optionalString(item.name, `${path}[${index}].name`),
+            description: optionalString(
+              item.description,
+              `${path}[${index}].description`,
+            ),
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Decodes a QRIS menu response.
+ *
+ * @param data Raw response body
+ * @returns Normalized menu response
+ */
+export function decodeQrisMenuResponse(data: unknown): QrisMenuResponse {
+  const body = object(data, "$");
+  const menu = isObject(body.qris_menu) ? body.qris_menu : {};
+
+  return {
+    status: "success",
+    data: decodeQrisMenu(body),
+    account: decodeAccount(body.account),
+    message: message(menu.message),
+  };
+}
+
+/**
+ * Decodes the qris_menu section of a response.
+ *
+ * @param data Raw response body
+ * @returns Menu items, empty when the section is missing
+ */
+export function decodeQrisMenu(data: unknown): QrisMenuItem[] {
+  const menu = object(data, "$").qris_menu;
+
+  return decodeMenuItems(
+    isObject(menu) ? menu.results : undefined,
+    "$.qris_menu.results",
+  );
+}
+
+/**
+ * Decodes a QRIS Ajaib generation response.
+ *
+ * @param data Raw response body
+ * @returns Normalized QRIS Ajaib response
+ */
+export function decodeQrisAjaibResponse(data: unknown): QrisAjaibResponse {
+  const ajaib = object(object(data, "$").qris_ajaib, "$.qris_ajaib");
+  const results = object(ajaib.results, "$.qris_ajaib.results");
+
+  return {
+    status: "success",
+    data: {
+      ...results,
+      qr_string: string(results.qr_string, "$.qris_ajaib.results.qr_string"),
+      amount:
+        results.amount === undefined
+          ? undefined
+          : amount(results.amount, "$.qris_ajaib.results.amount"),
+    },
+    message: message(ajaib.message),
+  };
+}
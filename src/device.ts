@@ -0,0 +1,66 @@
+import { DeviceProfile } from "./types.js";
+
+/**
+ * Device profile of the OrderKuota Android app the client identifies as by default.
+ */
+export const DEFAULT_DEVICE_PROFILE: Readonly<DeviceProfile> = Object.freeze({
+  appRegId:
+    "e5aCENGrQOWvhQWYnv-uNc:APA91bFj3O_mv5Nf_2SM4Duz4Z8Ug3nBNaHlgodlY92CBuNIA9xmc0Dahev5xxqssPmnTdcie4mlhiG9ZAE1iCe1QbyhxcUyGXlenJxiUaXdfm1rklOEo9k",
+  phoneUuid: "e5aCENGrQOWvhQWYnv-uNc",
+  phoneModel: "sdk_gphone64_x86_64",
+  androidVersion: "16",
+  appVersionCode: "250811",
+  appVersionName: "25.08.11",
+  uiMode: "light",
+  userAgent: "okhttp/4.12.0",
+});
+
+const BASE64URL_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+function randomToken(length: number): string {
+  // Web Crypto keeps this usable outside Node.js; 64 divides 256, so no bias
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => BASE64URL_ALPHABET[byte & 63]).join("");
+}
+
+/**
+ * Generates a device profile with a random installation ID and registration ID.
+ *
+ * Generate one profile per account and persist it (a session store does this
+ * automatically) so the account keeps appearing as the same device.
+ *
+ * @param overrides Fields to set instead of the defaults
+ * @returns New device profile
+ */
+export function generateDeviceProfile(
+  overrides: Partial<DeviceProfile> = {},
+): DeviceProfile {
+  // Registration IDs follow the FCM "<instance id>:APA91b<token>" layout
+  const phoneUuid = randomToken(22);
+
+  return {
+    ...DEFAULT_DEVICE_PROFILE,
+    phoneUuid,
+    appRegId: `${phoneUuid}:APA91b${randomToken(113)}`,
+    ...overrides,
+  };
+}
+
+/**
+ * Converts a device profile into the form fields the API expects.
+ *
+ * @param device Device profile
+ * @returns Device form fields
+ */
+export function toDeviceFields(device: DeviceProfile): Record<string, string> {
+  return {
+    app_reg_id: device.appRegId,
+    phone_uuid: device.phoneUuid,
+    phone_model: device.phoneModel,
+    phone_android_version: device.androidVersion,
+    app_version_code: device.appVersionCode,
+    app_version_name: device.appVersionName,
+    ui_mode: device.uiMode,
+  };
+}
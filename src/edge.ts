@@ -0,0 +1,92 @@
+// Entry point for edge runtimes and browsers: Cloudflare Workers, Deno, Bun,
+// Vercel Edge. Nothing reachable from here imports Node.js modules or the
+// qrcode package; events come from ./emitter.js and QR codes from ./qrMatrix.js.
+
+// Main export
+import OrderKuota from "./OrderKuota.js";
+export type { OrderKuotaEvents } from "./OrderKuota.js";
+
+// Type exports for better IDE support
+export * from "./types.js";
+
+// Base class of evented classes
+export { TypedEmitter } from "./emitter.js";
+
+// Batched requests
+export { BatchRequest } from "./BatchRequest.js";
+
+// Response decoders
+export {
+  decodeOtpResponse,
+  decodeTokenResponse,
+  decodeAccount,
+  decodeTransaction,
+  decodeQrisHistoryResponse,
+  decodeQrisMenuResponse,
+  decodeQrisMenu,
+  decodeQrisAjaibResponse,
+} from "./decoders.js";
+
+// Credentials
+export { EnvCredentialsProvider, fingerprintToken } from "./credentials.js";
+
+// Device profiles
+export { DEFAULT_DEVICE_PROFILE, generateDeviceProfile } from "./device.js";
+
+// HTTP transport
+export { FetchTransport } from "./fetchTransport.js";
+
+// Observability
+export { redact, createConsoleLogger } from "./observability.js";
+
+// Rate limiting
+export { RateLimiter, RateLimiterEvents } from "./RateLimiter.js";
+
+// Result helper and formatting
+export { toResult, formatRupiah } from "./utils.js";
+
+// QR rendering
+export {
+  renderQrSvg,
+  renderQrPngBytes,
+  renderQrDataUrl,
+  renderPaymentCard,
+  rasterizePaymentCard,
+} from "./render.js";
+
+// QRIS utilities
+export {
+  crc16,
+  parseQrisTags,
+  serializeQrisTags,
+  decodeQris,
+  isValidQris,
+  createDynamicQris,
+} from "./qris.js";
+
+// Transaction normalization
+export {
+  normalizeMutation,
+  normalizeTransaction,
+  detectIssuer,
+} from "./normalize.js";
+
+// Reconciliation
+export {
+  reconcile,
+  reconcileHistory,
+  reconciliationToCsv,
+  reconciliationToJson,
+} from "./reconcile.js";
+
+// Balance monitoring
+export { BalanceMonitor, BalanceMonitorEvents } from "./BalanceMonitor.js";
+
+// Multi-account pool
+export { OrderKuotaPool, OrderKuotaPoolEvents } from "./OrderKuotaPool.js";
+
+// Named export
+export { OrderKuota };
+
+// Default export
+export default OrderKuota;
@@ -0,0 +1,160 @@
+type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+interface Registration {
+  listener: (...args: any[]) => void;
+  once: boolean;
+}
+
+/**
+ * Minimal typed event emitter with the subset of the Node.js EventEmitter API
+ * this library uses, so evented classes run on edge runtimes without
+ * "events".
+ *
+ * As with EventEmitter, emitting "error" without a listener throws the error.
+ */
+export class TypedEmitter<Events extends EventMap<Events>> {
+  private readonly registrations = new Map<keyof Events, Registration[]>();
+
+  /**
+   * Adds a listener for an event.
+   *
+   * @param event Event name
+   * @param listener Called with the event arguments
+   * @returns This emitter
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: (...args: Events[K]) => void,
+  ): this {
+    return this.register(event, { listener, once: false });
+  }
+
+  /**
+   * Alias of on().
+   */
+  addListener<K extends keyof Events>(
+    event: K,
+    listener: (...args: Events[K]) => void,
+  ): this {
+    return this.on(event, listener);
+  }
+
+  /**
+   * Adds a listener that is removed after the next emit of the event.
+   *
+   * @param event Event name
+   * @param listener Called with the event arguments
+   * @returns This emitter
+   */
+  once<K extends keyof Events>(
+    event: K,
+    listener: (...args: Events[K]) => void,
+  ): this {
+    return this.register(event, { listener, once: true });
+  }
+
+  /**
+   * Removes the most recently added registration of a listener.
+   *
+   * @param event Event name
+   * @param listener Listener passed to on() or once()
+   * @returns This emitter
+   */
+  off<K extends keyof Events>(
+    event: K,
+    listener: (...args: Events[K]) => void,
+  ): this {
+    const registrations = this.registrations.get(event) ?? [];
+
+    for (let i = registrations.length - 1; i >= 0; i--) {
+      if (registrations[i].listener === listener) {
+        return this.unregister(event, registrations[i]);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Alias of off().
+   */
+  removeListener<K extends keyof Events>(
+    event: K,
+    listener: (...args: Events[K]) => void,
+  ): this {
+    return this.off(event, listener);
+  }
+
+  /**
+   * Removes every listener of an event, or of all events.
+   *
+   * @param event Event name (default: all events)
+   * @returns This emitter
+   */
+  removeAllListeners(event?: keyof Events): this {
+    if (event === undefined) {
+      this.registrations.clear();
+    } else {
+      this.registrations.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * Counts the listeners of an event.
+   *
+   * @param event Event name
+   * @returns Number of listeners
+   */
+  listenerCount(event: keyof Events): number {
+    return this.registrations.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Calls the listeners of an event in the order they were added.
+   *
+   * @param event Event name
+   * @param args Event arguments
+   * @returns Whether the event had listeners
+   * @throws The error argument when "error" is emitted without a listener
+   */
+  emit<K extends keyof Events>(event: K, ...args: Events[K]): boolean {
+    const registrations = this.registrations.get(event) ?? [];
+
+    if (registrations.length === 0) {
+      if (event === "error") {
+        throw args[0];
+      }
+      return false;
+    }
+
+    // Listeners added or removed while emitting apply from the next emit
+    for (const registration of registrations) {
+      if (registration.once) {
+        this.unregister(event, registration);
+      }
+      registration.listener.apply(this, args);
+    }
+    return true;
+  }
+
+  private register(event: keyof Events, registration: Registration): this {
+    this.registrations.set(event, [
+      ...(this.registrations.get(event) ?? []),
+      registration,
+    ]);
+    return this;
+  }
+
+  private unregister(event: keyof Events, registration: Registration): this {
+    const remaining = (this.registrations.get(event) ?? []).filter(
+      (existing) => existing !== registration,
+    );
+
+    if (remaining.length > 0) {
+      this.registrations.set(event, remaining);
+    } else {
+      this.registrations.delete(event);
+    }
+    return this;
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  FetchTransportOptions,
+  OrderKuotaError,
+  RetryOptions,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./types.js";
+import { resolveRetry, sendWithRetry } from "./retry.js";
+
+/**
+ * Transport built on the Fetch API, for runtimes without Node.js modules such
+ * as Cloudflare Workers, Deno, Bun and browsers; the default outside Node.js.
+ *
+ * Supports per-request timeouts and abort signals, and retries idempotent
+ * reads with exponential backoff on network errors, 429 and 5xx. Pass a custom
+ * `fetch` to route requests through a proxy.
+ *
+ * @example
+ * ```typescript
+ * const client = new OrderKuota({
+ *   username: 'your-username',
+ *   password: 'your-password',
+ *   transport: new FetchTransport({ timeout: 10000, retry: { retries: 3 } }),
+ * });
+ * ```
+ */
+export class FetchTransport implements Transport {
+  private readonly fetch: (url: string, init: RequestInit) => Promise<Response>;
+  private readonly timeout: number;
+  private readonly retry: Required<RetryOptions> | false;
+
+  /**
+   * Create fetch transport
+   *
+   * @param options Timeout, retry and fetch implementation
+   */
+  constructor(options: FetchTransportOptions = {}) {
+    this.timeout = options.timeout ?? 30000;
+    this.retry = resolveRetry(options.retry);
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+  }
+
+  send(request: TransportRequest): Promise<TransportResponse> {
+    return sendWithRetry(request, this.retry, () => this.sendOnce(request));
+  }
+
+  private async sendOnce(
+    request: TransportRequest,
+  ): Promise<TransportResponse> {
+    const timeout = request.timeout ?? this.timeout;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+    request.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      // Fetch derives Host from the URL and rejects or ignores it as a header
+      const headers = Object.fromEntries(
+        Object.entries(request.headers).filter(
+          ([name]) => name.toLowerCase() !== "host",
+        ),
+      );
+      const response = await this.fetch(request.url, {
+        method: "POST",
+        headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+      const text = await response.text();
+
+      return { status: response.status, data: parseBody(text) };
+    } catch (error) {
+      throw this.toError(request, error, timedOut);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private toError(
+    request: TransportRequest,
+    error: unknown,
+    timedOut: boolean,
+  ): OrderKuotaError {
+    const details = { request: request.name };
+
+    if (request.signal?.aborted) {
+      return new OrderKuotaError(
+        "Request was aborted",
+        "ABORTED",
+        undefined,
+        details,
+      );
+    }
+
+    if (timedOut) {
+      return new OrderKuotaError(
+        `Request timed out after ${request.timeout ?? this.timeout}ms`,
+        "TIMEOUT",
+        undefined,
+        details,
+      );
+    }
+
+    return new OrderKuotaError(
+      `Network error: ${error instanceof Error ? error.message : error}`,
+      "NETWORK_ERROR",
+      undefined,
+      details,
+    );
+  }
+}
+
+/**
+ * Parses a JSON body, falling back to the raw text like axios does.
+ */
+function parseBody(text: string): unknown {
+  try {
+    return text ? JSON.parse(text) : text;
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+
+// Distinguishes temporary files of overlapping writes within one process
+let tempCounter = 0;
+
+/**
+ * Reads and parses a JSON file.
+ *
+ * @param path File path
+ * @param fallback Value returned when the file does not exist
+ * @returns Parsed file contents
+ */
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes JSON to a file atomically via a temporary file and rename. Each write
+ * uses its own temporary file, but callers still need to serialize writes to
+ * the same path to keep the last one.
+ *
+ * @param path File path
+ * @param data Data to serialize
+ * @param mode File permissions (default: 0o644)
+ */
+export async function writeJsonFile(
+  path: string,
+  data: unknown,
+  mode = 0o644,
+): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${++tempCounter}.tmp`;
+
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), {
+      encoding: "utf8",
+      mode,
+    });
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
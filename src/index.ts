@@ -1,9 +1,145 @@
+// Node.js entry point; see edge.ts for runtimes without Node.js modules
+
 // Main export
 import OrderKuota from "./OrderKuota.js";
+import { AxiosTransport } from "./transport.js";
+export type { OrderKuotaEvents } from "./OrderKuota.js";
+
+// Keep axios as the default transport on Node.js for proxy and agent support
+OrderKuota.createDefaultTransport = (options) => new AxiosTransport(options);
 
 // Type exports for better IDE support
 export * from "./types.js";
 
+// Base class of evented classes
+export { TypedEmitter } from "./emitter.js";
+
+// Batched requests
+export { BatchRequest } from "./BatchRequest.js";
+
+// Response decoders
+export {
+  decodeOtpResponse,
+  decodeTokenResponse,
+  decodeAccount,
+  decodeTransaction,
+  decodeQrisHistoryResponse,
+  decodeQrisMenuResponse,
+  decodeQrisMenu,
+  decodeQrisAjaibResponse,
+} from "./decoders.js";
+
+// Session persistence
+export { MemorySessionStore, FileSessionStore } from "./session.js";
+
+// Credentials
+export { EnvCredentialsProvider, fingerprintToken } from "./credentials.js";
+export { EncryptedFileCredentialsProvider } from "./credentialsFile.js";
+
+// Device profiles
+export { DEFAULT_DEVICE_PROFILE, generateDeviceProfile } from "./device.js";
+
+// HTTP transport
+export { AxiosTransport };
+export { FetchTransport } from "./fetchTransport.js";
+
+// Observability
+export { redact, createConsoleLogger } from "./observability.js";
+
+// Rate limiting
+export { RateLimiter, RateLimiterEvents } from "./RateLimiter.js";
+
+// Result helper and formatting
+export { toResult, formatRupiah } from "./utils.js";
+
+// QR rendering
+export {
+  renderQrSvg,
+  renderQrPngBytes,
+  renderQrDataUrl,
+  renderPaymentCard,
+  rasterizePaymentCard,
+} from "./render.js";
+export { renderQrPng, renderQrTerminal, renderQrToFile } from "./nodeRender.js";
+
+// QRIS utilities
+export {
+  crc16,
+  parseQrisTags,
+  serializeQrisTags,
+  decodeQris,
+  isValidQris,
+  createDynamicQris,
+} from "./qris.js";
+
+// Payment confirmation
+export {
+  PaymentWatcher,
+  PaymentWatcherEvents,
+  MemoryMutationStore,
+  FileMutationStore,
+} from "./PaymentWatcher.js";
+
+// Invoice lifecycle
+export {
+  InvoiceManager,
+  InvoiceManagerEvents,
+  MemoryInvoiceStore,
+  FileInvoiceStore,
+} from "./InvoiceManager.js";
+
+// Transaction normalization
+export {
+  normalizeMutation,
+  normalizeTransaction,
+  detectIssuer,
+} from "./normalize.js";
+
+// Reconciliation
+export {
+  reconcile,
+  reconcileHistory,
+  reconciliationToCsv,
+  reconciliationToJson,
+} from "./reconcile.js";
+
+// Balance monitoring
+export { BalanceMonitor, BalanceMonitorEvents } from "./BalanceMonitor.js";
+
+// Unique amount allocation
+export {
+  InvoiceAllocator,
+  MemoryReservationStore,
+  FileReservationStore,
+} from "./InvoiceAllocator.js";
+
+// Multi-account pool
+export { OrderKuotaPool, OrderKuotaPoolEvents } from "./OrderKuotaPool.js";
+
+// Webhooks
+export {
+  WebhookDispatcher,
+  WebhookDispatcherEvents,
+  MemoryDeadLetterStore,
+  FileDeadLetterStore,
+  signWebhook,
+  verifyWebhookSignature,
+} from "./WebhookDispatcher.js";
+
+// Chat bot
+export { ChatBot, ChatBotEvents, MemoryChatTransport } from "./ChatBot.js";
+export { TelegramTransport } from "./telegram.js";
+
+// REST payment gateway
+export {
+  PaymentGateway,
+  PaymentGatewayEvents,
+  GATEWAY_OPENAPI_DOCUMENT,
+} from "./PaymentGateway.js";
+
+// Offline testing
+export { MockOrderKuotaServer } from "./MockServer.js";
+
 // Named export
 export { OrderKuota };
 
@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import { extname } from "path";
+import * as QRCode from "qrcode";
+import {
+  assertQrString,
+  assertRenderOptions,
+  renderQrSvg,
+  toError,
+} from "./render.js";
+import { QrFileOptions, QrRenderOptions, QrTerminalOptions } from "./types.js";
+
+function pngOptions(options: QrRenderOptions): QRCode.QRCodeToBufferOptions {
+  return {
+    type: "png",
+    // The qrcode package also lets width take precedence over scale
+    width: options.width ?? (options.scale ? undefined : 256),
+    scale: options.scale,
+    margin: options.margin ?? 1,
+    errorCorrectionLevel: options.errorCorrectionLevel ?? "M",
+    color: {
+      dark: options.dark ?? "#000000",
+      light: options.light ?? "#FFFFFF",
+    },
+  };
+}
+
+/**
+ * Renders a QRIS string as a PNG image.
+ *
+ * @param qrString QRIS string to encode
+ * @param options Size, margin and colours
+ * @returns PNG file contents
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for invalid colours or sizes, or
+ * when the QR code cannot be generated
+ */
+export async function renderQrPng(
+  qrString: string,
+  options: QrRenderOptions = {},
+): Promise<Buffer> {
+  try {
+    assertQrString(qrString);
+    assertRenderOptions(options);
+
+    return await QRCode.toBuffer(qrString, pngOptions(options));
+  } catch (error) {
+    throw toError(error);
+  }
+}
+
+/**
+ * Renders a QRIS string as block characters for terminals and chat messages.
+ *
+ * @param qrString QRIS string to encode
+ * @param options Block size and ANSI colour options
+ * @returns Multi-line text rendering
+ * @throws {OrderKuotaError} When the QR code cannot be generated
+ */
+export async function renderQrTerminal(
+  qrString: string,
+  options: QrTerminalOptions = {},
+): Promise<string> {
+  try {
+    assertQrString(qrString);
+
+    if (options.ansi) {
+      return await QRCode.toString(qrString, {
+        type: "terminal",
+        small: options.small ?? true,
+      });
+    }
+
+    return await QRCode.toString(qrString, { type: "utf8" });
+  } catch (error) {
+    throw toError(error);
+  }
+}
+
+/**
+ * Renders a QRIS string to an image file.
+ *
+ * @param path Destination file; ".svg" selects SVG unless a format is given
+ * @param qrString QRIS string to encode
+ * @param options Format, size, margin and colours
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for invalid colours or sizes, or
+ * when the QR code cannot be generated or written
+ */
+export async function renderQrToFile(
+  path: string,
+  qrString: string,
+  options: QrFileOptions = {},
+): Promise<void> {
+  const format =
+    options.format ?? (extname(path).toLowerCase() === ".svg" ? "svg" : "png");
+
+  try {
+    assertQrString(qrString);
+    assertRenderOptions(options);
+
+    if (format === "svg") {
+      await fs.writeFile(path, renderQrSvg(qrString, options));
+    } else {
+      await QRCode.toFile(path, qrString, pngOptions(options));
+    }
+  } catch (error) {
+    throw toError(error);
+  }
+}
@@ -0,0 +1,254 @@
+import { decodeTransaction } from "./decoders.js";
+import {
+  NormalizedTransaction,
+  OrderKuotaError,
+  QrisTransaction,
+  TransactionDirection,
+} from "./types.js";
+import { parseOrderKuotaDate } from "./utils.js";
+
+/**
+ * Issuer names and the spellings they appear under in brands and descriptions.
+ * "DANA" is matched case-sensitively because "dana" also means funds.
+ */
+const ISSUERS: [name: string, pattern: RegExp][] = [
+  ["DANA", /\bDANA\b/],
+  ["OVO", /\bOVO\b/i],
+  ["GoPay", /\bGO-?PAY\b|\bGOJEK\b/i],
+  ["ShopeePay", /\bSHOPEE\s?PAY\b|\bSPAY\b|\bAIRPAY\b/i],
+  ["LinkAja", /\bLINK\s?AJA\b/i],
+  ["i.saku", /\bI\.?SAKU\b/i],
+  ["AstraPay", /\bASTRA\s?PAY\b/i],
+  ["Sakuku", /\bSAKUKU\b/i],
+  ["DOKU", /\bDOKU\b/i],
+  ["blu", /\bBLU\b|\bBCA DIGITAL\b/i],
+  ["BCA", /\bBCA\b|\bCENTRAL ASIA\b/i],
+  ["BRI", /\bBRI(?:MO)?\b|\bRAKYAT INDONESIA\b/i],
+  ["BNI", /\bBNI\b|\bNEGARA INDONESIA\b/i],
+  ["BSI", /\bBSI\b|\bSYARIAH INDONESIA\b/i],
+  ["Mandiri", /\bMANDIRI\b|\bLIVIN\b/i],
+  ["CIMB Niaga", /\bCIMB\b|\bOCTO\b/i],
+  ["Permata", /\bPERMATA\b/i],
+  ["BTN", /\bBTN\b|\bTABUNGAN NEGARA\b/i],
+  ["Danamon", /\bDANAMON\b/i],
+  // "jago" is also an everyday word, so only the full bank name counts
+  ["Jago", /\bBANK JAGO\b/i],
+  ["SeaBank", /\bSEA\s?BANK\b/i],
+  ["Jenius", /\bJENIUS\b/i],
+  ["OCBC", /\bOCBC\b/i],
+  ["Maybank", /\bMAYBANK\b/i],
+  ["Bank DKI", /\bDKI\b/i],
+  ["Bank Mega", /\bBANK MEGA\b/i],
+];
+
+const REFERENCE_PATTERN =
+  /\b(?:RRN|REFF?|REFERENCE|NO\.?\s*REF)\b\s*[:.#]?\s*([A-Z0-9]{6,})/i;
+const RRN_PATTERN = /\b(\d{12})\b/;
+const NMID_PATTERN = /\bNMID\s*:?\s*(ID\d{10,})\b/i;
+const FEE_PATTERN =
+  /\b(?:FEE|BIAYA|MDR)\b\s*:?\s*(?:RP\.?\s*)?(\d{1,3}(?:\.\d{3})+|\d+)/i;
+
+/**
+ * Finds the wallet or bank named in a brand or description.
+ *
+ * When several issuers are named, the one mentioned first wins.
+ *
+ * @param text Brand name or mutation description
+ * @returns Canonical issuer name, e.g. "GoPay" for "GO-PAY", or undefined
+ */
+export function detectIssuer(text: string): string | undefined {
+  let found: { name: string; index: number } | undefined;
+
+  for (const [name, pattern] of ISSUERS) {
+    const index = text.search(pattern);
+
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { name, index };
+    }
+  }
+
+  return found?.name;
+}
+
+/**
+ * Normalizes a raw mutation entry from the mutasi endpoint.
+ *
+ * Amounts are read from the raw strings, so they stay exact as bigints.
+ * Fractions of a rupiah, up to two decimals after the comma, are rounded to
+ * the nearest whole rupiah: "12.345.678,9" becomes 12345679n. Amounts in any
+ * other format, such as "10,000", are rejected.
+ *
+ * @example
+ * ```typescript
+ * const transaction = normalizeMutation({
+ *   id: '1001',
+ *   kredit: '10.000',
+ *   debet: '0',
+ *   saldo_akhir: '9.930',
+ *   fee: '70',
+ *   status: 'IN',
+ *   tanggal: '19/08/2025 14:05',
+ *   keterangan: 'NMID : ID1020000000001 | DANA | 3F2A9C01B7DE',
+ * });
+ *
+ * console.log(transaction.amount, transaction.issuer, transaction.reference);
+ * // 10000n DANA 3F2A9C01B7DE
+ * ```
+ *
+ * @param value Raw mutation entry
+ * @param path Path of the value in the response
+ * @returns Normalized transaction
+ * @throws {OrderKuotaError} When the entry is malformed, an amount is not in
+ * the Indonesian format or its date is not recognized
+ */
+export function normalizeMutation(
+  value: unknown,
+  path = "$",
+): NormalizedTransaction {
+  const transaction = decodeTransaction(value, path);
+  const entry = value as Record<string, unknown>;
+  const direction = directionOf(transaction);
+  const amountField = direction === "credit" ? "kredit" : "debet";
+
+  return build(transaction, direction, path, {
+    amount: rupiah(entry[amountField], `${path}.${amountField}`),
+    fee: rupiah(entry.fee, `${path}.fee`),
+    balance: rupiah(entry.saldo_akhir, `${path}.saldo_akhir`),
+  });
+}
+
+/**
+ * Normalizes a transaction returned by getQRISHistory() or history().
+ *
+ * @param transaction Decoded transaction
+ * @returns Normalized transaction
+ * @throws {OrderKuotaError} When the transaction date is not recognized
+ */
+export function normalizeTransaction(
+  transaction: QrisTransaction,
+): NormalizedTransaction {
+  const direction = directionOf(transaction);
+
+  return build(transaction, direction, "$", {
+    amount: rupiah(
+      direction === "credit" ? transaction.credit : transaction.debit,
+      "$.amount",
+    ),
+    fee: rupiah(transaction.fee, "$.fee"),
+    balance: rupiah(transaction.balance, "$.balance"),
+  });
+}
+
+function build(
+  transaction: QrisTransaction,
+  direction: TransactionDirection,
+  path: string,
+  amounts: { amount: bigint; fee: bigint; balance: bigint },
+): NormalizedTransaction {
+  const date = parseOrderKuotaDate(transaction.date);
+
+  if (!date) {
+    throw new OrderKuotaError(
+      `Invalid response at ${path}.tanggal: expected date, got "${transaction.date}"`,
+      "INVALID_RESPONSE",
+      undefined,
+      { path: `${path}.tanggal` },
+    );
+  }
+
+  const description = transaction.description;
+  const brand = transaction.brand?.name.trim();
+  const nmid = description.match(NMID_PATTERN)?.[1].toUpperCase();
+  const fee = description.match(FEE_PATTERN)?.[1];
+
+  return {
+    id: transaction.id,
+    direction,
+    amount: amounts.amount,
+    fee:
+      amounts.fee === 0n && fee !== undefined
+        ? rupiah(fee, `${path}.keterangan`)
+        : amounts.fee,
+    balance: amounts.balance,
+    date,
+    issuer:
+      (brand && (detectIssuer(brand) ?? brand)) || detectIssuer(description),
+    reference: findReference(description, nmid),
+    nmid,
+    description,
+  };
+}
+
+function directionOf(transaction: QrisTransaction): TransactionDirection {
+  const status = transaction.status.toUpperCase();
+
+  if (status === "IN") {
+    return "credit";
+  }
+  if (status === "OUT") {
+    return "debit";
+  }
+  return transaction.credit > 0 ? "credit" : "debit";
+}
+
+/**
+ * Picks the reference out of a description: a labelled RRN or reference
+ * first, then a code between "|" separators, then any 12-digit RRN.
+ */
+function findReference(
+  description: string,
+  nmid: string | undefined,
+): string | undefined {
+  const labelled = description.match(REFERENCE_PATTERN)?.[1];
+
+  if (labelled) {
+    return labelled.toUpperCase();
+  }
+
+  const segment = description
+    .split("|")
+    .map((part) => part.trim())
+    .find(
+      (part) =>
+        /^[A-Z0-9]{8,}$/i.test(part) &&
+        /\d/.test(part) &&
+        part.toUpperCase() !== nmid,
+    );
+
+  return segment?.toUpperCase() ?? description.match(RRN_PATTERN)?.[1];
+}
+
+function rupiah(value: unknown, path: string): bigint {
+  if (value === undefined || value === null || value === "") {
+    return 0n;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return BigInt(Math.round(value));
+  }
+
+  // At most two decimals after the comma, so "10,000" written with comma
+  // thousands is rejected rather than read as 10
+  const match =
+    typeof value === "string"
+      ? value
+          .replace(/rp\.?/i, "")
+          .replace(/\s/g, "")
+          .match(/^(-?)(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?$/)
+      : null;
+
+  if (!match) {
+    throw new OrderKuotaError(
+      `Invalid response at ${path}: expected amount, got ${JSON.stringify(value)}`,
+      "INVALID_RESPONSE",
+      undefined,
+      { path },
+    );
+  }
+
+  const [, sign, whole, fraction = "0"] = match;
+  const rounded =
+    BigInt(whole.replace(/\./g, "")) + (Number(fraction[0]) >= 5 ? 1n : 0n);
+
+  return sign ? -rounded : rounded;
+}
@@ -0,0 +1,281 @@
+import {
+  EndpointClass,
+  Logger,
+  LogLevel,
+  OrderKuotaError,
+  OrderKuotaHooks,
+  RequestHookEvent,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryOptions,
+  TelemetryTracer,
+} from "./types.js";
+
+/** Replacement for secret values in logs, hooks and masked views */
+export const REDACTED = "[REDACTED]";
+
+// Form fields and response keys that carry credentials
+const SENSITIVE_KEYS = new Set([
+  "password",
+  "auth_token",
+  "app_reg_id",
+  "token",
+]);
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// OpenTelemetry SpanKind.CLIENT and SpanStatusCode values
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Replaces password, auth_token, app_reg_id and token values, at any depth,
+ * with "[REDACTED]".
+ *
+ * @param value Payload, response body or log context
+ * @returns Redacted copy of the value
+ */
+export function redact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(redact) as T;
+  }
+
+  if (value === null || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(field),
+    ]),
+  ) as T;
+}
+
+/**
+ * Copies an error with its response body redacted, for hooks.
+ */
+function redactError(error: OrderKuotaError): OrderKuotaError {
+  const copy = new OrderKuotaError(error.message, error.code, error.status, {
+    path: error.path,
+    request: error.request,
+    body: redact(error.body),
+  });
+  copy.stack = error.stack;
+
+  return copy;
+}
+
+/**
+ * Creates a logger that writes one JSON line per entry to the console.
+ *
+ * @param level Lowest level to write (default: 'info')
+ * @returns Logger for the client config
+ */
+export function createConsoleLogger(level: LogLevel = "info"): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const write =
+    (entryLevel: LogLevel) =>
+    (message: string, context?: Record<string, unknown>) => {
+      if (LOG_LEVELS.indexOf(entryLevel) >= threshold) {
+        console[entryLevel](
+          JSON.stringify({
+            ...context,
+            time: new Date().toISOString(),
+            level: entryLevel,
+            message,
+          }),
+        );
+      }
+    };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+/**
+ * Request being observed by a RequestObserver
+ */
+export interface ObservedRequest {
+  /** Reports a successful response */
+  succeed(status: number, body: unknown): void;
+  /** Reports a failure */
+  fail(error: OrderKuotaError): void;
+}
+
+/**
+ * Feeds every request to the configured hooks, logger and telemetry.
+ */
+export class RequestObserver {
+  private readonly hooks: OrderKuotaHooks;
+  private readonly logger?: Logger;
+  private readonly tracer?: TelemetryTracer;
+  private readonly requests?: TelemetryCounter;
+  private readonly errors?: TelemetryCounter;
+  private readonly durations?: TelemetryHistogram;
+
+  /**
+   * Create request observer
+   *
+   * @param hooks Lifecycle hooks
+   * @param logger Structured logger
+   * @param telemetry OpenTelemetry-compatible tracer and meter
+   */
+  constructor(
+    hooks: OrderKuotaHooks = {},
+    logger?: Logger,
+    telemetry: TelemetryOptions = {},
+  ) {
+    this.hooks = hooks;
+    this.logger = logger;
+    this.tracer = telemetry.tracer;
+    this.requests = telemetry.meter?.createCounter(
+      "orderkuota.client.requests",
+      { description: "OrderKuota API requests" },
+    );
+    this.errors = telemetry.meter?.createCounter("orderkuota.client.errors", {
+      description: "Failed OrderKuota API requests",
+    });
+    this.durations = telemetry.meter?.createHistogram(
+      "orderkuota.client.duration",
+      { description: "OrderKuota API request duration", unit: "ms" },
+    );
+  }
+
+  /**
+   * Logs a message with redacted context.
+   *
+   * @param level Log level
+   * @param message Log message
+   * @param context Structured fields
+   */
+  log(
+    level: LogLevel,
+    message: string,
+    context?: Record<string, unknown>,
+  ): void {
+    this.logger?.[level](message, context && redact(context));
+  }
+
+  /**
+   * Starts observing a request.
+   *
+   * @param request Method name, endpoint class, URL and form fields
+   * @returns Handle to report the outcome
+   */
+  start(request: {
+    name: string;
+    endpoint: EndpointClass;
+    url: string;
+    payload: Record<string, string>;
+  }): ObservedRequest {
+    const startedAt = new Date();
+    const event: RequestHookEvent = {
+      request: request.name,
+      endpoint: request.endpoint,
+      url: request.url,
+      payload: redact(request.payload),
+      startedAt,
+    };
+    const attributes: TelemetryAttributes = {
+      "orderkuota.request": request.name,
+      "orderkuota.endpoint": request.endpoint,
+    };
+    const span = this.tracer?.startSpan(`OrderKuota ${request.name}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        ...attributes,
+        "http.request.method": "POST",
+        "url.full": request.url,
+      },
+    });
+
+    this.call("onRequest", () => this.hooks.onRequest?.(event));
+    this.log("debug", "OrderKuota request", {
+      request: request.name,
+      endpoint: request.endpoint,
+    });
+
+    const finish = (status?: number): number => {
+      const duration = Date.now() - startedAt.getTime();
+      const outcome =
+        status === undefined
+          ? attributes
+          : { ...attributes, "http.response.status_code": status };
+
+      if (status !== undefined) {
+        span?.setAttribute("http.response.status_code", status);
+      }
+      this.requests?.add(1, outcome);
+      this.durations?.record(duration, outcome);
+      span?.end();
+
+      return duration;
+    };
+
+    return {
+      succeed: (status, body) => {
+        span?.setStatus({ code: SPAN_STATUS_OK });
+        const duration = finish(status);
+
+        this.call("onResponse", () =>
+          this.hooks.onResponse?.({
+            ...event,
+            status,
+            duration,
+            body: redact(body),
+          }),
+        );
+        this.log("debug", "OrderKuota response", {
+          request: request.name,
+          status,
+          duration,
+        });
+      },
+      fail: (error) => {
+        span?.setAttribute("error.type", error.code);
+        span?.recordException(error);
+        span?.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+        this.errors?.add(1, { ...attributes, "error.type": error.code });
+        const duration = finish(error.status);
+
+        this.call("onError", () =>
+          this.hooks.onError?.({
+            ...event,
+            error: redactError(error),
+            status: error.status,
+            duration,
+          }),
+        );
+        this.log(
+          error.code === "ABORTED" ? "info" : "warn",
+          "OrderKuota request failed",
+          {
+            request: request.name,
+            code: error.code,
+            status: error.status,
+            error: error.message,
+            duration,
+          },
+        );
+      },
+    };
+  }
+
+  private call(hook: keyof OrderKuotaHooks, run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      this.log("error", "OrderKuota hook failed", {
+        hook,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
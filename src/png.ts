@@ -0,0 +1,191 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Largest payload of an uncompressed deflate block
+const MAX_STORED_BLOCK = 65535;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0),
+  );
+  let offset = 0;
+
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const typed = concat([
+    Uint8Array.from(type, (char) => char.charCodeAt(0)),
+    data,
+  ]);
+  return concat([uint32(data.length), typed, uint32(crc32(typed))]);
+}
+
+/**
+ * Wraps data in a zlib stream, compressed with CompressionStream where the
+ * runtime has it and stored uncompressed otherwise.
+ */
+async function zlib(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream !== "undefined") {
+    const stream = new Blob([data])
+      .stream()
+      .pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  const blocks: Uint8Array[] = [Uint8Array.of(0x78, 0x01)];
+
+  for (let offset = 0; offset === 0 || offset < data.length;) {
+    const block = data.subarray(offset, offset + MAX_STORED_BLOCK);
+    offset += block.length;
+    const final = offset >= data.length ? 1 : 0;
+    blocks.push(
+      Uint8Array.of(
+        final,
+        block.length & 0xff,
+        block.length >>> 8,
+        ~block.length & 0xff,
+        (~block.length >>> 8) & 0xff,
+      ),
+      block,
+    );
+  }
+  blocks.push(uint32(adler32(data)));
+
+  return concat(blocks);
+}
+
+/**
+ * Parses a "#RGB", "#RGBA", "#RRGGBB" or "#RRGGBBAA" colour.
+ *
+ * @param color Hex colour
+ * @returns Red, green, blue and alpha components
+ * @throws {Error} When the colour is not a hex colour
+ */
+export function parseHexColor(color: string): [number, number, number, number] {
+  let hex = color.replace(/^#/, "");
+
+  if (hex.length === 3 || hex.length === 4) {
+    hex = [...hex].map((digit) => digit + digit).join("");
+  }
+  if (hex.length === 6) {
+    hex += "ff";
+  }
+  if (!/^[0-9a-f]{8}$/i.test(hex)) {
+    throw new Error(`Invalid hex color: ${color}`);
+  }
+
+  const value = parseInt(hex, 16);
+  return [
+    value >>> 24,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+/**
+ * Encodes a two-colour image as a 1-bit indexed PNG.
+ *
+ * @param pixels One byte per pixel, row by row: 1 for dark, 0 for light
+ * @param size Image width and height in pixels
+ * @param light Light colour as RGBA
+ * @param dark Dark colour as RGBA
+ * @returns PNG file contents
+ */
+export async function encodeBitmapPng(
+  pixels: Uint8Array,
+  size: number,
+  light: [number, number, number, number],
+  dark: [number, number, number, number],
+): Promise<Uint8Array> {
+  const rowLength = Math.ceil(size / 8) + 1;
+  const raw = new Uint8Array(rowLength * size);
+
+  // Each row starts with filter type 0 followed by 8 pixels per byte
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (pixels[y * size + x]) {
+        raw[y * rowLength + 1 + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  const header = concat([
+    uint32(size),
+    uint32(size),
+    // Bit depth 1, indexed colour, default compression, filter and interlace
+    Uint8Array.of(1, 3, 0, 0, 0),
+  ]);
+  const parts = [
+    Uint8Array.from(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("PLTE", Uint8Array.of(...light.slice(0, 3), ...dark.slice(0, 3))),
+  ];
+
+  if (light[3] < 255 || dark[3] < 255) {
+    parts.push(chunk("tRNS", Uint8Array.of(light[3], dark[3])));
+  }
+  parts.push(chunk("IDAT", await zlib(raw)), chunk("IEND", new Uint8Array()));
+
+  return concat(parts);
+}
+
+/**
+ * Encodes bytes as base64 without Node.js Buffer.
+ *
+ * @param bytes Data to encode
+ * @returns Base64 text
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 without Node.js Buffer.
+ *
+ * @param text Base64 text
+ * @returns Decoded bytes
+ */
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
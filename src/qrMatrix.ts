@@ -0,0 +1,502 @@
+import { OrderKuotaError } from "./types.js";
+
+type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+/**
+ * QR code modules, row by row, 1 for dark
+ */
+export interface QrMatrix {
+  /** Modules per side */
+  size: number;
+  /** size * size modules */
+  data: Uint8Array;
+}
+
+// Format information bits of each error correction level
+const LEVEL_BITS: Record<ErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Error correction codewords per block, by level and version (index 0 unused)
+const ECC_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+
+// Error correction blocks, by level and version (index 0 unused)
+const BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17,
+    18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25,
+    34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (row, col) => (row + col) % 2 === 0,
+  (row) => row % 2 === 0,
+  (_, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row * col) % 3) + ((row + col) % 2)) % 2 === 0,
+];
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+
+  for (let pos = size - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+/**
+ * Codewords that fit in a symbol of the version, data and error correction
+ * together.
+ */
+function totalCodewords(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    modules -= (25 * count - 10) * count - 55;
+
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return Math.floor(modules / 8);
+}
+
+function dataCodewords(version: number, level: ErrorCorrectionLevel): number {
+  return (
+    totalCodewords(version) -
+    ECC_PER_BLOCK[level][version] * BLOCKS[level][version]
+  );
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const divisor = new Array<number>(degree - 1).fill(0).concat(1);
+  let root = 1;
+
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < divisor.length; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < divisor.length) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const remainder = new Array<number>(divisor.length).fill(0);
+
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return remainder;
+}
+
+/**
+ * Encodes the bytes as a single byte-mode segment, padded to the capacity.
+ */
+function encodeData(
+  bytes: Uint8Array,
+  version: number,
+  level: ErrorCorrectionLevel,
+): number[] {
+  const capacity = dataCodewords(version, level) * 8;
+  const bits: number[] = [];
+  const put = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  put(0b0100, 4);
+  put(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => put(byte, 8));
+  put(0, Math.min(4, capacity - bits.length));
+  put(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit),
+    );
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/**
+ * Splits the data into blocks, appends their error correction codewords and
+ * interleaves the result.
+ */
+function addErrorCorrection(
+  data: number[],
+  version: number,
+  level: ErrorCorrectionLevel,
+): number[] {
+  const blockCount = BLOCKS[level][version];
+  const eccLength = ECC_PER_BLOCK[level][version];
+  const total = totalCodewords(version);
+  const shortBlocks = blockCount - (total % blockCount);
+  const shortLength = Math.floor(total / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+  const blocks: number[][] = [];
+
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(
+      offset,
+      offset + shortLength - eccLength + (i < shortBlocks ? 0 : 1),
+    );
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+
+    // Pad short blocks so every block interleaves at the same index
+    if (i < shortBlocks) {
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+class Grid {
+  readonly data: Uint8Array;
+  readonly reserved: Uint8Array;
+
+  constructor(readonly size: number) {
+    this.data = new Uint8Array(size * size);
+    this.reserved = new Uint8Array(size * size);
+  }
+
+  get(row: number, col: number): number {
+    return this.data[row * this.size + col];
+  }
+
+  set(row: number, col: number, dark: boolean, reserved = true): void {
+    this.data[row * this.size + col] = dark ? 1 : 0;
+    if (reserved) {
+      this.reserved[row * this.size + col] = 1;
+    }
+  }
+
+  isReserved(row: number, col: number): boolean {
+    return this.reserved[row * this.size + col] === 1;
+  }
+}
+
+function drawFunctionPatterns(grid: Grid, version: number): void {
+  const { size } = grid;
+
+  for (let i = 0; i < size; i++) {
+    grid.set(6, i, i % 2 === 0);
+    grid.set(i, 6, i % 2 === 0);
+  }
+
+  for (const [row, col] of [
+    [3, 3],
+    [3, size - 4],
+    [size - 4, 3],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const y = row + dy;
+        const x = col + dx;
+
+        if (y >= 0 && y < size && x >= 0 && x < size) {
+          grid.set(y, x, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+
+  positions.forEach((row, i) =>
+    positions.forEach((col, j) => {
+      // Skip the three corners taken by finder patterns
+      if ((i === 0 && (j === 0 || j === last)) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          grid.set(
+            row + dy,
+            col + dx,
+            Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+          );
+        }
+      }
+    }),
+  );
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      grid.set(b, a, dark);
+      grid.set(a, b, dark);
+    }
+  }
+
+  // Reserve the format areas; drawFormat() fills them per mask
+  drawFormat(grid, "M", 0);
+}
+
+function drawFormat(
+  grid: Grid,
+  level: ErrorCorrectionLevel,
+  mask: number,
+): void {
+  const { size } = grid;
+  const data = (LEVEL_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+
+  for (let i = 0; i < 15; i++) {
+    const dark = ((bits >>> i) & 1) === 1;
+
+    grid.set(i < 6 ? i : i < 8 ? i + 1 : size - 15 + i, 8, dark);
+    grid.set(8, i < 8 ? size - i - 1 : i < 9 ? 7 : 14 - i, dark);
+  }
+  grid.set(size - 8, 8, true);
+}
+
+function drawCodewords(grid: Grid, codewords: number[]): void {
+  const { size } = grid;
+  let bit = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const col = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const row = upward ? size - 1 - vertical : vertical;
+
+        if (!grid.isReserved(row, col)) {
+          const dark =
+            bit < codewords.length * 8 &&
+            ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+          grid.set(row, col, dark, false);
+          bit++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(grid: Grid, mask: number): void {
+  for (let row = 0; row < grid.size; row++) {
+    for (let col = 0; col < grid.size; col++) {
+      if (!grid.isReserved(row, col) && MASKS[mask](row, col)) {
+        grid.data[row * grid.size + col] ^= 1;
+      }
+    }
+  }
+}
+
+/**
+ * Scores a masked symbol with the penalty rules of ISO/IEC 18004, weighted
+ * like the qrcode package so both pick the same mask.
+ */
+function penalty(grid: Grid): number {
+  const { size } = grid;
+  let runs = 0;
+  let blocks = 0;
+  let finders = 0;
+  let dark = 0;
+
+  for (let i = 0; i < size; i++) {
+    let rowRun = 0;
+    let colRun = 0;
+    let rowBits = 0;
+    let colBits = 0;
+
+    for (let j = 0; j < size; j++) {
+      const rowModule = grid.get(i, j);
+      const colModule = grid.get(j, i);
+      dark += rowModule;
+
+      if (j > 0 && rowModule === grid.get(i, j - 1)) {
+        rowRun++;
+      } else {
+        runs += rowRun >= 5 ? 3 + rowRun - 5 : 0;
+        rowRun = 1;
+      }
+      if (j > 0 && colModule === grid.get(j - 1, i)) {
+        colRun++;
+      } else {
+        runs += colRun >= 5 ? 3 + colRun - 5 : 0;
+        colRun = 1;
+      }
+
+      // 1:1:3:1:1 finder-like runs with four light modules on either side
+      rowBits = ((rowBits << 1) & 0x7ff) | rowModule;
+      colBits = ((colBits << 1) & 0x7ff) | colModule;
+      if (j >= 10) {
+        finders += Number(rowBits === 0x5d0 || rowBits === 0x05d);
+        finders += Number(colBits === 0x5d0 || colBits === 0x05d);
+      }
+
+      if (i < size - 1 && j < size - 1) {
+        const square =
+          rowModule +
+          grid.get(i, j + 1) +
+          grid.get(i + 1, j) +
+          grid.get(i + 1, j + 1);
+        blocks += Number(square === 0 || square === 4);
+      }
+    }
+
+    runs += rowRun >= 5 ? 3 + rowRun - 5 : 0;
+    runs += colRun >= 5 ? 3 + colRun - 5 : 0;
+  }
+
+  const balance = Math.abs(Math.ceil((dark * 100) / (size * size) / 5) - 10);
+
+  return runs + blocks * 3 + finders * 40 + balance * 10;
+}
+
+/**
+ * Encodes text as a QR code in byte mode, using the smallest version that
+ * fits and the mask with the lowest penalty.
+ *
+ * @param text Text to encode, as UTF-8
+ * @param level Error correction level
+ * @returns Module matrix
+ * @throws {OrderKuotaError} When the text does not fit in a version 40 symbol
+ */
+export function createQrMatrix(
+  text: string,
+  level: ErrorCorrectionLevel = "M",
+): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+
+  while (
+    4 + (version < 10 ? 8 : 16) + bytes.length * 8 >
+    dataCodewords(version, level) * 8
+  ) {
+    if (++version > 40) {
+      throw new OrderKuotaError(
+        `Text of ${bytes.length} bytes is too long for a QR code`,
+        "QR_GENERATION_FAILED",
+      );
+    }
+  }
+
+  const grid = new Grid(version * 4 + 17);
+  drawFunctionPatterns(grid, version);
+  drawCodewords(
+    grid,
+    addErrorCorrection(encodeData(bytes, version, level), version, level),
+  );
+
+  let best = 0;
+  let lowest = Infinity;
+
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    drawFormat(grid, level, mask);
+    applyMask(grid, mask);
+    const score = penalty(grid);
+    applyMask(grid, mask);
+
+    if (score < lowest) {
+      best = mask;
+      lowest = score;
+    }
+  }
+
+  drawFormat(grid, level, best);
+  applyMask(grid, best);
+
+  return { size: grid.size, data: grid.data };
+}
@@ -0,0 +1,303 @@
+import {
+  DecodedQris,
+  DynamicQrisOptions,
+  OrderKuotaError,
+  QrisTag,
+  QrisTip,
+} from "./types.js";
+
+// Tags whose value is itself a list of TLV data objects
+const TEMPLATE_TAG_MIN = 26;
+const TEMPLATE_TAG_MAX = 51;
+const ADDITIONAL_DATA_TAG = "62";
+const LANGUAGE_TEMPLATE_TAG = "64";
+
+const POINT_OF_INITIATION_DYNAMIC = "12";
+// Tag 54 holds at most 13 characters
+const MAX_AMOUNT = 9_999_999_999_999;
+// TLV lengths are two decimal digits
+const MAX_VALUE_LENGTH = 99;
+const QRIS_DOMAIN = "ID.CO.QRIS.WWW";
+
+function isMerchantAccount(id: string): boolean {
+  const numericId = Number(id);
+  return numericId >= TEMPLATE_TAG_MIN && numericId <= TEMPLATE_TAG_MAX;
+}
+
+function isTemplateTag(id: string): boolean {
+  return (
+    isMerchantAccount(id) ||
+    id === ADDITIONAL_DATA_TAG ||
+    id === LANGUAGE_TEMPLATE_TAG
+  );
+}
+
+/**
+ * Calculates CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) checksum.
+ *
+ * @param data Payload to checksum, including the "6304" CRC tag header
+ * @returns Four-character uppercase hexadecimal checksum
+ */
+export function crc16(data: string): string {
+  let crc = 0xffff;
+
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+  }
+
+  return (crc & 0xffff).toString(16).toUpperCase().padStart(4, "0");
+}
+
+/**
+ * Parses an EMVCo TLV payload into a tag tree.
+ *
+ * @param payload Raw TLV string
+ * @param nested Whether the payload is the value of a template tag
+ * @returns Parsed tags in payload order
+ * @throws {OrderKuotaError} When the payload is not valid TLV
+ */
+export function parseQrisTags(payload: string, nested = false): QrisTag[] {
+  const tags: QrisTag[] = [];
+  let offset = 0;
+
+  while (offset < payload.length) {
+    const id = payload.substring(offset, offset + 2);
+    const length = Number(payload.substring(offset + 2, offset + 4));
+
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length)) {
+      throw new OrderKuotaError(
+        `Malformed QRIS data object at position ${offset}`,
+        "INVALID_QRIS",
+      );
+    }
+
+    const value = payload.substring(offset + 4, offset + 4 + length);
+
+    if (value.length !== length) {
+      throw new OrderKuotaError(
+        `QRIS tag ${id} is truncated (expected ${length} characters)`,
+        "INVALID_QRIS",
+      );
+    }
+
+    const tag: QrisTag = { id, value };
+
+    if (!nested && isTemplateTag(id)) {
+      tag.children = parseQrisTags(value, true);
+    }
+
+    tags.push(tag);
+    offset += 4 + length;
+  }
+
+  return tags;
+}
+
+/**
+ * Serializes a tag list back into an EMVCo TLV payload.
+ *
+ * @param tags Tags to serialize
+ * @returns TLV string
+ * @throws {OrderKuotaError} When a value is longer than 99 characters
+ */
+export function serializeQrisTags(tags: QrisTag[]): string {
+  return tags
+    .map((tag) => {
+      const value = tag.children ? serializeQrisTags(tag.children) : tag.value;
+
+      if (value.length > MAX_VALUE_LENGTH) {
+        throw new OrderKuotaError(
+          `QRIS tag ${tag.id} is ${value.length} characters long (at most ${MAX_VALUE_LENGTH} allowed)`,
+          "INVALID_QRIS",
+        );
+      }
+
+      return `${tag.id}${value.length.toString().padStart(2, "0")}${value}`;
+    })
+    .join("");
+}
+
+function findTag(tags: QrisTag[], id: string): QrisTag | undefined {
+  return tags.find((tag) => tag.id === id);
+}
+
+function formatAmount(amount: number, label: string): string {
+  if (!Number.isInteger(amount) || amount <= 0 || amount > MAX_AMOUNT) {
+    throw new OrderKuotaError(
+      `${label} must be a whole number of rupiah between 1 and ${MAX_AMOUNT}`,
+      "INVALID_AMOUNT",
+    );
+  }
+
+  return amount.toString();
+}
+
+function formatPercentage(percentage: number): string {
+  if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+    throw new OrderKuotaError(
+      "Percentage fee must be greater than 0 and at most 100",
+      "INVALID_ARGUMENT",
+    );
+  }
+
+  return percentage.toString();
+}
+
+function decodeTip(tags: QrisTag[]): QrisTip | undefined {
+  const indicator = findTag(tags, "55")?.value;
+
+  switch (indicator) {
+    case "01":
+      return { type: "prompt" };
+    case "02":
+      return { type: "fixed", value: Number(findTag(tags, "56")?.value) };
+    case "03":
+      return { type: "percentage", value: Number(findTag(tags, "57")?.value) };
+    default:
+      return undefined;
+  }
+}
+
+function encodeTip(tip: QrisTip): QrisTag[] {
+  switch (tip.type) {
+    case "prompt":
+      return [{ id: "55", value: "01" }];
+    case "fixed":
+      return [
+        { id: "55", value: "02" },
+        { id: "56", value: formatAmount(tip.value, "Fixed fee") },
+      ];
+    case "percentage":
+      return [
+        { id: "55", value: "03" },
+        { id: "57", value: formatPercentage(tip.value) },
+      ];
+  }
+}
+
+/**
+ * Parses and validates a QRIS string, including its CRC16 checksum.
+ *
+ * @param qrisString QRIS payload to decode
+ * @returns Decoded merchant and payment information
+ * @throws {OrderKuotaError} When the payload is malformed or the checksum does not match
+ */
+export function decodeQris(qrisString: string): DecodedQris {
+  const payload = qrisString?.trim();
+
+  if (!payload) {
+    throw new OrderKuotaError("QRIS string is required", "INVALID_QRIS");
+  }
+
+  const tags = parseQrisTags(payload);
+  const crcTag = tags[tags.length - 1];
+
+  if (crcTag?.id !== "63" || crcTag.value.length !== 4) {
+    throw new OrderKuotaError(
+      "QRIS string must end with a CRC16 tag (63)",
+      "INVALID_QRIS",
+    );
+  }
+
+  const expectedCrc = crc16(payload.slice(0, -4));
+
+  if (crcTag.value.toUpperCase() !== expectedCrc) {
+    throw new OrderKuotaError(
+      `QRIS checksum mismatch (expected ${expectedCrc}, got ${crcTag.value})`,
+      "INVALID_QRIS",
+    );
+  }
+
+  const required = (id: string, name: string): string => {
+    const value = findTag(tags, id)?.value;
+    if (!value) {
+      throw new OrderKuotaError(
+        `QRIS is missing ${name} (tag ${id})`,
+        "INVALID_QRIS",
+      );
+    }
+    return value;
+  };
+
+  if (required("00", "payload format indicator") !== "01") {
+    throw new OrderKuotaError(
+      "Unsupported QRIS payload format indicator",
+      "INVALID_QRIS",
+    );
+  }
+
+  const merchantAccounts = tags.filter(
+    (tag) => tag.children && isMerchantAccount(tag.id),
+  );
+  const qrisTemplate = merchantAccounts.find(
+    (tag) => findTag(tag.children!, "00")?.value === QRIS_DOMAIN,
+  );
+  const acquirerTemplate = merchantAccounts.find((tag) => tag !== qrisTemplate);
+  const amount = findTag(tags, "54")?.value;
+
+  return {
+    type:
+      findTag(tags, "01")?.value === POINT_OF_INITIATION_DYNAMIC
+        ? "dynamic"
+        : "static",
+    merchantName: required("59", "merchant name"),
+    merchantCity: required("60", "merchant city"),
+    postalCode: findTag(tags, "61")?.value,
+    nmid: qrisTemplate && findTag(qrisTemplate.children!, "02")?.value,
+    acquirer:
+      acquirerTemplate && findTag(acquirerTemplate.children!, "00")?.value,
+    merchantCategoryCode: required("52", "merchant category code"),
+    currency: required("53", "transaction currency"),
+    countryCode: required("58", "country code"),
+    amount: amount ? Number(amount) : undefined,
+    tip: decodeTip(tags),
+    crc: crcTag.value.toUpperCase(),
+    tags,
+  };
+}
+
+/**
+ * Checks whether a string is a well-formed QRIS payload with a valid checksum.
+ *
+ * @param qrisString QRIS payload to check
+ * @returns True if the payload decodes successfully
+ */
+export function isValidQris(qrisString: string): boolean {
+  try {
+    decodeQris(qrisString);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts a static merchant QRIS into a dynamic QRIS for a specific amount.
+ *
+ * @param baseQrString Static QRIS string printed on the merchant sticker
+ * @param options Amount and optional tip configuration
+ * @returns Dynamic QRIS string with recomputed CRC16
+ * @throws {OrderKuotaError} When the base QRIS is invalid or the amount is not a positive whole number of at most 13 digits, or INVALID_ARGUMENT when a percentage tip is not above 0 and at most 100
+ */
+export function createDynamicQris(
+  baseQrString: string,
+  options: DynamicQrisOptions,
+): string {
+  const amount = formatAmount(options.amount, "Amount");
+
+  const { tags } = decodeQris(baseQrString);
+  const replacedIds = new Set(["01", "54", "55", "56", "57", "63"]);
+
+  const dynamicTags: QrisTag[] = [
+    ...tags.filter((tag) => !replacedIds.has(tag.id)),
+    { id: "01", value: POINT_OF_INITIATION_DYNAMIC },
+    { id: "54", value: amount },
+    ...(options.tip ? encodeTip(options.tip) : []),
+  ].sort((a, b) => Number(a.id) - Number(b.id));
+
+  const payload = `${serializeQrisTags(dynamicTags)}6304`;
+  return `${payload}${crc16(payload)}`;
+}
@@ -0,0 +1,359 @@
+import type OrderKuota from "./OrderKuota.js";
+import {
+  ExpectedPayment,
+  QrisTransaction,
+  ReconcileHistoryOptions,
+  ReconcileOptions,
+  ReconciledPayment,
+  ReconciliationCsvOptions,
+  ReconciliationDay,
+  ReconciliationReport,
+} from "./types.js";
+import {
+  formatCsv,
+  formatOrderKuotaDate,
+  parseOrderKuotaDate,
+} from "./utils.js";
+
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/**
+ * Compares expected payments against QRIS credits.
+ *
+ * Payments are settled earliest deadline first: each takes the oldest unused
+ * credit of exactly its amount inside its window. Payments left over take the
+ * closest unused credit within the mismatch tolerance, which is off by
+ * default. Debits are ignored, and credits with an unparseable date never
+ * match, so they are reported as unexpected under the "unknown" day.
+ *
+ * @example
+ * ```typescript
+ * const report = reconcile(orders.map((order) => ({
+ *   id: order.id,
+ *   amount: order.total,
+ *   from: order.createdAt,
+ *   to: order.expiresAt,
+ * })), transactions);
+ *
+ * console.log(report.missing.map((payment) => payment.id));
+ * ```
+ *
+ * @param expected Payments your orders expect
+ * @param transactions QRIS mutations covering the same period
+ * @param options Clock skew and mismatch tolerance
+ * @returns Matched, amount-mismatch, missing and unexpected buckets with daily totals
+ */
+export function reconcile(
+  expected: ExpectedPayment[],
+  transactions: QrisTransaction[],
+  options: ReconcileOptions = {},
+): ReconciliationReport {
+  const clockSkew = options.clockSkew ?? 60000;
+  const tolerance = options.mismatchTolerance ?? 0;
+  const credits = transactions
+    .filter((transaction) => transaction.status === "IN")
+    .filter((transaction) => transaction.amount > 0)
+    .sort((a, b) => {
+      const [timeA, timeB] = [timeOf(a), timeOf(b)];
+      return timeA === timeB ? 0 : timeA - timeB;
+    });
+  const used = new Set<QrisTransaction>();
+  const inWindow = (payment: ExpectedPayment, transaction: QrisTransaction) => {
+    const time = timeOf(transaction);
+    return (
+      time >= payment.from.getTime() - clockSkew && time <= payment.to.getTime()
+    );
+  };
+  const pair = (
+    payment: ExpectedPayment,
+    transaction: QrisTransaction,
+  ): ReconciledPayment => {
+    used.add(transaction);
+    return {
+      expected: payment,
+      transaction,
+      difference: transaction.amount - payment.amount,
+    };
+  };
+
+  const matched: ReconciledPayment[] = [];
+  const amountMismatch: ReconciledPayment[] = [];
+  let pending = [...expected].sort((a, b) => a.to.getTime() - b.to.getTime());
+
+  pending = pending.filter((payment) => {
+    const transaction = credits.find(
+      (credit) =>
+        !used.has(credit) &&
+        credit.amount === payment.amount &&
+        inWindow(payment, credit),
+    );
+
+    if (transaction) {
+      matched.push(pair(payment, transaction));
+    }
+    return !transaction;
+  });
+
+  const missing = pending.filter((payment) => {
+    let closest: QrisTransaction | undefined;
+
+    for (const credit of credits) {
+      const difference = Math.abs(credit.amount - payment.amount);
+
+      if (
+        !used.has(credit) &&
+        inWindow(payment, credit) &&
+        difference <= payment.amount * tolerance &&
+        (!closest || difference < Math.abs(closest.amount - payment.amount))
+      ) {
+        closest = credit;
+      }
+    }
+
+    if (closest) {
+      amountMismatch.push(pair(payment, closest));
+    }
+    return !closest;
+  });
+
+  const unexpected = credits.filter((credit) => !used.has(credit));
+
+  return {
+    matched,
+    amountMismatch,
+    missing,
+    unexpected,
+    days: dailyTotals(expected, credits, {
+      matched,
+      amountMismatch,
+      missing,
+      unexpected,
+    }),
+  };
+}
+
+/**
+ * Fetches QRIS history for a date range and reconciles it against expected
+ * payments.
+ *
+ * @param client Authenticated OrderKuota client
+ * @param expected Payments your orders expect
+ * @param options History range and type, paging limit, clock skew and mismatch tolerance
+ * @returns Matched, amount-mismatch, missing and unexpected buckets with daily totals
+ * @throws {OrderKuotaError} When a history request fails
+ */
+export async function reconcileHistory(
+  client: Pick<OrderKuota, "history">,
+  expected: ExpectedPayment[],
+  options: ReconcileHistoryOptions,
+): Promise<ReconciliationReport> {
+  const transactions: QrisTransaction[] = [];
+
+  for await (const transaction of client.history(options)) {
+    transactions.push(transaction);
+  }
+
+  return reconcile(expected, transactions, options);
+}
+
+/**
+ * Serializes a reconciliation report as JSON, with dates in ISO 8601.
+ *
+ * @param report Reconciliation report
+ * @returns Indented JSON text
+ */
+export function reconciliationToJson(report: ReconciliationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Exports a reconciliation report as CSV: one row per payment or credit
+ * tagged with its bucket, or one row per day followed by a total row.
+ *
+ * @param report Reconciliation report
+ * @param options Table, Excel compatibility and delimiter
+ * @returns CSV text
+ */
+export function reconciliationToCsv(
+  report: ReconciliationReport,
+  options: ReconciliationCsvOptions = {},
+): string {
+  if (options.table === "days") {
+    const total = report.days.reduce(
+      (sum, day) => {
+        for (const key of Object.keys(sum) as (keyof typeof sum)[]) {
+          sum[key] += day[key];
+        }
+        return sum;
+      },
+      {
+        expected: 0,
+        received: 0,
+        fees: 0,
+        net: 0,
+        matched: 0,
+        amountMismatch: 0,
+        missing: 0,
+        unexpected: 0,
+      },
+    );
+    const row = (date: string, day: typeof total) => [
+      date,
+      day.expected,
+      day.received,
+      day.fees,
+      day.net,
+      day.matched,
+      day.amountMismatch,
+      day.missing,
+      day.unexpected,
+    ];
+
+    return formatCsv(
+      [
+        [
+          "date",
+          "expected",
+          "received",
+          "fees",
+          "net",
+          "matched",
+          "amount_mismatch",
+          "missing",
+          "unexpected",
+        ],
+        ...report.days.map((day) => row(day.date, day)),
+        row("total", total),
+      ],
+      options,
+    );
+  }
+
+  const paymentColumns = (payment?: ExpectedPayment) => [
+    payment?.id ?? "",
+    payment?.amount ?? "",
+    payment ? formatWib(payment.from) : "",
+    payment ? formatWib(payment.to) : "",
+  ];
+  const transactionColumns = (transaction?: QrisTransaction) => {
+    const date = transaction && parseOrderKuotaDate(transaction.date);
+    return [
+      transaction?.id ?? "",
+      date ? formatWib(date) : (transaction?.date ?? ""),
+      transaction?.amount ?? "",
+      transaction?.fee ?? "",
+      transaction ? transaction.amount - transaction.fee : "",
+      transaction?.brand?.name ?? "",
+      transaction?.description ?? "",
+    ];
+  };
+  const paired = (bucket: string, payment: ReconciledPayment) => [
+    bucket,
+    ...paymentColumns(payment.expected),
+    ...transactionColumns(payment.transaction),
+    payment.difference,
+  ];
+
+  return formatCsv(
+    [
+      [
+        "bucket",
+        "expected_id",
+        "expected_amount",
+        "window_from",
+        "window_to",
+        "transaction_id",
+        "transaction_date",
+        "amount",
+        "fee",
+        "net",
+        "brand",
+        "description",
+        "difference",
+      ],
+      ...report.matched.map((payment) => paired("matched", payment)),
+      ...report.amountMismatch.map((payment) =>
+        paired("amount_mismatch", payment),
+      ),
+      ...report.missing.map((payment) => [
+        "missing",
+        ...paymentColumns(payment),
+        ...transactionColumns(),
+        "",
+      ]),
+      ...report.unexpected.map((transaction) => [
+        "unexpected",
+        ...paymentColumns(),
+        ...transactionColumns(transaction),
+        "",
+      ]),
+    ],
+    options,
+  );
+}
+
+function dailyTotals(
+  expected: ExpectedPayment[],
+  credits: QrisTransaction[],
+  buckets: Omit<ReconciliationReport, "days">,
+): ReconciliationDay[] {
+  const days = new Map<string, ReconciliationDay>();
+  const day = (date: Date | undefined) => {
+    const key = date ? formatOrderKuotaDate(date) : "unknown";
+    let entry = days.get(key);
+
+    if (!entry) {
+      entry = {
+        date: key,
+        expected: 0,
+        received: 0,
+        fees: 0,
+        net: 0,
+        matched: 0,
+        amountMismatch: 0,
+        missing: 0,
+        unexpected: 0,
+      };
+      days.set(key, entry);
+    }
+    return entry;
+  };
+  const dateOf = (transaction: QrisTransaction) =>
+    parseOrderKuotaDate(transaction.date);
+
+  for (const payment of expected) {
+    day(payment.from).expected += payment.amount;
+  }
+
+  for (const credit of credits) {
+    const entry = day(dateOf(credit));
+    entry.received += credit.amount;
+    entry.fees += credit.fee;
+    entry.net += credit.amount - credit.fee;
+  }
+
+  buckets.matched.forEach(
+    (payment) => day(dateOf(payment.transaction)).matched++,
+  );
+  buckets.amountMismatch.forEach(
+    (payment) => day(dateOf(payment.transaction)).amountMismatch++,
+  );
+  buckets.missing.forEach((payment) => day(payment.from).missing++);
+  buckets.unexpected.forEach((credit) => day(dateOf(credit)).unexpected++);
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Unparseable dates sort after every other credit and fall outside any window
+function timeOf(transaction: QrisTransaction): number {
+  return (
+    parseOrderKuotaDate(transaction.date)?.getTime() ?? Number.POSITIVE_INFINITY
+  );
+}
+
+function formatWib(date: Date): string {
+  return new Date(date.getTime() + WIB_OFFSET_MS)
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ");
+}
@@ -0,0 +1,407 @@
+import { encodeBitmapPng, parseHexColor, toBase64 } from "./png.js";
+import { decodeQris } from "./qris.js";
+import { createQrMatrix } from "./qrMatrix.js";
+import {
+  OrderKuotaError,
+  PaymentCardOptions,
+  QrRenderOptions,
+  SvgRasterizer,
+} from "./types.js";
+import { formatRupiah } from "./utils.js";
+
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+// Size limits, so a bad width, scale or margin cannot exhaust memory. The
+// largest QR code is 177 modules wide, so MAX_SCALE keeps it under MAX_WIDTH.
+const MAX_WIDTH = 4096;
+const MAX_SCALE = 20;
+const MAX_MARGIN = 16;
+
+const HEX_COLOR = /^#?(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Wraps rendering failures in a QR_GENERATION_FAILED error.
+ */
+export function toError(error: unknown): OrderKuotaError {
+  return error instanceof OrderKuotaError
+    ? error
+    : new OrderKuotaError(
+        `Failed to generate QR image: ${error}`,
+        "QR_GENERATION_FAILED",
+      );
+}
+
+/**
+ * Rejects an empty QRIS string.
+ */
+export function assertQrString(qrString: string): void {
+  if (!qrString) {
+    throw new OrderKuotaError(
+      "QRIS string is required",
+      "QR_GENERATION_FAILED",
+    );
+  }
+}
+
+function invalidOption(message: string): OrderKuotaError {
+  return new OrderKuotaError(message, "INVALID_ARGUMENT");
+}
+
+/**
+ * Returns a colour option as "#" followed by hex digits, the only form placed
+ * in SVG attributes.
+ */
+function hexColor(
+  color: string | undefined,
+  fallback: string,
+  name: string,
+): string {
+  if (color === undefined) {
+    return fallback;
+  }
+  if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+    throw invalidOption(`${name} must be a hex colour such as #1A1A1A`);
+  }
+  return color.startsWith("#") ? color : `#${color}`;
+}
+
+function assertSize(
+  value: number | undefined,
+  name: string,
+  max: number,
+  min = 1,
+): void {
+  if (
+    value !== undefined &&
+    (typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > max)
+  ) {
+    throw invalidOption(`${name} must be a number from ${min} to ${max}`);
+  }
+}
+
+/**
+ * Checks the colours and sizes of QR render options before rendering.
+ *
+ * @param options Size, margin and colours
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for a colour that is not hex, or
+ * a width, scale or margin outside the supported range
+ */
+export function assertRenderOptions(options: QrRenderOptions): void {
+  hexColor(options.dark, "#000000", "dark");
+  hexColor(options.light, "#FFFFFF", "light");
+  assertSize(options.width, "width", MAX_WIDTH);
+  assertSize(options.scale, "scale", MAX_SCALE);
+  assertSize(options.margin, "margin", MAX_MARGIN, 0);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(
+    /[<>&"']/g,
+    (char) =>
+      ({
+        "<": "&lt;",
+        ">": "&gt;",
+        "&": "&amp;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[char]!,
+  );
+}
+
+/**
+ * Builds an SVG path covering the dark modules, one subpath per horizontal run.
+ */
+function modulePath(
+  qrString: string,
+  options: QrRenderOptions,
+): {
+  path: string;
+  size: number;
+} {
+  const modules = createQrMatrix(qrString, options.errorCorrectionLevel);
+  const margin = options.margin ?? 1;
+  let path = "";
+
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+
+    while (col < modules.size) {
+      if (!modules.data[row * modules.size + col]) {
+        col++;
+        continue;
+      }
+
+      const start = col;
+      while (col < modules.size && modules.data[row * modules.size + col]) {
+        col++;
+      }
+      path += `M${start + margin} ${row + margin}h${col - start}v1h${start - col}z`;
+    }
+  }
+
+  return { path, size: modules.size + margin * 2 };
+}
+
+function qrSvgElement(
+  qrString: string,
+  options: QrRenderOptions,
+  x: number,
+  y: number,
+  width = options.width,
+): string {
+  const { path, size } = modulePath(qrString, options);
+  const side = width ?? (options.scale ? size * options.scale : 256);
+  const light = hexColor(options.light, "#FFFFFF", "light");
+  const dark = hexColor(options.dark, "#000000", "dark");
+
+  return (
+    `<svg x="${x}" y="${y}" width="${side}" height="${side}" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="${light}"/>` +
+    `<path d="${path}" fill="${dark}"/>` +
+    `</svg>`
+  );
+}
+
+/**
+ * Renders a QRIS string as a PNG image without Node.js modules, for edge
+ * runtimes and browsers.
+ *
+ * @param qrString QRIS string to encode
+ * @param options Size, margin and colours
+ * @returns PNG file contents
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for invalid colours or sizes, or
+ * when the QR code cannot be generated
+ */
+export async function renderQrPngBytes(
+  qrString: string,
+  options: QrRenderOptions = {},
+): Promise<Uint8Array> {
+  try {
+    assertQrString(qrString);
+    assertRenderOptions(options);
+
+    const modules = createQrMatrix(qrString, options.errorCorrectionLevel);
+    const margin = options.margin ?? 1;
+    const modulesWide = modules.size + margin * 2;
+    const width =
+      options.width ?? (options.scale ? modulesWide * options.scale : 256);
+    // Same scaling as the qrcode package, so both renderers draw alike
+    const scale = width >= modulesWide ? width / modulesWide : 4;
+    const size = Math.floor(modulesWide * scale);
+    const scaledMargin = margin * scale;
+    const pixels = new Uint8Array(size * size);
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (
+          y >= scaledMargin &&
+          x >= scaledMargin &&
+          y < size - scaledMargin &&
+          x < size - scaledMargin
+        ) {
+          const row = Math.floor((y - scaledMargin) / scale);
+          const col = Math.floor((x - scaledMargin) / scale);
+          pixels[y * size + x] = modules.data[row * modules.size + col];
+        }
+      }
+    }
+
+    return await encodeBitmapPng(
+      pixels,
+      size,
+      parseHexColor(options.light ?? "#FFFFFF"),
+      parseHexColor(options.dark ?? "#000000"),
+    );
+  } catch (error) {
+    throw toError(error);
+  }
+}
+
+/**
+ * Renders a QRIS string as a PNG data URL without Node.js modules.
+ *
+ * @param qrString QRIS string to encode
+ * @param options Size, margin and colours
+ * @returns "data:image/png;base64,..." URL
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for invalid colours or sizes, or
+ * when the QR code cannot be generated
+ */
+export async function renderQrDataUrl(
+  qrString: string,
+  options: QrRenderOptions = {},
+): Promise<string> {
+  const png = await renderQrPngBytes(qrString, options);
+  return `data:image/png;base64,${toBase64(png)}`;
+}
+
+/**
+ * Renders a QRIS string as SVG markup.
+ *
+ * @param qrString QRIS string to encode
+ * @param options Size, margin and colours
+ * @returns Standalone SVG document
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for invalid colours or sizes, or
+ * when the QR code cannot be generated
+ */
+export function renderQrSvg(
+  qrString: string,
+  options: QrRenderOptions = {},
+): string {
+  try {
+    assertQrString(qrString);
+    assertRenderOptions(options);
+
+    return qrSvgElement(qrString, options, 0, 0).replace(
+      "<svg ",
+      '<svg xmlns="http://www.w3.org/2000/svg" ',
+    );
+  } catch (error) {
+    throw toError(error);
+  }
+}
+
+function defaultExpiryLabel(remainingMs: number, expiresAt: Date): string {
+  const wib = new Date(expiresAt.getTime() + WIB_OFFSET_MS);
+  const time = wib.toISOString().slice(11, 16);
+
+  if (remainingMs <= 0) {
+    return `Expired at ${time} WIB`;
+  }
+
+  const minutes = Math.ceil(remainingMs / 60000);
+  return `Pay within ${minutes} minute${minutes === 1 ? "" : "s"} (until ${time} WIB)`;
+}
+
+/**
+ * Renders a payment card: logo area, merchant name, QR code, formatted amount
+ * and expiry line in one SVG, ready to send to customers.
+ *
+ * Merchant name and amount are read from the QRIS when not given.
+ *
+ * @param qrString QRIS string to encode
+ * @param options Card text, logo and size
+ * @returns Standalone SVG document
+ * @throws {OrderKuotaError} INVALID_ARGUMENT for an invalid accent colour or
+ * width, or when the QR code cannot be generated
+ */
+export function renderPaymentCard(
+  qrString: string,
+  options: PaymentCardOptions = {},
+): string {
+  try {
+    assertQrString(qrString);
+    assertSize(options.width, "width", MAX_WIDTH);
+
+    let decoded: { merchantName?: string; amount?: number } = {};
+    try {
+      decoded = decodeQris(qrString);
+    } catch {
+      // Not a QRIS payload; render without the decoded details
+    }
+
+    const width = options.width ?? 360;
+    const accent = hexColor(options.accent, "#E2231A", "accent");
+    const padding = Math.round(width * 0.08);
+    const qrSize = width - padding * 2;
+    const merchantName = options.merchantName ?? decoded.merchantName;
+    const amount = options.amount ?? decoded.amount;
+    const center = width / 2;
+    const parts: string[] = [];
+    let y = padding;
+
+    // Logo area
+    const logoHeight = Math.round(width * 0.14);
+    if (options.logo) {
+      parts.push(
+        `<image href="${escapeXml(options.logo)}" x="${padding}" y="${y}" width="${qrSize}" height="${logoHeight}" preserveAspectRatio="xMidYMid meet"/>`,
+      );
+    } else {
+      parts.push(
+        `<rect x="${padding}" y="${y}" width="${qrSize}" height="${logoHeight}" rx="8" fill="${accent}"/>`,
+        `<text x="${center}" y="${y + logoHeight * 0.7}" text-anchor="middle" font-size="${Math.round(logoHeight * 0.6)}" font-weight="700" fill="#FFFFFF">QRIS</text>`,
+      );
+    }
+    y += logoHeight + padding * 0.75;
+
+    if (merchantName) {
+      const fontSize = Math.round(width * 0.055);
+      y += fontSize;
+      parts.push(
+        `<text x="${center}" y="${y}" text-anchor="middle" font-size="${fontSize}" font-weight="700" fill="#111111">${escapeXml(merchantName)}</text>`,
+      );
+      y += padding * 0.5;
+    }
+
+    parts.push(qrSvgElement(qrString, { margin: 1 }, padding, y, qrSize));
+    y += qrSize;
+
+    if (amount !== undefined) {
+      const fontSize = Math.round(width * 0.08);
+      y += padding * 0.5 + fontSize;
+      parts.push(
+        `<text x="${center}" y="${y}" text-anchor="middle" font-size="${fontSize}" font-weight="700" fill="#111111">${escapeXml(formatRupiah(amount))}</text>`,
+      );
+    }
+
+    if (options.expiresAt) {
+      const fontSize = Math.round(width * 0.04);
+      const now = options.now ?? new Date();
+      const label = (options.expiryLabel ?? defaultExpiryLabel)(
+        options.expiresAt.getTime() - now.getTime(),
+        options.expiresAt,
+      );
+      y += padding * 0.5 + fontSize;
+      parts.push(
+        `<text x="${center}" y="${y}" text-anchor="middle" font-size="${fontSize}" fill="#555555">${escapeXml(label)}</text>`,
+      );
+    }
+
+    const height = Math.round(y + padding);
+
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">` +
+      `<rect width="${width}" height="${height}" rx="16" fill="#FFFFFF" stroke="#E5E5E5"/>` +
+      parts.join("") +
+      `</svg>`
+    );
+  } catch (error) {
+    throw toError(error);
+  }
+}
+
+/**
+ * Converts the payment card to PNG or another raster format with a
+ * rasterizer you supply. Payment cards are only rendered as SVG by this
+ * library, because text layout needs a font renderer it does not bundle.
+ *
+ * @example
+ * ```typescript
+ * import { Resvg } from '@resvg/resvg-js';
+ *
+ * const png = await rasterizePaymentCard(qrString, { expiresAt }, async (svg, width) =>
+ *   new Resvg(svg, { fitTo: { mode: 'width', value: width } }).render().asPng(),
+ * );
+ * ```
+ *
+ * @param qrString QRIS string to encode
+ * @param options Card text, logo and size
+ * @param rasterize SVG to image converter
+ * @returns Image file contents returned by the rasterizer
+ * @throws {OrderKuotaError} When the card cannot be generated or rasterized
+ */
+export async function rasterizePaymentCard(
+  qrString: string,
+  options: PaymentCardOptions,
+  rasterize: SvgRasterizer,
+): Promise<Uint8Array> {
+  const svg = renderPaymentCard(qrString, options);
+
+  try {
+    return await rasterize(svg, options.width ?? 360);
+  } catch (error) {
+    throw toError(error);
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  OrderKuotaError,
+  RetryOptions,
+  TransportRequest,
+  TransportResponse,
+} from "./types.js";
+import { sleep } from "./utils.js";
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 2,
+  minDelay: 500,
+  maxDelay: 5000,
+  factor: 2,
+};
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Fills in the default retry policy.
+ *
+ * @param retry Retry options, or false to disable retries
+ * @returns Complete retry policy, or false
+ */
+export function resolveRetry(
+  retry?: RetryOptions | false,
+): Required<RetryOptions> | false {
+  return retry === false ? false : { ...DEFAULT_RETRY, ...retry };
+}
+
+/**
+ * Sends a request, retrying idempotent ones with exponential backoff on
+ * network errors, timeouts, 429 and 5xx.
+ *
+ * @param request Request to send
+ * @param retry Retry policy, or false to send once
+ * @param sendOnce Performs a single attempt
+ * @returns Response of the last attempt
+ * @throws {OrderKuotaError} When the last attempt fails or the request is aborted during backoff
+ */
+export async function sendWithRetry(
+  request: TransportRequest,
+  retry: Required<RetryOptions> | false,
+  sendOnce: () => Promise<TransportResponse>,
+): Promise<TransportResponse> {
+  const retries = request.idempotent && retry ? retry.retries : 0;
+  const backoff = (attempt: number) => {
+    const { minDelay, maxDelay, factor } = retry as Required<RetryOptions>;
+    return Math.min(maxDelay, minDelay * factor ** attempt);
+  };
+  let attempt = 0;
+
+  while (true) {
+    try {
+      const response = await sendOnce();
+
+      if (attempt < retries && isRetryableStatus(response.status)) {
+        await sleep(backoff(attempt++), request.signal);
+        continue;
+      }
+
+      return response;
+    } catch (error) {
+      const retryable =
+        error instanceof OrderKuotaError &&
+        (error.code === "NETWORK_ERROR" || error.code === "TIMEOUT");
+
+      if (attempt < retries && retryable) {
+        await sleep(backoff(attempt++), request.signal);
+        continue;
+      }
+
+      throw error;
+    }
+  }
+}
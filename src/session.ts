@@ -0,0 +1,64 @@
+import { Session, SessionStore } from "./types.js";
+import { readJsonFile, writeJsonFile } from "./files.js";
+import { createLock } from "./utils.js";
+
+/**
+ * In-memory session store. Sessions are lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, Session>();
+
+  async load(username: string): Promise<Session | undefined> {
+    return this.sessions.get(username);
+  }
+
+  async save(session: Session): Promise<void> {
+    this.sessions.set(session.username, session);
+  }
+
+  async clear(username: string): Promise<void> {
+    this.sessions.delete(username);
+  }
+}
+
+/**
+ * JSON file backed session store. One file can hold sessions for several accounts.
+ *
+ * The file contains authentication tokens and is written with owner-only
+ * permissions; keep it out of version control.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly path: string;
+  private readonly lock = createLock();
+
+  /**
+   * @param path Path of the JSON file holding sessions
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private read(): Promise<Record<string, Session>> {
+    return readJsonFile<Record<string, Session>>(this.path, {});
+  }
+
+  load(username: string): Promise<Session | undefined> {
+    return this.lock(async () => (await this.read())[username]);
+  }
+
+  save(session: Session): Promise<void> {
+    return this.lock(async () => {
+      const sessions = await this.read();
+      sessions[session.username] = session;
+      await writeJsonFile(this.path, sessions, 0o600);
+    });
+  }
+
+  clear(username: string): Promise<void> {
+    return this.lock(async () => {
+      const sessions = await this.read();
+      delete sessions[username];
+      await writeJsonFile(this.path, sessions, 0o600);
+    });
+  }
+}
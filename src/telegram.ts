@@ -0,0 +1,181 @@
+import {
+  ChatMessage,
+  ChatTransport,
+  OrderKuotaError,
+  TelegramTransportOptions,
+} from "./types.js";
+import { sleep } from "./utils.js";
+
+/**
+ * Update returned by the Bot API getUpdates method, reduced to the fields used
+ */
+interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    chat: { id: number };
+    from?: { username?: string };
+    text?: string;
+  };
+}
+
+/**
+ * Chat transport for Telegram bots using Bot API long polling.
+ *
+ * @example
+ * ```typescript
+ * const transport = new TelegramTransport({
+ *   token: process.env.TELEGRAM_TOKEN!,
+ *   onError: (error) => console.error('Telegram polling failed', error),
+ * });
+ * ```
+ */
+export class TelegramTransport implements ChatTransport {
+  private readonly token: string;
+  private readonly pollTimeout: number;
+  private readonly retryDelay: number;
+  private readonly apiUrl: string;
+  private readonly fetch: (url: string, init: RequestInit) => Promise<Response>;
+  private readonly onError?: (error: unknown) => void;
+  private controller?: AbortController;
+  private polling?: Promise<void>;
+
+  /**
+   * Create Telegram transport
+   *
+   * @param options Bot token, polling and API options
+   * @throws {OrderKuotaError} When the token is missing
+   */
+  constructor(options: TelegramTransportOptions) {
+    if (!options.token) {
+      throw new OrderKuotaError(
+        "Telegram bot token is required",
+        "MISSING_CONFIG",
+      );
+    }
+
+    this.token = options.token;
+    this.pollTimeout = options.pollTimeout ?? 30;
+    this.retryDelay = options.retryDelay ?? 5000;
+    this.apiUrl = (options.apiUrl ?? "https://api.telegram.org").replace(
+      /\/+$/,
+      "",
+    );
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    this.onError = options.onError;
+  }
+
+  async start(
+    onMessage: (message: ChatMessage) => Promise<void>,
+  ): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.polling = this.poll(onMessage, controller.signal);
+  }
+
+  async stop(): Promise<void> {
+    this.controller?.abort();
+    await this.polling;
+    this.controller = undefined;
+    this.polling = undefined;
+  }
+
+  async sendText(chatId: string, text: string): Promise<void> {
+    await this.call("sendMessage", { chat_id: chatId, text });
+  }
+
+  async sendImage(
+    chatId: string,
+    png: Uint8Array,
+    caption?: string,
+  ): Promise<void> {
+    const form = new FormData();
+    form.append("chat_id", chatId);
+    form.append("photo", new Blob([png], { type: "image/png" }), "qris.png");
+
+    if (caption) {
+      form.append("caption", caption);
+    }
+
+    await this.call("sendPhoto", form);
+  }
+
+  private async poll(
+    onMessage: (message: ChatMessage) => Promise<void>,
+    signal: AbortSignal,
+  ): Promise<void> {
+    let offset: number | undefined;
+
+    while (!signal.aborted) {
+      try {
+        const updates = await this.call<TelegramUpdate[]>(
+          "getUpdates",
+          { offset, timeout: this.pollTimeout, allowed_updates: ["message"] },
+          signal,
+        );
+
+        for (const update of updates) {
+          offset = update.update_id + 1;
+
+          if (update.message?.text) {
+            await onMessage({
+              chatId: String(update.message.chat.id),
+              text: update.message.text,
+              sender: update.message.from?.username,
+            });
+          }
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+
+        this.onError?.(error);
+        await sleep(this.retryDelay, signal).catch(() => undefined);
+      }
+    }
+  }
+
+  private async call<T = unknown>(
+    method: string,
+    body: Record<string, unknown> | FormData,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    let response: Response;
+
+    try {
+      response = await this.fetch(`${this.apiUrl}/bot${this.token}/${method}`, {
+        method: "POST",
+        ...(body instanceof FormData
+          ? { body }
+          : {
+              body: JSON.stringify(body),
+              headers: { "Content-Type": "application/json" },
+            }),
+        signal,
+      });
+    } catch (error) {
+      // The request URL carries the bot token, so only the cause is reported
+      throw new OrderKuotaError(
+        `Telegram ${method} request failed: ${error instanceof Error ? error.message : error}`,
+        "NETWORK_ERROR",
+      );
+    }
+
+    const data = (await response.json().catch(() => undefined)) as
+      { ok?: boolean; result?: T; description?: string } | undefined;
+
+    if (!data?.ok) {
+      throw new OrderKuotaError(
+        `Telegram ${method} failed: ${data?.description ?? `HTTP ${response.status}`}`,
+        "API_ERROR",
+        response.status,
+      );
+    }
+
+    return data.result as T;
+  }
+}
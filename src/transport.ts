@@ -0,0 +1,105 @@
+import axios, { AxiosError, AxiosInstance } from "axios";
+import {
+  AxiosTransportOptions,
+  OrderKuotaError,
+  RetryOptions,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "./types.js";
+import { resolveRetry, sendWithRetry } from "./retry.js";
+
+/**
+ * Transport built on axios; the default on Node.js.
+ *
+ * Supports per-request timeouts, abort signals, proxies and custom agents, and
+ * retries idempotent reads with exponential backoff on network errors, 429 and 5xx.
+ *
+ * @example
+ * ```typescript
+ * const client = new OrderKuota({
+ *   username: 'your-username',
+ *   password: 'your-password',
+ *   transport: new AxiosTransport({
+ *     timeout: 10000,
+ *     retry: { retries: 3 },
+ *     proxy: { host: '10.0.0.1', port: 3128 },
+ *   }),
+ * });
+ * ```
+ */
+export class AxiosTransport implements Transport {
+  private readonly client: AxiosInstance;
+  private readonly timeout: number;
+  private readonly retry: Required<RetryOptions> | false;
+
+  /**
+   * Create axios transport
+   *
+   * @param options Timeout, retry, proxy and agent options
+   */
+  constructor(options: AxiosTransportOptions = {}) {
+    this.timeout = options.timeout ?? 30000;
+    this.retry = resolveRetry(options.retry);
+    this.client = axios.create({
+      proxy: options.proxy,
+      httpAgent: options.httpAgent,
+      httpsAgent: options.httpsAgent,
+      // Error statuses are handled by the client, not thrown here
+      validateStatus: () => true,
+    });
+  }
+
+  send(request: TransportRequest): Promise<TransportResponse> {
+    return sendWithRetry(request, this.retry, () => this.sendOnce(request));
+  }
+
+  private async sendOnce(
+    request: TransportRequest,
+  ): Promise<TransportResponse> {
+    try {
+      const response = await this.client.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: request.timeout ?? this.timeout,
+        signal: request.signal,
+      });
+
+      return { status: response.status, data: response.data };
+    } catch (error) {
+      throw this.toError(request, error);
+    }
+  }
+
+  private toError(request: TransportRequest, error: unknown): OrderKuotaError {
+    const details = { request: request.name };
+
+    if (axios.isCancel(error) || request.signal?.aborted) {
+      return new OrderKuotaError(
+        "Request was aborted",
+        "ABORTED",
+        undefined,
+        details,
+      );
+    }
+
+    if (
+      error instanceof AxiosError &&
+      (error.code === AxiosError.ECONNABORTED ||
+        error.code === AxiosError.ETIMEDOUT)
+    ) {
+      return new OrderKuotaError(
+        `Request timed out after ${request.timeout ?? this.timeout}ms`,
+        "TIMEOUT",
+        undefined,
+        details,
+      );
+    }
+
+    return new OrderKuotaError(
+      `Network error: ${error instanceof Error ? error.message : error}`,
+      "NETWORK_ERROR",
+      undefined,
+      details,
+    );
+  }
+}
@@ -1,15 +1,471 @@
+import type { RateLimiter } from "./RateLimiter.js";
+
 /**
  * Configuration for initializing OrderKuota client
  */
 export interface OrderKuotaConfig {
   /** Username for authentication */
   username: string;
-  /** Password for authentication */
-  password: string;
+  /** Password for authentication; required unless credentials are given */
+  password?: string;
+  /** Source of the password and token, resolved when a request needs them (optional) */
+  credentials?: CredentialsProvider;
   /** Authentication token (optional, obtained via getToken) */
   token?: string;
   /** Base QRIS string for payment QR codes (optional) */
   baseQrString?: string;
+  /** HTTP transport (default: AxiosTransport) */
+  transport?: Transport;
+  /** Default request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /**
+   * API base URL, e.g. a MockOrderKuotaServer or a proxy
+   * (default: https://app.orderkuota.com)
+   */
+  baseUrl?: string;
+  /** Store used to load and persist the authentication token (optional) */
+  sessionStore?: SessionStore;
+  /**
+   * Called with the OTP email when the session expires; resolve with the OTP
+   * code to log in again automatically (optional)
+   */
+  otpProvider?: OtpProvider;
+  /**
+   * Device fields to report to the API. Set fields override the stored or
+   * default profile one by one (optional)
+   */
+  device?: Partial<DeviceProfile>;
+  /**
+   * Generate a random device profile when the session store holds none,
+   * instead of using the shared default profile (default: false)
+   */
+  randomDevice?: boolean;
+  /** Limiter that queues requests per endpoint class; share it between clients on one IP (optional) */
+  rateLimiter?: RateLimiter;
+  /** Request lifecycle hooks (optional) */
+  hooks?: OrderKuotaHooks;
+  /** Logger for requests, failures and session changes (optional) */
+  logger?: Logger;
+  /** OpenTelemetry-compatible tracer and meter (optional) */
+  telemetry?: TelemetryOptions;
+}
+
+/**
+ * Secrets of one OrderKuota account
+ */
+export interface Credentials {
+  /** Account password, needed to log in; optional when a token is given */
+  password?: string;
+  /** Authentication token, when one was issued before (optional) */
+  token?: string;
+}
+
+/**
+ * Source of account secrets such as environment variables, an encrypted file
+ * or a secret manager. Resolved on every login instead of being kept by the
+ * client.
+ */
+export interface CredentialsProvider {
+  /** Resolves the secrets for an account */
+  resolve(username: string): Promise<Credentials>;
+}
+
+/**
+ * Options for EnvCredentialsProvider
+ */
+export interface EnvCredentialsOptions {
+  /** Variable holding the password (default: 'ORDERKUOTA_PASSWORD') */
+  passwordVariable?: string;
+  /** Variable holding the token (default: 'ORDERKUOTA_TOKEN') */
+  tokenVariable?: string;
+  /** Environment to read (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Encrypted credentials file written by EncryptedFileCredentialsProvider
+ */
+export interface EncryptedCredentialsFile {
+  /** File format version */
+  version: 1;
+  /** Key derivation function */
+  kdf: "scrypt";
+  /** scrypt cost parameter */
+  N: number;
+  /** scrypt block size */
+  r: number;
+  /** scrypt parallelization */
+  p: number;
+  /** Base64 key derivation salt */
+  salt: string;
+  /** Base64 AES-256-GCM nonce */
+  iv: string;
+  /** Base64 AES-256-GCM authentication tag */
+  tag: string;
+  /** Base64 encrypted credentials JSON */
+  data: string;
+}
+
+/**
+ * Android device the client identifies as
+ */
+export interface DeviceProfile {
+  /** Firebase registration ID (app_reg_id) */
+  appRegId: string;
+  /** App installation ID (phone_uuid) */
+  phoneUuid: string;
+  /** Device model (phone_model) */
+  phoneModel: string;
+  /** Android version (phone_android_version) */
+  androidVersion: string;
+  /** App version code (app_version_code), e.g. "250811" */
+  appVersionCode: string;
+  /** App version name (app_version_name), e.g. "25.08.11" */
+  appVersionName: string;
+  /** UI mode (ui_mode), "light" or "dark" */
+  uiMode: string;
+  /** HTTP User-Agent header */
+  userAgent: string;
+}
+
+/**
+ * Persisted authentication state for one account
+ */
+export interface Session {
+  /** Account username */
+  username: string;
+  /** Authentication token; absent after logout or expiry, when only the device is kept */
+  token?: string;
+  /** Device profile the token was issued to */
+  device?: DeviceProfile;
+  /** When the session was saved (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * Storage for authentication sessions, keyed by username
+ */
+export interface SessionStore {
+  /** Loads the session for a username, if any */
+  load(username: string): Promise<Session | undefined>;
+  /** Saves a session, replacing any previous one for the same username */
+  save(session: Session): Promise<void>;
+  /** Removes the session for a username */
+  clear(username: string): Promise<void>;
+}
+
+/**
+ * Supplies the OTP code for an automatic re-login
+ *
+ * @param email Address the OTP was sent to
+ * @returns OTP code
+ */
+export type OtpProvider = (email: string) => Promise<string>;
+
+/**
+ * Per-call options accepted by every client method that performs a request
+ */
+export interface RequestOptions {
+  /** Signal to abort the request */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds, overriding the client default */
+  timeout?: number;
+  /** Queue priority when a rate limiter is configured; higher runs first (default: 0) */
+  priority?: number;
+}
+
+/**
+ * OrderKuota endpoint groups that are rate limited separately
+ */
+export type EndpointClass = "login" | "get" | "mutasi" | "menu";
+
+/**
+ * Token-bucket and concurrency limits for one endpoint class
+ */
+export interface RateLimitRule {
+  /** Tokens added per second */
+  rate: number;
+  /** Bucket capacity, i.e. the largest burst */
+  burst: number;
+  /** Maximum requests in flight */
+  concurrency: number;
+}
+
+/**
+ * Options for RateLimiter
+ */
+export interface RateLimiterOptions {
+  /**
+   * Limits per endpoint class (defaults: login 1 per 5s burst 2, get 2/s burst 5,
+   * mutasi and menu 1/s burst 3; concurrency 1, or 2 for get)
+   */
+  rules?: Partial<Record<EndpointClass, RateLimitRule>>;
+  /** Queued requests per endpoint class before new ones are rejected (default: 1000) */
+  maxQueue?: number;
+  /** Pause after a throttling response, doubled while throttling continues */
+  backoff?: {
+    /** First pause in milliseconds (default: 2000) */
+    minDelay?: number;
+    /** Longest pause in milliseconds (default: 60000) */
+    maxDelay?: number;
+  };
+}
+
+/**
+ * Queue state of one endpoint class
+ */
+export interface RateLimiterMetrics {
+  /** Requests waiting in the queue */
+  queued: number;
+  /** Requests currently running */
+  inFlight: number;
+  /** Tokens currently in the bucket */
+  tokens: number;
+  /** End of the current throttling pause, if any */
+  pausedUntil?: Date;
+  /** Throttling responses seen so far */
+  throttled: number;
+}
+
+/**
+ * HTTP request handed to a Transport
+ */
+export interface TransportRequest {
+  /** Name of the client method making the request, e.g. "getQRISHistory" */
+  name: string;
+  /** Endpoint URL */
+  url: string;
+  /** Form-encoded request body */
+  body: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Signal to abort the request */
+  signal?: AbortSignal;
+  /** Whether the request is a read that can safely be retried */
+  idempotent: boolean;
+}
+
+/**
+ * HTTP response returned by a Transport
+ */
+export interface TransportResponse {
+  /** HTTP status code */
+  status: number;
+  /** Parsed response body */
+  data: unknown;
+}
+
+/**
+ * Sends HTTP requests on behalf of the client.
+ *
+ * Implementations resolve for every HTTP response, including error statuses,
+ * and reject only when no response was received.
+ */
+export interface Transport {
+  /** Sends a request */
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Retry policy for idempotent requests
+ */
+export interface RetryOptions {
+  /** Maximum number of retries (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  minDelay?: number;
+  /** Upper bound for the delay between retries in milliseconds (default: 5000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+}
+
+/**
+ * Proxy server settings
+ */
+export interface ProxyOptions {
+  /** Proxy protocol (default: 'http') */
+  protocol?: string;
+  /** Proxy host */
+  host: string;
+  /** Proxy port */
+  port: number;
+  /** Proxy credentials */
+  auth?: {
+    /** Proxy username */
+    username: string;
+    /** Proxy password */
+    password: string;
+  };
+}
+
+/**
+ * Request details passed to the onRequest hook
+ */
+export interface RequestHookEvent {
+  /** Name of the client method making the request, e.g. "getQRISHistory" */
+  request: string;
+  /** Endpoint class of the request */
+  endpoint: EndpointClass;
+  /** Endpoint URL */
+  url: string;
+  /** Form fields with credentials redacted */
+  payload: Record<string, string>;
+  /** When the request started */
+  startedAt: Date;
+}
+
+/**
+ * Response details passed to the onResponse hook
+ */
+export interface ResponseHookEvent extends RequestHookEvent {
+  /** HTTP status code */
+  status: number;
+  /** Time taken in milliseconds, including rate limiter queueing */
+  duration: number;
+  /** Response body with credentials redacted */
+  body: unknown;
+}
+
+/**
+ * Failure details passed to the onError hook
+ */
+export interface ErrorHookEvent extends RequestHookEvent {
+  /** Copy of the error the client method throws, with its body redacted */
+  error: OrderKuotaError;
+  /** HTTP status code, if a response was received */
+  status?: number;
+  /** Time taken in milliseconds, including rate limiter queueing */
+  duration: number;
+}
+
+/**
+ * Lifecycle hooks called for every API request. Errors thrown by a hook are
+ * logged and otherwise ignored.
+ */
+export interface OrderKuotaHooks {
+  /** Called before the request is queued or sent */
+  onRequest?: (event: RequestHookEvent) => void;
+  /** Called after a successful response */
+  onResponse?: (event: ResponseHookEvent) => void;
+  /** Called when the request fails for any reason */
+  onError?: (event: ErrorHookEvent) => void;
+}
+
+/**
+ * Log severity
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured logger. Context objects are redacted before they are passed in.
+ */
+export type Logger = Record<
+  LogLevel,
+  (message: string, context?: Record<string, unknown>) => void
+>;
+
+/**
+ * Span attribute values
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Subset of the OpenTelemetry Span API used by the client
+ */
+export interface TelemetrySpan {
+  /** Sets one attribute */
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  /** Sets the span status; code 1 is OK and 2 is ERROR */
+  setStatus(status: { code: number; message?: string }): unknown;
+  /** Records an exception event */
+  recordException(exception: Error): unknown;
+  /** Ends the span */
+  end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry Tracer API used by the client
+ */
+export interface TelemetryTracer {
+  /** Starts a span */
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: TelemetryAttributes },
+  ): TelemetrySpan;
+}
+
+/**
+ * Subset of the OpenTelemetry Counter API used by the client
+ */
+export interface TelemetryCounter {
+  /** Increments the counter */
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Subset of the OpenTelemetry Histogram API used by the client
+ */
+export interface TelemetryHistogram {
+  /** Records a measurement */
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Subset of the OpenTelemetry Meter API used by the client
+ */
+export interface TelemetryMeter {
+  /** Creates a counter */
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): TelemetryCounter;
+  /** Creates a histogram */
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): TelemetryHistogram;
+}
+
+/**
+ * OpenTelemetry tracer and meter, e.g. from `trace.getTracer()` and
+ * `metrics.getMeter()` of `@opentelemetry/api`
+ */
+export interface TelemetryOptions {
+  /** Tracer that receives one client span per request */
+  tracer?: TelemetryTracer;
+  /** Meter for request, error and duration instruments */
+  meter?: TelemetryMeter;
+}
+
+/**
+ * Options for the default axios-based transport
+ */
+export interface AxiosTransportOptions {
+  /** Default request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Retry policy for idempotent requests, or false to disable retries */
+  retry?: RetryOptions | false;
+  /** Proxy server, or false to ignore proxy environment variables */
+  proxy?: ProxyOptions | false;
+  /** Agent for HTTP requests */
+  httpAgent?: unknown;
+  /** Agent for HTTPS requests, e.g. an HttpsProxyAgent */
+  httpsAgent?: unknown;
+}
+
+/**
+ * Options for the fetch transport
+ */
+export interface FetchTransportOptions {
+  /** Default request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Retry policy for idempotent requests, or false to disable retries */
+  retry?: RetryOptions | false;
+  /** fetch implementation, e.g. one routing through a proxy (default: globalThis.fetch) */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
 }
 
 /**
@@ -17,7 +473,7 @@ export interface OrderKuotaConfig {
  */
 export interface OTPResponse {
   /** Request status */
-  status: string;
+  status: "success";
   /** Email where OTP was sent */
   email: string;
   /** Response message */
@@ -29,37 +485,129 @@ export interface OTPResponse {
  */
 export interface TokenResponse {
   /** Request status */
-  status: string;
+  status: "success";
   /** Authentication token */
-  token?: string;
+  token: string;
+  /** User ID */
+  id: string;
+  /** User display name */
+  name: string;
+  /** Username */
+  username: string;
+  /** Account balance in IDR */
+  balance: number;
+  /** Response message */
+  message: string;
+}
+
+/**
+ * Account information included in menu and history responses
+ */
+export interface AccountInfo {
   /** User ID */
   id?: string;
   /** User display name */
   name?: string;
   /** Username */
   username?: string;
-  /** Account balance */
-  balance?: string;
-  /** Response message */
-  message: string;
+  /** Account balance in IDR */
+  balance: number;
+  /** QRIS balance awaiting settlement in IDR */
+  qris_balance: number;
+}
+
+/**
+ * Response from balance check
+ */
+export interface BalanceResponse {
+  /** Always true for successful checks */
+  success: true;
+  /** Account balance in IDR */
+  balance: number;
+  /** QRIS balance awaiting settlement in IDR */
+  qris_balance: number;
+}
+
+/**
+ * Brand of the wallet or bank that paid a QRIS transaction
+ */
+export interface QrisBrand {
+  /** Brand name, e.g. "DANA" */
+  name: string;
+  /** Brand logo URL */
+  logo?: string;
 }
 
 /**
  * QRIS transaction data
  */
 export interface QrisTransaction {
-  /** Transaction ID */
-  id?: string;
-  /** Amount in IDR */
-  amount?: number;
-  /** Transaction date */
-  date?: string;
-  /** Transaction status */
-  status?: string;
-  /** Description */
-  description?: string;
-  /** Additional data */
-  [key: string]: any;
+  /** Mutation ID */
+  id: string;
+  /** Transaction direction: "IN" for credits, "OUT" for debits */
+  status: string;
+  /** Amount in IDR (credit for incoming, debit for outgoing mutations) */
+  amount: number;
+  /** Credited amount in IDR */
+  credit: number;
+  /** Debited amount in IDR */
+  debit: number;
+  /** Balance after the mutation in IDR */
+  balance: number;
+  /** Fee charged for the mutation in IDR */
+  fee: number;
+  /** Transaction date as reported by the API ("dd/MM/yyyy HH:mm", WIB) */
+  date: string;
+  /** Description (keterangan) */
+  description: string;
+  /** Paying wallet or bank */
+  brand?: QrisBrand;
+}
+
+/**
+ * Response from QRIS history request
+ */
+export interface QrisHistoryResponse {
+  /** Request status */
+  status: "success";
+  /** Transactions on the requested page */
+  data: QrisTransaction[];
+  /** Account information, when returned */
+  account?: AccountInfo;
+  /** Response message */
+  message: string;
+}
+
+/**
+ * Direction of a mutation from the merchant's point of view
+ */
+export type TransactionDirection = "credit" | "debit";
+
+/**
+ * Mutation normalized into typed fields, with the issuer and reference
+ * extracted from the free-text description
+ */
+export interface NormalizedTransaction {
+  /** Mutation ID */
+  id: string;
+  /** Whether money came in or went out */
+  direction: TransactionDirection;
+  /** Amount in whole rupiah */
+  amount: bigint;
+  /** Fee charged for the mutation in whole rupiah */
+  fee: bigint;
+  /** Balance after the mutation in whole rupiah */
+  balance: bigint;
+  /** Time of the mutation; the API reports it in Asia/Jakarta (WIB) */
+  date: Date;
+  /** Payer's wallet or bank, e.g. "DANA", "GoPay" or "BCA", when recognized */
+  issuer?: string;
+  /** Retrieval reference number (RRN) or issuer reference, when present */
+  reference?: string;
+  /** National merchant ID (NMID) printed in the description, when present */
+  nmid?: string;
+  /** Original description (keterangan) */
+  description: string;
 }
 
 /**
@@ -73,17 +621,19 @@ export interface QrisMenuItem {
   /** Item description */
   description?: string;
   /** Additional data */
-  [key: string]: any;
+  [key: string]: unknown;
 }
 
 /**
  * QRIS menu response
  */
 export interface QrisMenuResponse {
-  /** Response status */
-  status: string;
+  /** Request status */
+  status: "success";
   /** Menu items */
-  data?: QrisMenuItem[];
+  data: QrisMenuItem[];
+  /** Account information */
+  account: AccountInfo;
   /** Response message */
   message: string;
 }
@@ -92,14 +642,16 @@ export interface QrisMenuResponse {
  * QRIS Ajaib payment response
  */
 export interface QrisAjaibResponse {
-  /** Response status */
-  status: string;
+  /** Request status */
+  status: "success";
   /** QRIS payment data */
-  data?: {
+  data: {
     /** QR code string */
-    qr_string?: string;
+    qr_string: string;
+    /** Payment amount in IDR, when returned */
+    amount?: number;
     /** Additional data */
-    [key: string]: any;
+    [key: string]: unknown;
   };
   /** Response message */
   message: string;
@@ -108,7 +660,7 @@ export interface QrisAjaibResponse {
 /**
  * Options for fetching transaction history
  */
-export interface HistoryOptions {
+export interface HistoryOptions extends RequestOptions {
   /** Page number */
   page?: string;
   /** Description filter */
@@ -121,6 +673,817 @@ export interface HistoryOptions {
   ke_tanggal?: string;
 }
 
+/**
+ * Options for iterating transaction history across pages
+ */
+export interface HistoryIteratorOptions extends RequestOptions {
+  /** History type (default: 'qris_history') */
+  type?: string;
+  /** Only yield transactions at or after this time */
+  from?: Date;
+  /** Only yield transactions at or before this time */
+  to?: Date;
+  /** Description filter */
+  keterangan?: string;
+  /** Amount filter */
+  jumlah?: string;
+  /** Number of pages fetched in parallel (default: 1) */
+  concurrency?: number;
+  /** Maximum number of pages to fetch (default: unlimited) */
+  maxPages?: number;
+}
+
+/**
+ * Invoice awaiting a matching QRIS credit
+ */
+export interface PendingInvoice {
+  /** Invoice identifier from your system */
+  id: string;
+  /** Base amount in IDR */
+  amount: number;
+  /** Unique-code suffix added to the base amount, e.g. 123 for Rp 10.123 */
+  uniqueCode?: number;
+  /** When the invoice stops accepting payment */
+  expiresAt: Date;
+  /** When the invoice was created (defaults to the time it was added) */
+  createdAt?: Date;
+  /** Arbitrary metadata passed through to events */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Persistent record of QRIS mutation IDs that have already been processed
+ */
+export interface MutationStore {
+  /** Returns true if the mutation ID was already processed */
+  has(id: string): Promise<boolean>;
+  /** Marks a mutation ID as processed */
+  add(id: string): Promise<void>;
+}
+
+/**
+ * Options for PaymentWatcher
+ */
+export interface PaymentWatcherOptions {
+  /** Polling interval in milliseconds (default: 10000) */
+  interval?: number;
+  /** History type to poll (default: 'qris_history') */
+  historyType?: string;
+  /** Store for processed mutation IDs (default: in-memory) */
+  store?: MutationStore;
+  /**
+   * Grace period in milliseconds for mutations timestamped before the invoice
+   * was created, since mutation timestamps only have minute precision (default: 60000)
+   */
+  clockSkew?: number;
+}
+
+/**
+ * Balance field of an OrderKuota account
+ */
+export type BalanceAccount = "balance" | "qris_balance";
+
+/**
+ * Account balances at one moment
+ */
+export interface BalanceSnapshot {
+  /** Account balance in IDR */
+  balance: number;
+  /** QRIS balance awaiting settlement in IDR */
+  qris_balance: number;
+  /** When the balances were fetched */
+  takenAt: Date;
+}
+
+/**
+ * Movement of one balance between two snapshots, reconciled against history
+ */
+export interface BalanceChange {
+  /** Balance that moved */
+  account: BalanceAccount;
+  /** Signed change in IDR, excluding QRIS settlement */
+  amount: number;
+  /** Earlier snapshot */
+  before: BalanceSnapshot;
+  /** Later snapshot */
+  after: BalanceSnapshot;
+  /** History entries between the snapshots that explain the change */
+  transactions: QrisTransaction[];
+  /** Part of the change covered by the transactions, net of fees */
+  explained: number;
+  /** Part of the change no transaction accounts for */
+  unexplained: number;
+}
+
+/**
+ * QRIS balance moved to the account balance between two snapshots
+ */
+export interface QrisSettlement {
+  /** Settled amount in IDR */
+  amount: number;
+  /** Earlier snapshot */
+  before: BalanceSnapshot;
+  /** Later snapshot */
+  after: BalanceSnapshot;
+  /** Outgoing QRIS history entries attributed to the settlement */
+  transactions: QrisTransaction[];
+}
+
+/**
+ * Options for BalanceMonitor
+ */
+export interface BalanceMonitorOptions {
+  /** Polling interval in milliseconds (default: 60000) */
+  interval?: number;
+  /** History type used for reconciliation (default: 'qris_history') */
+  historyType?: string;
+  /** Emit belowThreshold when a balance drops under these amounts in IDR */
+  thresholds?: Partial<Record<BalanceAccount, number>>;
+  /**
+   * Extra milliseconds of history fetched before each window, since mutation
+   * timestamps only have minute precision (default: 60000)
+   */
+  clockSkew?: number;
+  /** Maximum history pages fetched per poll (default: 5) */
+  maxPages?: number;
+}
+
+/**
+ * Payment an order expects to receive, used for reconciliation
+ */
+export interface ExpectedPayment {
+  /** Order or invoice identifier from your system */
+  id: string;
+  /** Expected amount in IDR, including any unique code */
+  amount: number;
+  /** Start of the window in which the payment may arrive */
+  from: Date;
+  /** End of the window in which the payment may arrive */
+  to: Date;
+  /** Arbitrary metadata passed through to the report */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for reconcile
+ */
+export interface ReconcileOptions {
+  /**
+   * Grace period in milliseconds for credits timestamped before the window,
+   * since mutation timestamps only have minute precision (default: 60000)
+   */
+  clockSkew?: number;
+  /**
+   * Largest difference, relative to the expected amount, for which a credit
+   * of another amount is reported as an amount mismatch, e.g. 0.1 for 10%
+   * (default: 0, no amount mismatches)
+   */
+  mismatchTolerance?: number;
+}
+
+/**
+ * Options for reconcileHistory
+ */
+export interface ReconcileHistoryOptions
+  extends ReconcileOptions, RequestOptions {
+  /** Start of the history range */
+  from: Date;
+  /** End of the history range */
+  to: Date;
+  /** History type (default: 'qris_history') */
+  type?: string;
+  /** Maximum number of history pages to fetch (default: unlimited) */
+  maxPages?: number;
+}
+
+/**
+ * Expected payment paired with the credit that paid it
+ */
+export interface ReconciledPayment {
+  /** Expected payment */
+  expected: ExpectedPayment;
+  /** Credit that paid it */
+  transaction: QrisTransaction;
+  /** Credited amount minus expected amount in IDR */
+  difference: number;
+}
+
+/**
+ * Reconciliation totals for one day (WIB)
+ */
+export interface ReconciliationDay {
+  /** Day as "yyyy-MM-dd" */
+  date: string;
+  /** Sum of payments expected from this day in IDR */
+  expected: number;
+  /** Sum of credits received in IDR, before fees */
+  received: number;
+  /** Sum of fees on those credits in IDR */
+  fees: number;
+  /** Received minus fees in IDR */
+  net: number;
+  /** Number of matched payments */
+  matched: number;
+  /** Number of payments paid with a different amount */
+  amountMismatch: number;
+  /** Number of expected payments without a credit */
+  missing: number;
+  /** Number of credits without an expected payment */
+  unexpected: number;
+}
+
+/**
+ * Expected payments compared against received QRIS credits
+ */
+export interface ReconciliationReport {
+  /** Payments paid with the expected amount */
+  matched: ReconciledPayment[];
+  /** Payments paid within their window with a different amount */
+  amountMismatch: ReconciledPayment[];
+  /** Expected payments without a credit */
+  missing: ExpectedPayment[];
+  /** Credits that match no expected payment */
+  unexpected: QrisTransaction[];
+  /** Totals per day, oldest first */
+  days: ReconciliationDay[];
+}
+
+/**
+ * Options for reconciliationToCsv
+ */
+export interface ReconciliationCsvOptions {
+  /** 'entries' for one row per payment or credit, 'days' for daily totals (default: 'entries') */
+  table?: "entries" | "days";
+  /** Add a byte order mark, CRLF line endings and formula escaping for Excel (default: false) */
+  excel?: boolean;
+  /** Field delimiter, e.g. ';' for spreadsheets using a comma as decimal separator (default: ',') */
+  delimiter?: string;
+}
+
+/**
+ * Unique payment amount held for one invoice
+ */
+export interface AmountReservation {
+  /** Reserved total amount in IDR (base amount + unique code) */
+  amount: number;
+  /** Base amount in IDR before the unique code */
+  baseAmount: number;
+  /** Unique-code suffix added to the base amount */
+  uniqueCode: number;
+  /** Random token identifying the holder of this reservation */
+  token: string;
+  /** Invoice ID this amount is reserved for (optional) */
+  invoiceId?: string;
+  /** When the reservation is released automatically */
+  expiresAt: Date;
+}
+
+/**
+ * Storage for reserved payment amounts
+ */
+export interface ReservationStore {
+  /**
+   * Reserves an amount if no unexpired reservation holds it.
+   * Implementations must make the check and write atomic.
+   *
+   * @returns True if the amount was reserved
+   */
+  reserve(reservation: AmountReservation): Promise<boolean>;
+  /** Releases an amount if it is still held by the given token */
+  release(amount: number, token: string): Promise<void>;
+  /** Lists unexpired reservations */
+  list(): Promise<AmountReservation[]>;
+}
+
+/**
+ * Options for InvoiceAllocator
+ */
+export interface InvoiceAllocatorOptions {
+  /** Reservation store (default: in-memory) */
+  store?: ReservationStore;
+  /** Smallest unique code (default: 1) */
+  minCode?: number;
+  /** Largest unique code (default: 999) */
+  maxCode?: number;
+  /** Reservation lifetime in milliseconds (default: 15 minutes) */
+  ttl?: number;
+}
+
+/**
+ * Options for a single amount allocation
+ */
+export interface AllocateOptions {
+  /** Invoice ID to attach to the reservation */
+  invoiceId?: string;
+  /** Reservation lifetime in milliseconds, overriding the allocator default */
+  ttl?: number;
+}
+
+/**
+ * Options for allocating an amount and creating its QRIS in one step
+ */
+export interface AllocateQrisOptions extends AllocateOptions {
+  /**
+   * Where the QRIS comes from: 'ajaib' calls generateQRISAjaib(),
+   * 'local' builds it from baseQrString (default: 'ajaib')
+   */
+  source?: "ajaib" | "local";
+}
+
+/**
+ * Amount reserved by InvoiceAllocator
+ */
+export interface AllocatedAmount {
+  /** Total amount the customer must pay in IDR */
+  amount: number;
+  /** Base amount in IDR before the unique code */
+  baseAmount: number;
+  /** Unique-code suffix added to the base amount */
+  uniqueCode: number;
+  /** When the reservation expires */
+  expiresAt: Date;
+  /** Releases the reservation, e.g. after payment or cancellation */
+  release(): Promise<void>;
+  /** Builds a PendingInvoice for PaymentWatcher from this allocation */
+  toPendingInvoice(id: string): PendingInvoice;
+}
+
+/**
+ * Allocated amount together with its QRIS string
+ */
+export interface AllocatedQris extends AllocatedAmount {
+  /** QRIS string encoding the allocated amount */
+  qrString: string;
+}
+
+/**
+ * How OrderKuotaPool picks the account for a new payment
+ */
+export type PoolStrategy =
+  "round-robin" | "least-recently-used" | "fewest-pending";
+
+/**
+ * Options for OrderKuotaPool
+ */
+export interface OrderKuotaPoolOptions {
+  /** Account selection strategy (default: 'round-robin') */
+  strategy?: PoolStrategy;
+  /** Session store for accounts that do not configure their own (optional) */
+  sessionStore?: SessionStore;
+  /**
+   * How long a generated payment counts as pending for the 'fewest-pending'
+   * strategy unless completed earlier, in milliseconds (default: 15 minutes)
+   */
+  pendingTtl?: number;
+}
+
+/**
+ * State of one pooled account
+ */
+export interface PoolAccountStatus {
+  /** Account username */
+  username: string;
+  /** Whether the account is in rotation */
+  available: boolean;
+  /** Payments generated on this account that are not completed or expired */
+  pending: number;
+  /** When the account was last picked */
+  lastUsedAt?: Date;
+}
+
+/**
+ * Balance of one pooled account
+ */
+export interface PoolAccountBalance {
+  /** Account username */
+  username: string;
+  /** Account balance in IDR (0 when the request failed) */
+  balance: number;
+  /** QRIS balance in IDR (0 when the request failed) */
+  qris_balance: number;
+  /** Why the balance could not be fetched */
+  error?: OrderKuotaError;
+}
+
+/**
+ * Balance summed across pooled accounts
+ */
+export interface PoolBalance {
+  /** Total account balance in IDR */
+  balance: number;
+  /** Total QRIS balance in IDR */
+  qris_balance: number;
+  /** Per-account balances */
+  accounts: PoolAccountBalance[];
+}
+
+/**
+ * Transaction tagged with the pooled account it belongs to
+ */
+export interface PooledTransaction extends QrisTransaction {
+  /** Account username */
+  account: string;
+}
+
+/**
+ * QRIS Ajaib response tagged with the pooled account that generated it
+ */
+export interface PooledQrisAjaibResponse extends QrisAjaibResponse {
+  /** Account username */
+  account: string;
+  /** Pool-assigned ID to pass to completePayment() */
+  paymentId: string;
+}
+
+/**
+ * Lifecycle state of an invoice. Every state except pending is final.
+ */
+export type InvoiceStatus =
+  "pending" | "paid" | "expired" | "cancelled" | "overpaid" | "underpaid";
+
+/**
+ * QRIS invoice tracked by InvoiceManager
+ */
+export interface Invoice {
+  /** Invoice ID */
+  id: string;
+  /** Caller-supplied key; creating again with the same key returns this invoice */
+  idempotencyKey?: string;
+  /** Current status */
+  status: InvoiceStatus;
+  /** Amount the customer must pay in IDR */
+  amount: number;
+  /** Amount passed to create(), which a retry with the same idempotency key must repeat */
+  requestedAmount?: number;
+  /** QRIS string encoding the amount */
+  qrString: string;
+  /** Username of the account the QRIS was generated on */
+  account: string;
+  /** Creation time */
+  createdAt: Date;
+  /** When the invoice stops accepting payment */
+  expiresAt: Date;
+  /** Time of the last status change */
+  updatedAt: Date;
+  /** Credited amount in IDR, once paid, overpaid or underpaid */
+  paidAmount?: number;
+  /** Payment time, once paid, overpaid or underpaid */
+  paidAt?: Date;
+  /** ID of the mutation that settled the invoice */
+  transactionId?: string;
+  /** Caller-supplied data stored with the invoice */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Persistence for invoices. Implement it on top of your own database to share
+ * invoices between processes.
+ */
+export interface InvoiceStore {
+  /**
+   * Inserts a new invoice. Resolves false, without inserting, when another
+   * invoice already uses its idempotency key.
+   */
+  insert(invoice: Invoice): Promise<boolean>;
+  /** Gets an invoice by ID */
+  get(id: string): Promise<Invoice | undefined>;
+  /** Gets an invoice by idempotency key */
+  getByIdempotencyKey(key: string): Promise<Invoice | undefined>;
+  /** Replaces a stored invoice */
+  update(invoice: Invoice): Promise<void>;
+  /** Lists invoices that are still pending */
+  listPending(): Promise<Invoice[]>;
+}
+
+/**
+ * Options for InvoiceManager.create
+ */
+export interface CreateInvoiceOptions extends RequestOptions {
+  /** Invoice ID (default: random) */
+  id?: string;
+  /**
+   * Key that makes repeated creates return the same invoice, e.g. an HTTP
+   * Idempotency-Key. Reusing it with another amount or metadata throws INVALID_STATE.
+   */
+  idempotencyKey?: string;
+  /** Lifetime in milliseconds (default: the QRIS expiry reported by the API, or the manager ttl) */
+  ttl?: number;
+  /** Caller-supplied data stored with the invoice */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for InvoiceManager
+ */
+export interface InvoiceManagerOptions {
+  /** Invoice persistence (default: in-memory) */
+  store?: InvoiceStore;
+  /** Store for mutation IDs already applied to an invoice (default: in-memory) */
+  mutationStore?: MutationStore;
+  /** Invoice lifetime in milliseconds when the API reports no expiry (default: 900000) */
+  ttl?: number;
+  /** Polling interval in milliseconds (default: 10000) */
+  interval?: number;
+  /** History type to poll (default: 'qris_history') */
+  historyType?: string;
+  /**
+   * Grace period in milliseconds for mutations timestamped before the invoice
+   * was created, since mutation timestamps only have minute precision (default: 60000)
+   */
+  clockSkew?: number;
+  /**
+   * Largest difference, relative to the invoice amount, for which a credit of
+   * another amount marks the invoice overpaid or underpaid, e.g. 0.1 for 10%
+   * (default: 0, only exact amounts match)
+   */
+  mismatchTolerance?: number;
+}
+
+/**
+ * Lifecycle state of a payment gateway invoice
+ */
+export type GatewayInvoiceStatus = "pending" | "paid" | "expired";
+
+/**
+ * Invoice as returned by the payment gateway REST API
+ */
+export interface GatewayInvoice {
+  /** Invoice ID */
+  id: string;
+  /** Current status */
+  status: GatewayInvoiceStatus;
+  /** Total amount the customer must pay in IDR */
+  amount: number;
+  /** Requested amount in IDR before the unique code */
+  baseAmount: number;
+  /** Unique-code suffix added to the base amount */
+  uniqueCode: number;
+  /** QRIS string encoding the amount */
+  qrString: string;
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+  /** Expiry time (ISO 8601) */
+  expiresAt: string;
+  /** Payment time (ISO 8601), once paid */
+  paidAt?: string;
+  /** ID of the matching mutation, once paid */
+  transactionId?: string;
+  /** Caller-supplied data stored with the invoice */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for PaymentGateway
+ */
+export interface PaymentGatewayOptions {
+  /** API keys accepted in the `Authorization: Bearer` or `X-API-Key` header */
+  apiKeys: string[];
+  /**
+   * Where invoice QRIS strings come from: 'ajaib' calls generateQRISAjaib(),
+   * 'local' builds them from baseQrString (default: 'ajaib')
+   */
+  source?: "ajaib" | "local";
+  /** Unique amount allocation options; ttl is the default invoice lifetime */
+  allocator?: InvoiceAllocatorOptions;
+  /** Payment confirmation options */
+  watcher?: PaymentWatcherOptions;
+  /** Largest accepted request body in bytes (default: 65536) */
+  bodyLimit?: number;
+  /** How long paid and expired invoices stay queryable in ms (default: 3600000) */
+  retention?: number;
+}
+
+/**
+ * Webhook event types
+ */
+export type WebhookEventType = "payment.received";
+
+/**
+ * Payload of a payment.received webhook
+ */
+export interface PaymentReceivedData {
+  /** Incoming QRIS mutation */
+  transaction: QrisTransaction;
+  /** Invoice the payment was matched to, if any */
+  invoice?: PendingInvoice;
+}
+
+/**
+ * Webhook event body
+ */
+export interface WebhookEvent {
+  /** Unique event ID, also sent in the X-OrderKuota-Delivery header */
+  id: string;
+  /** Event type */
+  type: WebhookEventType;
+  /** When the event was created (ISO 8601) */
+  createdAt: string;
+  /** Event payload */
+  data: PaymentReceivedData;
+}
+
+/**
+ * Registered webhook receiver
+ */
+export interface WebhookEndpoint {
+  /** URL the event is POSTed to */
+  url: string;
+  /** Shared secret used to sign deliveries */
+  secret: string;
+  /** Event types to deliver (default: all) */
+  events?: WebhookEventType[];
+}
+
+/**
+ * Outcome of one delivery attempt
+ */
+export interface WebhookAttempt {
+  /** Event being delivered */
+  event: WebhookEvent;
+  /** Receiver URL */
+  url: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** HTTP status, if a response was received */
+  status?: number;
+  /** Failure reason, if the attempt failed */
+  error?: string;
+  /** Attempt duration in milliseconds */
+  duration: number;
+  /** Whether another attempt will follow */
+  willRetry: boolean;
+}
+
+/**
+ * Delivery that exhausted its retries
+ */
+export interface DeadLetter {
+  /** Dead letter ID */
+  id: string;
+  /** Undelivered event */
+  event: WebhookEvent;
+  /** Receiver URL */
+  url: string;
+  /** Number of attempts made */
+  attempts: number;
+  /** HTTP status of the last attempt, if any */
+  lastStatus?: number;
+  /** Failure reason of the last attempt */
+  lastError: string;
+  /** When the delivery was given up (ISO 8601) */
+  failedAt: string;
+}
+
+/**
+ * Storage for undelivered webhooks
+ */
+export interface DeadLetterStore {
+  /** Stores a failed delivery */
+  add(entry: DeadLetter): Promise<void>;
+  /** Lists failed deliveries, oldest first */
+  list(): Promise<DeadLetter[]>;
+  /** Removes a failed delivery, e.g. after redelivery */
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Options for WebhookDispatcher
+ */
+export interface WebhookDispatcherOptions {
+  /** Receivers to deliver to (default: none) */
+  endpoints?: WebhookEndpoint[];
+  /**
+   * Retry policy for failed deliveries
+   * (default: 5 retries, 1s initial delay, 5 min cap, factor 2)
+   */
+  retry?: RetryOptions;
+  /** Per-attempt timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Store for deliveries that exhausted their retries (default: in-memory) */
+  deadLetterStore?: DeadLetterStore;
+}
+
+/**
+ * Message received from a chat
+ */
+export interface ChatMessage {
+  /** Chat the message was sent in */
+  chatId: string;
+  /** Message text */
+  text: string;
+  /** Sender's username, when the chat service reports one */
+  sender?: string;
+}
+
+/**
+ * Message sent by a ChatTransport
+ */
+export interface SentChatMessage {
+  /** Destination chat */
+  chatId: string;
+  /** Message text, for text messages */
+  text?: string;
+  /** PNG image, for image messages */
+  image?: Uint8Array;
+  /** Image caption */
+  caption?: string;
+}
+
+/**
+ * Connection to a chat service such as Telegram or Discord
+ */
+export interface ChatTransport {
+  /** Starts delivering incoming messages to the handler */
+  start(onMessage: (message: ChatMessage) => Promise<void>): Promise<void>;
+  /** Stops receiving messages */
+  stop(): Promise<void>;
+  /** Sends a text message */
+  sendText(chatId: string, text: string): Promise<void>;
+  /** Sends a PNG image with an optional caption */
+  sendImage(chatId: string, png: Uint8Array, caption?: string): Promise<void>;
+}
+
+/**
+ * Options for ChatBot
+ */
+export interface ChatBotOptions {
+  /** Chat service connection */
+  transport: ChatTransport;
+  /** Chats allowed to run commands; new credits are announced to all of them */
+  chats: string[];
+  /** Interval between credit checks in milliseconds, or false to disable announcements (default: 10000) */
+  interval?: number | false;
+  /** History type to check for credits (default: 'qris_history') */
+  historyType?: string;
+  /** Store for announced mutation IDs (default: in-memory) */
+  store?: MutationStore;
+  /**
+   * Record the credits listed on the first check without announcing them
+   * (default: true with the in-memory store, false when a store is given, so
+   * credits that arrived while the bot was down are still announced). Set it
+   * on the first run with a new persistent store to skip older credits.
+   */
+  skipExisting?: boolean;
+}
+
+/**
+ * Options for TelegramTransport
+ */
+export interface TelegramTransportOptions {
+  /** Bot token from BotFather */
+  token: string;
+  /** Long polling timeout in seconds (default: 30) */
+  pollTimeout?: number;
+  /** Delay before polling again after a failed request in milliseconds (default: 5000) */
+  retryDelay?: number;
+  /** Bot API base URL (default: 'https://api.telegram.org') */
+  apiUrl?: string;
+  /** fetch implementation (default: globalThis.fetch) */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+  /** Called when polling for updates fails */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for the bundled mock OrderKuota server
+ */
+export interface MockServerOptions {
+  /** Accepted username (default: 'mockuser') */
+  username?: string;
+  /** Accepted password (default: 'mockpass') */
+  password?: string;
+  /** OTP accepted at the token stage (default: '123456') */
+  otp?: string;
+  /** Email address the OTP is reported as sent to (default: 'mock@example.com') */
+  email?: string;
+  /** Account display name (default: 'Mock Merchant') */
+  name?: string;
+  /** Initial account balance in IDR (default: 0) */
+  balance?: number;
+  /** Initial QRIS balance in IDR (default: 0) */
+  qrisBalance?: number;
+  /** Static QRIS that qris_ajaib payments are built from (default: built-in sample) */
+  baseQrString?: string;
+  /** Mutations returned per history page (default: 20) */
+  pageSize?: number;
+  /** Fee charged on incoming payments as a fraction of the amount (default: 0.007) */
+  feeRate?: number;
+}
+
+/**
+ * Incoming QRIS payment added to the mock server's mutation history
+ */
+export interface MockPaymentOptions {
+  /** Paid amount in IDR */
+  amount: number;
+  /** Payment time (default: when the payment lands) */
+  date?: Date;
+  /** Issuer shown as the mutation brand (default: 'DANA') */
+  brand?: string;
+  /** Mutation description */
+  description?: string;
+}
+
 /**
  * Generic API response
  */
@@ -135,6 +1498,184 @@ export interface ApiResponse<T = any> {
   [key: string]: any;
 }
 
+/**
+ * Single EMVCo TLV data object parsed from a QRIS payload
+ */
+export interface QrisTag {
+  /** Two-digit tag ID */
+  id: string;
+  /** Raw tag value */
+  value: string;
+  /** Nested data objects for template tags (26-51, 62, 64) */
+  children?: QrisTag[];
+}
+
+/**
+ * Tip or convenience fee configuration for dynamic QRIS
+ */
+export type QrisTip =
+  | {
+      /** Customer is prompted to enter a tip (tag 55 = 01) */
+      type: "prompt";
+    }
+  | {
+      /** Fixed convenience fee in IDR (tag 55 = 02, tag 56) */
+      type: "fixed";
+      /** Fee amount in whole rupiah */
+      value: number;
+    }
+  | {
+      /** Percentage convenience fee (tag 55 = 03, tag 57) */
+      type: "percentage";
+      /** Fee percentage above 0 and at most 100, e.g. 0.7 for 0.7% */
+      value: number;
+    };
+
+/**
+ * Options for generating a dynamic QRIS from the static base string
+ */
+export interface DynamicQrisOptions {
+  /** Payment amount in whole rupiah, at most 13 digits */
+  amount: number;
+  /** Optional tip or convenience fee */
+  tip?: QrisTip;
+}
+
+/**
+ * Decoded QRIS payload
+ */
+export interface DecodedQris {
+  /** Whether the QRIS is static (tag 01 = 11) or dynamic (tag 01 = 12) */
+  type: "static" | "dynamic";
+  /** Merchant name (tag 59) */
+  merchantName: string;
+  /** Merchant city (tag 60) */
+  merchantCity: string;
+  /** Postal code (tag 61) */
+  postalCode?: string;
+  /** National Merchant ID from the QRIS template (tag 51, sub-tag 02) */
+  nmid?: string;
+  /** Acquirer global unique identifier, e.g. "ID.CO.BANKMANDIRI.WWW" */
+  acquirer?: string;
+  /** Merchant category code (tag 52) */
+  merchantCategoryCode: string;
+  /** ISO 4217 numeric currency code (tag 53) */
+  currency: string;
+  /** Country code (tag 58) */
+  countryCode: string;
+  /** Transaction amount in IDR (tag 54), only present on dynamic QRIS */
+  amount?: number;
+  /** Tip or convenience fee configuration */
+  tip?: QrisTip;
+  /** CRC16 checksum (tag 63) */
+  crc: string;
+  /** Full parsed TLV tree */
+  tags: QrisTag[];
+}
+
+/**
+ * Appearance options shared by the QR renderers
+ */
+export interface QrRenderOptions {
+  /** Image width in pixels, at most 4096; takes precedence over scale (default: 256) */
+  width?: number;
+  /** Pixels per module from 1 to 20, used when width is not given */
+  scale?: number;
+  /** Quiet zone around the code in modules, at most 16 (default: 1) */
+  margin?: number;
+  /** Module colour as #RRGGBB (default: '#000000') */
+  dark?: string;
+  /** Background colour as #RRGGBB (default: '#FFFFFF') */
+  light?: string;
+  /** Error correction level (default: 'M') */
+  errorCorrectionLevel?: "L" | "M" | "Q" | "H";
+}
+
+/**
+ * Options for OrderKuota.generateQRImage, a subset of the qrcode package's
+ * toDataURL options. Options outside this subset are rejected.
+ */
+export interface QrImageOptions {
+  /** Image width in pixels; takes precedence over scale (default: 256) */
+  width?: number;
+  /** Pixels per module, used when width is not given */
+  scale?: number;
+  /** Quiet zone around the code in modules (default: 1) */
+  margin?: number;
+  /** Error correction level, as a letter or a word (default: 'M') */
+  errorCorrectionLevel?:
+    "L" | "M" | "Q" | "H" | "low" | "medium" | "quartile" | "high";
+  /** Module and background colours as #RRGGBB */
+  color?: { dark?: string; light?: string };
+  /** Image type; only PNG is rendered (default: 'image/png') */
+  type?: "image/png";
+}
+
+/**
+ * Options for rendering a QR code to a file
+ */
+export interface QrFileOptions extends QrRenderOptions {
+  /** Image format (default: from the file extension, otherwise 'png') */
+  format?: "png" | "svg";
+}
+
+/**
+ * Options for rendering QR codes as text
+ */
+export interface QrTerminalOptions {
+  /**
+   * Use ANSI colours for terminals instead of plain UTF-8 half blocks, which
+   * suit chat messages (default: false)
+   */
+  ansi?: boolean;
+  /** Use half-height ANSI blocks so the code takes half the lines (default: true) */
+  small?: boolean;
+}
+
+/**
+ * Options for the payment card template
+ */
+export interface PaymentCardOptions {
+  /** Merchant name (default: tag 59 of the QRIS) */
+  merchantName?: string;
+  /** Amount in IDR (default: tag 54 of the QRIS) */
+  amount?: number;
+  /** When the payment expires; adds an expiry line */
+  expiresAt?: Date;
+  /** Reference time for the expiry line (default: now) */
+  now?: Date;
+  /** Builds the expiry line (default: "Pay within 15 minutes (until 14:35 WIB)") */
+  expiryLabel?: (remainingMs: number, expiresAt: Date) => string;
+  /** Image URL or data URL shown in the logo area (default: a QRIS wordmark) */
+  logo?: string;
+  /** Card width in pixels, at most 4096 (default: 360) */
+  width?: number;
+  /** Accent colour of the logo area as #RRGGBB (default: '#E2231A') */
+  accent?: string;
+}
+
+/**
+ * Converts SVG markup to PNG, e.g. with @resvg/resvg-js or sharp
+ */
+export type SvgRasterizer = (svg: string, width: number) => Promise<Uint8Array>;
+
+/**
+ * Outcome of an operation for callers who prefer not to catch errors
+ */
+export type Result<T, E = OrderKuotaError> =
+  | {
+      /** Operation succeeded */
+      ok: true;
+      /** Operation result */
+      value: T;
+    }
+  | {
+      /** Operation failed */
+      ok: false;
+      /** Failure reason */
+      error: E;
+    };
+
 /**
  * Error codes for OrderKuota operations
  */
@@ -147,8 +1688,28 @@ export type OrderKuotaErrorCode =
   | "INVALID_AMOUNT"
   | "INVALID_CREDENTIALS"
   | "QR_GENERATION_FAILED"
+  | "INVALID_QRIS"
+  | "ALLOCATION_EXHAUSTED"
+  | "TIMEOUT"
+  | "SESSION_EXPIRED"
+  | "ABORTED"
+  | "RATE_LIMITED"
+  | "INVALID_STATE"
+  | "INVALID_ARGUMENT"
   | "UNKNOWN_ERROR";
 
+/**
+ * Additional context attached to an OrderKuotaError
+ */
+export interface OrderKuotaErrorDetails {
+  /** Location of the offending value in a response, e.g. "$.account.results.balance" */
+  path?: string;
+  /** Name of the client method that failed, e.g. "getQRISHistory" */
+  request?: string;
+  /** Raw response body, when the API responded */
+  body?: unknown;
+}
+
 /**
  * Custom error for OrderKuota operations
  */
@@ -157,16 +1718,26 @@ export class OrderKuotaError extends Error {
   public readonly code: OrderKuotaErrorCode;
   /** HTTP status code */
   public readonly status?: number;
+  /** Location of the offending value for INVALID_RESPONSE errors */
+  public readonly path?: string;
+  /** Name of the client method that failed */
+  public readonly request?: string;
+  /** Raw response body, when the API responded */
+  public readonly body?: unknown;
 
   constructor(
     message: string,
     code: OrderKuotaErrorCode = "UNKNOWN_ERROR",
     status?: number,
+    details: OrderKuotaErrorDetails = {},
   ) {
     super(message);
     this.name = "OrderKuotaError";
     this.code = code;
     this.status = status;
+    this.path = details.path;
+    this.request = details.request;
+    this.body = details.body;
 
     // Maintain proper stack trace (V8 only)
     if (Error.captureStackTrace) {
@@ -0,0 +1,225 @@
+import { OrderKuotaError, Result } from "./types.js";
+
+// OrderKuota reports all timestamps in Western Indonesia Time (UTC+7, no DST)
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/**
+ * Parses an Indonesian-formatted rupiah amount such as "10.000" or "Rp 1.250,50".
+ *
+ * @param value Amount string or number from the API
+ * @returns Numeric amount, or NaN if the value cannot be parsed
+ */
+export function parseRupiah(value: string | number | null | undefined): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  if (value === null || value === undefined) {
+    return NaN;
+  }
+
+  const cleaned = value
+    .replace(/rp\.?/i, "")
+    .replace(/\s/g, "")
+    .replace(/\./g, "")
+    .replace(",", ".");
+
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+/**
+ * Formats an amount the way Indonesian receipts do, e.g. "Rp 10.000".
+ *
+ * @param amount Amount in IDR
+ * @returns Formatted amount with thousands separators
+ */
+export function formatRupiah(amount: number): string {
+  const [whole, fraction] = Math.abs(amount).toFixed(2).split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ".");
+  const sign = amount < 0 ? "-" : "";
+
+  return `${sign}Rp ${grouped}${fraction === "00" ? "" : `,${fraction}`}`;
+}
+
+/**
+ * Parses an OrderKuota timestamp ("dd/MM/yyyy HH:mm" or "yyyy-MM-dd HH:mm:ss") in WIB.
+ *
+ * @param value Timestamp string from the API
+ * @returns Parsed date, or undefined if the format is not recognized
+ */
+export function parseOrderKuotaDate(
+  value: string | undefined,
+): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let parts: string[] | undefined;
+  const localMatch = value.match(
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+  );
+  const isoMatch = value.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[\sT](\d{2}):(\d{2})(?::(\d{2}))?)?$/,
+  );
+
+  if (localMatch) {
+    const [, day, month, year, ...time] = localMatch;
+    parts = [year, month, day, ...time];
+  } else if (isoMatch) {
+    parts = isoMatch.slice(1);
+  }
+
+  if (!parts) {
+    return undefined;
+  }
+
+  const [year, month, day, hour = "0", minute = "0", second = "0"] = parts;
+  const utc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+
+  return new Date(utc - WIB_OFFSET_MS);
+}
+
+/**
+ * Formats a date as "yyyy-MM-dd" in WIB, the format history filters expect.
+ *
+ * @param date Date to format
+ * @returns Formatted date
+ */
+export function formatOrderKuotaDate(date: Date): string {
+  return new Date(date.getTime() + WIB_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Creates a lock that runs async tasks one at a time in call order.
+ *
+ * @returns Function that queues a task and resolves with its result
+ */
+export function createLock(): <T>(task: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task, task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+/**
+ * Settles a client call into a Result instead of throwing.
+ *
+ * @example
+ * ```typescript
+ * const result = await toResult(client.checkBalance());
+ * if (result.ok) {
+ *   console.log(result.value.balance);
+ * } else {
+ *   console.error(result.error.code);
+ * }
+ * ```
+ *
+ * @param promise Pending client call
+ * @returns Success value or the OrderKuotaError it failed with
+ */
+export async function toResult<T>(
+  promise: Promise<T>,
+): Promise<Result<T, OrderKuotaError>> {
+  try {
+    return { ok: true, value: await promise };
+  } catch (error) {
+    return {
+      ok: false,
+      error:
+        error instanceof OrderKuotaError
+          ? error
+          : new OrderKuotaError(`Unexpected error: ${error}`, "UNKNOWN_ERROR"),
+    };
+  }
+}
+
+/**
+ * Waits for a delay, rejecting early if the signal aborts.
+ *
+ * @param ms Delay in milliseconds
+ * @param signal Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OrderKuotaError("Request was aborted", "ABORTED"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OrderKuotaError("Request was aborted", "ABORTED"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Formats rows as CSV, quoting fields that contain the delimiter, quotes or
+ * line breaks.
+ *
+ * With `excel`, the output starts with a byte order mark, uses CRLF line
+ * endings and prefixes text starting with =, +, - or @ with an apostrophe so
+ * spreadsheets do not evaluate it as a formula.
+ *
+ * @param rows Rows of fields, header first
+ * @param options Delimiter and spreadsheet compatibility
+ * @returns CSV text
+ */
+export function formatCsv(
+  rows: (string | number)[][],
+  options: { delimiter?: string; excel?: boolean } = {},
+): string {
+  const delimiter = options.delimiter ?? ",";
+  const field = (value: string | number) => {
+    let text = String(value);
+
+    if (options.excel && typeof value === "string" && /^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return text.includes(delimiter) || /["\r\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  };
+  const newline = options.excel ? "\r\n" : "\n";
+  const body = rows.map((row) => row.map(field).join(delimiter)).join(newline);
+
+  return options.excel ? `\uFEFF${body}${newline}` : `${body}${newline}`;
+}
+
+/**
+ * Encodes fields as an application/x-www-form-urlencoded body.
+ *
+ * Keys and values are percent-encoded per RFC 3986, so bracketed keys such as
+ * `requests[0]` are sent the same way as by the Android app.
+ *
+ * @param fields Form fields
+ * @returns Encoded request body
+ */
+export function encodeForm(fields: Record<string, string>): string {
+  const encode = (value: string) =>
+    encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+
+  return Object.entries(fields)
+    .map(([key, value]) => `${encode(key)}=${encode(value)}`)
+    .join("&");
+}
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import {
+  crc16,
+  decodeQris,
+  FileReservationStore,
+  InvoiceAllocator,
+  OrderKuota,
+  serializeQrisTags,
+} from "../dist/index.js";
+
+const basePayload = `${serializeQrisTags([
+  { id: "00", value: "01" },
+  { id: "01", value: "11" },
+  { id: "52", value: "5411" },
+  { id: "53", value: "360" },
+  { id: "58", value: "ID" },
+  { id: "59", value: "TOKO MAJU" },
+  { id: "60", value: "BANDUNG" },
+])}6304`;
+const baseQrString = `${basePayload}${crc16(basePayload)}`;
+
+describe("InvoiceAllocator", () => {
+  test("gives concurrent allocations distinct amounts until the range runs out", async () => {
+    const allocator = new InvoiceAllocator({ minCode: 1, maxCode: 5 });
+
+    const allocations = await Promise.all(
+      Array.from({ length: 5 }, () => allocator.allocate(10000)),
+    );
+
+    assert.deepEqual(
+      allocations.map((allocation) => allocation.amount).sort(),
+      [10001, 10002, 10003, 10004, 10005],
+    );
+    await assert.rejects(allocator.allocate(10000), {
+      code: "ALLOCATION_EXHAUSTED",
+    });
+    // Another base amount has its own range
+    assert.ok((await allocator.allocate(20000)).amount > 20000);
+  });
+
+  test("frees an amount on release or expiry", async () => {
+    const allocator = new InvoiceAllocator({ minCode: 7, maxCode: 7 });
+
+    const first = await allocator.allocate(5000);
+    assert.equal(first.amount, 5007);
+    assert.equal(first.uniqueCode, 7);
+    await first.release();
+
+    const second = await allocator.allocate(5000, { ttl: 1 });
+    // A stale handle does not release the new reservation
+    await first.release();
+    await assert.rejects(allocator.allocate(5000), {
+      code: "ALLOCATION_EXHAUSTED",
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal((await allocator.allocate(5000)).amount, second.amount);
+  });
+
+  test("builds a pending invoice from an allocation", async () => {
+    const allocator = new InvoiceAllocator({ minCode: 42, maxCode: 42 });
+    const allocation = await allocator.allocate(10000, { invoiceId: "INV-1" });
+
+    assert.deepEqual(allocation.toPendingInvoice("INV-1"), {
+      id: "INV-1",
+      amount: 10000,
+      uniqueCode: 42,
+      expiresAt: allocation.expiresAt,
+    });
+    assert.equal((await allocator.getReservations())[0].invoiceId, "INV-1");
+  });
+
+  test("rejects invalid base amounts and code ranges", async () => {
+    const allocator = new InvoiceAllocator();
+
+    for (const amount of [0, -1, 10.5]) {
+      await assert.rejects(allocator.allocate(amount), {
+        code: "INVALID_AMOUNT",
+      });
+    }
+    for (const options of [
+      { minCode: -1 },
+      { minCode: 10, maxCode: 5 },
+      { maxCode: 1.5 },
+    ]) {
+      assert.throws(() => new InvoiceAllocator(options), {
+        code: "MISSING_CONFIG",
+      });
+    }
+  });
+
+  test("creates a local QRIS for the allocated amount", async () => {
+    const allocator = new InvoiceAllocator();
+    const client = new OrderKuota({
+      username: "merchant",
+      password: "hunter2",
+      baseQrString,
+    });
+
+    const payment = await allocator.allocateQris(client, 10000, {
+      source: "local",
+    });
+
+    assert.equal(decodeQris(payment.qrString).amount, payment.amount);
+  });
+
+  test("releases the amount when QRIS creation fails", async () => {
+    const allocator = new InvoiceAllocator({ minCode: 1, maxCode: 1 });
+    const client = new OrderKuota({ username: "merchant", password: "x" });
+
+    await assert.rejects(
+      allocator.allocateQris(client, 10000, { source: "local" }),
+      { code: "MISSING_CONFIG" },
+    );
+    assert.deepEqual(await allocator.getReservations(), []);
+  });
+});
+
+describe("FileReservationStore", () => {
+  let dir;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orderkuota-reservations-"));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  test("keeps reservations unique across allocators sharing the file", async () => {
+    const path = join(dir, "reservations.json");
+    const options = { minCode: 1, maxCode: 3 };
+    const a = new InvoiceAllocator({
+      ...options,
+      store: new FileReservationStore(path),
+    });
+    const b = new InvoiceAllocator({
+      ...options,
+      store: new FileReservationStore(path),
+    });
+
+    const first = await a.allocate(10000);
+    const second = await a.allocate(10000);
+    const third = await b.allocate(10000);
+
+    assert.equal(new Set([first.amount, second.amount, third.amount]).size, 3);
+    await assert.rejects(b.allocate(10000), { code: "ALLOCATION_EXHAUSTED" });
+
+    await second.release();
+    const reservations = await b.getReservations();
+    assert.equal(reservations.length, 2);
+    assert.ok(reservations.every((r) => r.expiresAt instanceof Date));
+    assert.equal((await b.allocate(10000)).amount, second.amount);
+  });
+});
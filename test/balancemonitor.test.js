@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { BalanceMonitor } from "../dist/index.js";
+
+// Current WIB time in the "dd/MM/yyyy HH:mm" format of QRIS history
+function wibNow() {
+  const [date, time] = new Date(Date.now() + 7 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T");
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year} ${time.slice(0, 5)}`;
+}
+
+function mutation(id, { credit = 0, debit = 0, fee = 0, date = wibNow() }) {
+  return {
+    id,
+    status: credit > 0 ? "IN" : "OUT",
+    amount: credit || debit,
+    credit,
+    debit,
+    balance: 0,
+    fee,
+    date,
+    description: "",
+  };
+}
+
+// Stub client returning one balance and one history page per poll
+function monitorOf(polls, options = {}) {
+  const client = {
+    checkBalance: async () => polls[0].balances,
+    async *history() {
+      yield* polls.shift().history;
+    },
+  };
+  const monitor = new BalanceMonitor(client, options);
+  const events = [];
+
+  for (const event of [
+    "credited",
+    "debited",
+    "unchanged",
+    "qrisSettled",
+    "belowThreshold",
+  ]) {
+    monitor.on(event, (...args) => events.push([event, ...args]));
+  }
+
+  return { monitor, events };
+}
+
+describe("BalanceMonitor", () => {
+  test("reconciles a QRIS credit after the first poll", async () => {
+    const { monitor, events } = monitorOf([
+      { balances: { balance: 1000, qris_balance: 0 }, history: [] },
+      {
+        balances: { balance: 1000, qris_balance: 9930 },
+        history: [mutation("in-1", { credit: 10000, fee: 70 })],
+      },
+    ]);
+
+    await monitor.poll();
+    assert.deepEqual(events, []);
+
+    await monitor.poll();
+    assert.equal(events.length, 1);
+    const [event, change] = events[0];
+    assert.equal(event, "credited");
+    assert.equal(change.account, "qris_balance");
+    assert.equal(change.amount, 9930);
+    assert.equal(change.explained, 9930);
+    assert.equal(change.unexplained, 0);
+  });
+
+  test("reports mutations when the balance did not move", async () => {
+    const { monitor, events } = monitorOf([
+      { balances: { balance: 1000, qris_balance: 5000 }, history: [] },
+      {
+        balances: { balance: 1000, qris_balance: 5000 },
+        history: [mutation("in-1", { credit: 10000, fee: 70 })],
+      },
+      {
+        balances: { balance: 1000, qris_balance: 5000 },
+        history: [mutation("in-1", { credit: 10000, fee: 70 })],
+      },
+    ]);
+
+    await monitor.poll();
+    await monitor.poll();
+    await monitor.poll();
+
+    assert.equal(events.length, 1);
+    const [event, change] = events[0];
+    assert.equal(event, "unchanged");
+    assert.equal(change.amount, 0);
+    assert.deepEqual(
+      change.transactions.map((transaction) => transaction.id),
+      ["in-1"],
+    );
+    assert.equal(change.unexplained, -9930);
+  });
+
+  test("keeps undated mutations, reconciled once and after dated ones", async () => {
+    const { monitor, events } = monitorOf([
+      { balances: { balance: 0, qris_balance: 0 }, history: [] },
+      {
+        balances: { balance: 0, qris_balance: 3000 },
+        history: [
+          mutation("undated", { credit: 1000, date: "kemarin" }),
+          mutation("dated", { credit: 2000 }),
+        ],
+      },
+      {
+        balances: { balance: 0, qris_balance: 3000 },
+        history: [mutation("undated", { credit: 1000, date: "kemarin" })],
+      },
+    ]);
+
+    await monitor.poll();
+    await monitor.poll();
+    await monitor.poll();
+
+    assert.equal(events.length, 1);
+    assert.deepEqual(
+      events[0][1].transactions.map((transaction) => transaction.id),
+      ["dated", "undated"],
+    );
+    assert.equal(events[0][1].unexplained, 0);
+  });
+
+  test("reports a settlement instead of a debit and a credit", async () => {
+    const { monitor, events } = monitorOf([
+      { balances: { balance: 1000, qris_balance: 50000 }, history: [] },
+      {
+        balances: { balance: 51000, qris_balance: 0 },
+        history: [mutation("out-1", { debit: 50000 })],
+      },
+    ]);
+
+    await monitor.poll();
+    await monitor.poll();
+
+    assert.deepEqual(
+      events.map(([event]) => event),
+      ["qrisSettled"],
+    );
+    assert.equal(events[0][1].amount, 50000);
+  });
+
+  test("alerts once per threshold crossing", async () => {
+    const balances = [800, 700, 2000, 900];
+    const { monitor, events } = monitorOf(
+      balances.map((balance) => ({
+        balances: { balance, qris_balance: 0 },
+        history: [],
+      })),
+      { thresholds: { balance: 1000 } },
+    );
+
+    for (let i = 0; i < balances.length; i++) {
+      await monitor.poll();
+    }
+
+    assert.deepEqual(
+      events
+        .filter(([event]) => event === "belowThreshold")
+        .map(([, account, amount]) => [account, amount]),
+      [
+        ["balance", 800],
+        ["balance", 900],
+      ],
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { OrderKuota } from "../dist/index.js";
+
+function clientReturning(...bodies) {
+  const requests = [];
+  const client = new OrderKuota({
+    username: "merchant",
+    password: "hunter2",
+    token: "1:old",
+    transport: {
+      send: async (request) => {
+        requests.push(request);
+        return { status: 200, data: bodies.shift() };
+      },
+    },
+  });
+
+  return { client, requests };
+}
+
+const account = {
+  success: true,
+  results: { id: "1", username: "merchant", balance: "1.000" },
+};
+
+test("a section reporting an expired session fails with SESSION_EXPIRED", async () => {
+  const { client } = clientReturning({
+    account,
+    qris_history: {
+      success: false,
+      message: "Sesi login telah berakhir, silakan login ulang",
+    },
+  });
+
+  await assert.rejects(client.batch().account().qrisHistory().send(), {
+    code: "SESSION_EXPIRED",
+    request: "batch",
+  });
+  assert.equal(client.hasToken(), false);
+});
+
+test("a throttled section fails with RATE_LIMITED", async () => {
+  const { client } = clientReturning({
+    account,
+    qris_history: { success: false, message: "Terlalu banyak permintaan" },
+  });
+
+  await assert.rejects(client.batch().account().qrisHistory().send(), {
+    code: "RATE_LIMITED",
+  });
+});
+
+test("other section failures stay API_ERROR", async () => {
+  const { client } = clientReturning({
+    account,
+    qris_history: { success: false, message: "Data tidak ditemukan" },
+  });
+
+  await assert.rejects(client.batch().account().qrisHistory().send(), {
+    code: "API_ERROR",
+    message: "Data tidak ditemukan",
+  });
+});
+
+test("qrisAjaib() rejects amounts that are not positive whole numbers", () => {
+  const { client, requests } = clientReturning();
+
+  for (const amount of [0, -1, 2500.5, Number.NaN]) {
+    assert.throws(() => client.batch().qrisAjaib(amount), {
+      code: "INVALID_AMOUNT",
+      request: "batch",
+    });
+  }
+  assert.equal(requests.length, 0);
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ChatBot,
+  FileMutationStore,
+  MemoryChatTransport,
+  MockOrderKuotaServer,
+} from "../dist/index.js";
+
+class FlakyChatTransport extends MemoryChatTransport {
+  failures = new Set();
+
+  async sendText(chatId, text) {
+    if (this.failures.delete(chatId)) {
+      throw new Error(`chat ${chatId} unreachable`);
+    }
+    await super.sendText(chatId, text);
+  }
+}
+
+describe("ChatBot", () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = new MockOrderKuotaServer();
+    await server.listen();
+    client = server.createClient();
+    await client.getOTP();
+    await client.getToken("123456");
+  });
+
+  after(() => server.close());
+
+  test("does not announce a credit twice when one chat fails", async () => {
+    const chat = new FlakyChatTransport();
+    const bot = new ChatBot(client, {
+      transport: chat,
+      chats: ["1", "2"],
+      interval: false,
+    });
+    await bot.poll();
+
+    server.pay({ amount: 21000 });
+    chat.failures.add("2");
+    await assert.rejects(bot.poll(), /chat 2 unreachable/);
+    await bot.poll();
+
+    assert.deepEqual(
+      chat.sent.map((message) => message.chatId),
+      ["1"],
+    );
+    assert.match(chat.sent[0].text, /Rp 21\.000/);
+  });
+
+  test("announces credits missed while down when restarted with a store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "chatbot-"));
+    const path = join(dir, "announced.json");
+
+    try {
+      server.pay({ amount: 22000 });
+      const first = new MemoryChatTransport();
+      await new ChatBot(client, {
+        transport: first,
+        chats: ["1"],
+        interval: false,
+        store: new FileMutationStore(path),
+        skipExisting: true,
+      }).poll();
+
+      server.pay({ amount: 23000 });
+      const second = new MemoryChatTransport();
+      await new ChatBot(client, {
+        transport: second,
+        chats: ["1"],
+        interval: false,
+        store: new FileMutationStore(path),
+      }).poll();
+
+      assert.deepEqual(first.sent, []);
+      assert.equal(second.sent.length, 1);
+      assert.match(second.sent[0].text, /Rp 23\.000/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects /mutasi dates that are not on the calendar", async () => {
+    const chat = new MemoryChatTransport();
+    const bot = new ChatBot(client, {
+      transport: chat,
+      chats: ["1"],
+      interval: false,
+    });
+    await bot.start();
+
+    for (const day of ["2020-13-45", "2021-02-29"]) {
+      const [reply] = await chat.receive("1", `/mutasi ${day}`);
+      assert.equal(reply.text, "Usage: /mutasi [today|yesterday|yyyy-mm-dd]");
+    }
+
+    const [reply] = await chat.receive("1", "/mutasi 2020-02-29");
+    assert.match(reply.text, /2020-02-29/);
+    await bot.stop();
+  });
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { after, before, describe, test } from "node:test";
+import { MockOrderKuotaServer } from "../dist/index.js";
+
+const cliPath = fileURLToPath(new URL("../dist/cli.js", import.meta.url));
+
+let server;
+let dir;
+
+before(async () => {
+  server = new MockOrderKuotaServer({ balance: 150000 });
+  await server.listen();
+  dir = await mkdtemp(join(tmpdir(), "orderkuota-cli-"));
+});
+
+after(async () => {
+  await server.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+// Runs the CLI against the mock server, ignoring the caller's ORDERKUOTA_* variables
+function cli(args, { env = {}, input = "" } = {}) {
+  const baseEnv = Object.fromEntries(
+    Object.entries(process.env).filter(
+      ([name]) => !name.startsWith("ORDERKUOTA_"),
+    ),
+  );
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [cliPath, ...args], {
+      cwd: dir,
+      env: {
+        ...baseEnv,
+        HOME: dir,
+        ORDERKUOTA_USERNAME: "mockuser",
+        ORDERKUOTA_BASE_URL: server.url,
+        ORDERKUOTA_SESSION_FILE: join(dir, "session.json"),
+        ...env,
+      },
+    });
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code, stdout, stderr }));
+    child.stdin.end(input);
+  });
+}
+
+describe("orderkuota CLI", () => {
+  test("prints usage for --help and no command", async () => {
+    for (const args of [["--help"], []]) {
+      const { code, stdout } = await cli(args);
+
+      assert.equal(code, 0);
+      assert.match(stdout, /^Usage: orderkuota <command>/);
+    }
+  });
+
+  test("exits 2 on usage errors", async () => {
+    for (const args of [
+      ["frobnicate"],
+      ["balance", "--bogus"],
+      ["history", "--from", "2025-02-30"],
+      ["history", "--max-pages", "0"],
+      ["qris", "abc"],
+      ["qris", "10.5"],
+    ]) {
+      const { code, stderr } = await cli(args);
+
+      assert.equal(code, 2, `${args.join(" ")}: ${stderr}`);
+    }
+  });
+
+  test("exits with the error's code when no session or password exists", async () => {
+    const { code, stderr } = await cli(["balance"], {
+      env: { ORDERKUOTA_SESSION_FILE: join(dir, "none.json") },
+    });
+
+    assert.equal(code, 3);
+    assert.match(stderr, /^Error \[MISSING_CONFIG\]: No saved session/);
+  });
+
+  test("logs in with the OTP from stdin and runs on the saved session", async () => {
+    const login = await cli(["login"], {
+      env: { ORDERKUOTA_PASSWORD: "mockpass" },
+      input: "123456\n",
+    });
+
+    assert.equal(login.code, 0, login.stderr);
+    assert.match(login.stdout, /OTP sent to mock@example\.com/);
+    assert.match(login.stdout, /Logged in as Mock Merchant \(mockuser\)/);
+    const session = JSON.parse(
+      await readFile(join(dir, "session.json"), "utf8"),
+    );
+    assert.ok(JSON.stringify(session).includes("mockuser"));
+
+    const balance = await cli(["balance"]);
+
+    assert.equal(balance.code, 0, balance.stderr);
+    assert.match(balance.stdout, /Balance: +Rp 150\.000/);
+  });
+
+  test("lists history as table, JSON and CSV", async () => {
+    server.pay({ amount: 25000 });
+    server.pay({ amount: 10000, brand: "OVO" });
+
+    const table = await cli(["history"]);
+    assert.equal(table.code, 0, table.stderr);
+    assert.match(table.stdout, /^ID +DATE +STATUS +AMOUNT/);
+    assert.match(table.stdout, /2 transaction\(s\)/);
+
+    const json = await cli(["history", "-f", "json"]);
+    assert.deepEqual(
+      JSON.parse(json.stdout)
+        .map((tx) => tx.amount)
+        .sort(),
+      [10000, 25000],
+    );
+
+    const csv = await cli(["history", "--format", "csv"]);
+    const lines = csv.stdout.trim().split(/\r?\n/);
+    assert.equal(
+      lines[0],
+      "id,date,status,amount,fee,balance,brand,description",
+    );
+    assert.equal(lines.length, 3);
+    assert.ok(lines.some((line) => line.includes(",OVO,")));
+
+    const unknown = await cli(["history", "-f", "xml"]);
+    assert.equal(unknown.code, 2);
+  });
+
+  test("writes a QRIS payment to an SVG file", async () => {
+    const output = join(dir, "qris.svg");
+
+    const { code, stdout, stderr } = await cli(["qris", "10000", "-o", output]);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /QR code written to/);
+    assert.match(stdout, /Amount: Rp 10\.000/);
+    assert.match(stdout, /QRIS: +000201/);
+    assert.match(await readFile(output, "utf8"), /^<svg/);
+  });
+
+  test("prints the QRIS menu as JSON", async () => {
+    const { code, stdout, stderr } = await cli(["menu"]);
+
+    assert.equal(code, 0, stderr);
+    assert.equal(typeof JSON.parse(stdout), "object");
+  });
+});
@@ -0,0 +1,218 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import {
+  MockOrderKuotaServer,
+  MemorySessionStore,
+  decodeQris,
+} from "../dist/index.js";
+
+describe("OrderKuota against MockOrderKuotaServer", () => {
+  let server;
+
+  before(async () => {
+    server = new MockOrderKuotaServer({ pageSize: 5 });
+    await server.listen();
+  });
+
+  after(() => server.close());
+
+  async function login(config = {}) {
+    const client = server.createClient(config);
+    await client.getOTP();
+    await client.getToken("123456");
+    return client;
+  }
+
+  describe("login", () => {
+    test("sends the OTP and exchanges it for a token", async () => {
+      const client = server.createClient();
+
+      const otp = await client.getOTP();
+      assert.equal(otp.email, "mock@example.com");
+      assert.equal(client.hasToken(), false);
+
+      const token = await client.getToken("123456");
+      assert.equal(token.username, "mockuser");
+      assert.equal(token.name, "Mock Merchant");
+      assert.equal(client.getTokenValue(), token.token);
+    });
+
+    test("rejects a wrong OTP", async () => {
+      const client = server.createClient();
+      await client.getOTP();
+
+      await assert.rejects(client.getToken("000000"), {
+        name: "OrderKuotaError",
+        code: "API_ERROR",
+        request: "getToken",
+      });
+      assert.equal(client.hasToken(), false);
+    });
+
+    test("reports a failed OTP request", async () => {
+      server.failNextOtp("OTP gagal");
+
+      await assert.rejects(server.createClient().getOTP(), {
+        code: "API_ERROR",
+        message: "OTP gagal",
+      });
+    });
+
+    test("rejects wrong credentials", async () => {
+      const client = server.createClient({ password: "wrong" });
+
+      await assert.rejects(client.getOTP(), { code: "API_ERROR" });
+    });
+
+    test("requires a token for authenticated calls", async () => {
+      await assert.rejects(server.createClient().checkBalance(), {
+        code: "INVALID_CREDENTIALS",
+      });
+    });
+  });
+
+  describe("QRIS", () => {
+    test("generates a dynamic QRIS for the amount", async () => {
+      const client = await login();
+
+      const { data } = await client.generateQRISAjaib(15000);
+      const decoded = decodeQris(data.qr_string);
+
+      assert.equal(data.amount, 15000);
+      assert.equal(decoded.amount, 15000);
+      assert.equal(decoded.type, "dynamic");
+    });
+
+    test("rejects amounts that are not positive whole numbers", async () => {
+      const client = await login();
+
+      for (const amount of [0, -1000, 1000.5, Number.NaN, Infinity]) {
+        await assert.rejects(client.generateQRISAjaib(amount), {
+          code: "INVALID_AMOUNT",
+          request: "generateQRISAjaib",
+        });
+      }
+    });
+
+    test("renders the QRIS as a PNG data URL", async () => {
+      const client = await login();
+      const { data } = await client.generateQRISAjaib(15000);
+
+      const image = await client.generateQRImage(data.qr_string);
+
+      assert.match(image, /^data:image\/png;base64,/);
+    });
+
+    test("honours scale and rejects unsupported image options", async () => {
+      const client = await login();
+      const { data } = await client.generateQRISAjaib(15000);
+      const width = (image) =>
+        Buffer.from(image.split(",")[1], "base64").readUInt32BE(16);
+
+      const small = await client.generateQRImage(data.qr_string, { scale: 2 });
+      const large = await client.generateQRImage(data.qr_string, { scale: 4 });
+
+      assert.equal(width(large), width(small) * 2);
+      await assert.rejects(
+        client.generateQRImage(data.qr_string, { type: "image/jpeg" }),
+        { code: "INVALID_ARGUMENT" },
+      );
+      await assert.rejects(
+        client.generateQRImage(data.qr_string, {
+          rendererOpts: { quality: 0.9 },
+        }),
+        { code: "INVALID_ARGUMENT", message: /rendererOpts/ },
+      );
+    });
+  });
+
+  describe("balance and history", () => {
+    test("reports incoming payments in balance and history", async () => {
+      const client = await login();
+      const before = await client.checkBalance();
+
+      const id = server.pay({ amount: 20000, brand: "OVO" });
+      const balance = await client.checkBalance();
+      const { data } = await client.getQRISHistory();
+      const transaction = data.find((tx) => tx.id === id);
+
+      assert.equal(balance.qris_balance - before.qris_balance, 20000 - 140);
+      assert.equal(transaction.status, "IN");
+      assert.equal(transaction.amount, 20000);
+      assert.equal(transaction.fee, 140);
+      assert.equal(transaction.brand.name, "OVO");
+    });
+
+    test("history() walks every page once", async () => {
+      const client = await login();
+      const ids = Array.from({ length: 12 }, (_, index) =>
+        server.pay({ amount: 1000 + index }),
+      );
+
+      const seen = [];
+      for await (const tx of client.history({ concurrency: 2 })) {
+        seen.push(tx.id);
+      }
+
+      assert.equal(new Set(seen).size, seen.length);
+      for (const id of ids) {
+        assert.ok(seen.includes(id), `missing mutation ${id}`);
+      }
+    });
+
+    test("history() stops at maxPages", async () => {
+      const client = await login();
+      const seen = [];
+
+      for await (const tx of client.history({ maxPages: 1 })) {
+        seen.push(tx);
+      }
+
+      assert.equal(seen.length, 5);
+    });
+  });
+
+  describe("re-login", () => {
+    test("logs in again with the OTP provider when the session expires", async () => {
+      const sessionStore = new MemorySessionStore();
+      const client = await login({
+        sessionStore,
+        otpProvider: async () => "123456",
+      });
+      const expired = [];
+      client.on("sessionExpired", (error) => expired.push(error.code));
+      const oldToken = client.getTokenValue();
+
+      server.expireTokens();
+      const balance = await client.checkBalance();
+
+      assert.equal(balance.success, true);
+      assert.deepEqual(expired, ["SESSION_EXPIRED"]);
+      assert.notEqual(client.getTokenValue(), oldToken);
+      assert.equal(
+        (await sessionStore.load("mockuser")).token,
+        client.getTokenValue(),
+      );
+    });
+
+    test("reports SESSION_EXPIRED without an OTP provider", async () => {
+      const client = await login();
+
+      server.expireTokens();
+
+      await assert.rejects(client.checkBalance(), {
+        code: "SESSION_EXPIRED",
+      });
+      assert.equal(client.hasToken(), false);
+    });
+
+    test("restores the token from the session store", async () => {
+      const sessionStore = new MemorySessionStore();
+      await login({ sessionStore });
+
+      const restored = server.createClient({ sessionStore });
+
+      assert.equal((await restored.checkBalance()).success, true);
+    });
+  });
+});
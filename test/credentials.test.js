@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import { inspect } from "node:util";
+import {
+  EncryptedFileCredentialsProvider,
+  EnvCredentialsProvider,
+  fingerprintToken,
+  MockOrderKuotaServer,
+  OrderKuota,
+} from "../dist/index.js";
+
+describe("EnvCredentialsProvider", () => {
+  test("reads the variables on every resolve", async () => {
+    const env = { ORDERKUOTA_PASSWORD: "hunter2" };
+    const provider = new EnvCredentialsProvider({ env });
+
+    assert.deepEqual(await provider.resolve(), {
+      password: "hunter2",
+      token: undefined,
+    });
+
+    env.ORDERKUOTA_TOKEN = "1:rotated";
+    assert.deepEqual(await provider.resolve(), {
+      password: "hunter2",
+      token: "1:rotated",
+    });
+  });
+
+  test("allows a token without a password", async () => {
+    const provider = new EnvCredentialsProvider({
+      tokenVariable: "OK_TOKEN",
+      env: { OK_TOKEN: "1:abc" },
+    });
+
+    assert.deepEqual(await provider.resolve(), {
+      password: undefined,
+      token: "1:abc",
+    });
+  });
+
+  test("rejects an environment with neither variable", async () => {
+    const provider = new EnvCredentialsProvider({
+      env: { ORDERKUOTA_PASSWORD: "" },
+    });
+
+    await assert.rejects(provider.resolve(), { code: "MISSING_CONFIG" });
+  });
+});
+
+describe("EncryptedFileCredentialsProvider", () => {
+  let dir;
+  let path;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orderkuota-credentials-"));
+    path = join(dir, "credentials.json");
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  test("round-trips credentials in an owner-only encrypted file", async () => {
+    const provider = new EncryptedFileCredentialsProvider(path, "passphrase");
+
+    await provider.save("merchant-a", { password: "hunter2" });
+    await provider.save("merchant-b", { password: "swordfish", token: "1:b" });
+
+    assert.deepEqual(await provider.resolve("merchant-a"), {
+      password: "hunter2",
+    });
+    assert.deepEqual(await provider.resolve("merchant-b"), {
+      password: "swordfish",
+      token: "1:b",
+    });
+    assert.equal((await stat(path)).mode & 0o777, 0o600);
+    assert.ok(!(await readFile(path, "utf8")).includes("hunter2"));
+  });
+
+  test("rejects a wrong passphrase and unknown or removed accounts", async () => {
+    const provider = new EncryptedFileCredentialsProvider(
+      path,
+      async () => "passphrase",
+    );
+
+    await assert.rejects(
+      new EncryptedFileCredentialsProvider(path, "wrong").resolve("merchant-a"),
+      { code: "INVALID_CREDENTIALS" },
+    );
+    await assert.rejects(provider.resolve("merchant-c"), {
+      code: "MISSING_CONFIG",
+    });
+
+    await provider.remove("merchant-a");
+    await assert.rejects(provider.resolve("merchant-a"), {
+      code: "MISSING_CONFIG",
+    });
+  });
+});
+
+describe("client secrets", () => {
+  let server;
+
+  before(async () => {
+    server = new MockOrderKuotaServer();
+    await server.listen();
+  });
+
+  after(() => server.close());
+
+  test("masks the token in getConfig, JSON and inspect", () => {
+    const client = new OrderKuota({
+      username: "merchant",
+      password: "hunter2",
+      token: "1:secret-token",
+    });
+
+    for (const view of [
+      JSON.stringify(client.getConfig()),
+      JSON.stringify(client),
+      inspect(client),
+    ]) {
+      assert.ok(view.includes("[REDACTED]"), view);
+      assert.ok(!view.includes("secret-token"), view);
+      assert.ok(!view.includes("hunter2"), view);
+    }
+    assert.equal(client.getTokenValue(), "1:secret-token");
+  });
+
+  test("releases a plain password after login", async () => {
+    const client = server.createClient();
+
+    await client.getOTP();
+    await client.getToken("123456");
+
+    await assert.rejects(client.getOTP(), { code: "MISSING_CONFIG" });
+    assert.equal(client.hasToken(), true);
+  });
+
+  test("keeps a plain password for an OTP provider", async () => {
+    const client = server.createClient({ otpProvider: async () => "123456" });
+
+    await client.getOTP();
+    await client.getToken("123456");
+
+    assert.equal((await client.getOTP()).status, "success");
+  });
+
+  test("runs on an environment token without a password", async () => {
+    const login = server.createClient();
+    await login.getOTP();
+    const { token } = await login.getToken("123456");
+
+    const client = new OrderKuota({
+      username: "mockuser",
+      baseUrl: server.url,
+      credentials: new EnvCredentialsProvider({
+        env: { ORDERKUOTA_TOKEN: token },
+      }),
+    });
+
+    assert.equal((await client.checkBalance()).success, true);
+    await assert.rejects(client.getOTP(), { code: "MISSING_CONFIG" });
+  });
+});
+
+test("fingerprintToken returns the first 12 hex digits of SHA-256", async () => {
+  assert.equal(await fingerprintToken("abc"), "sha256:ba7816bf8f01");
+  assert.notEqual(await fingerprintToken("1:a"), await fingerprintToken("1:b"));
+});
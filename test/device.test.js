@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  DEFAULT_DEVICE_PROFILE,
+  generateDeviceProfile,
+  MemorySessionStore,
+  OrderKuota,
+} from "../dist/index.js";
+
+// Stub client recording the form fields and headers of every request
+function recordingClient(config = {}) {
+  const requests = [];
+  const client = new OrderKuota({
+    username: "merchant",
+    password: "hunter2",
+    ...config,
+    transport: {
+      send: async (request) => {
+        requests.push({
+          fields: Object.fromEntries(new URLSearchParams(request.body)),
+          headers: request.headers,
+        });
+        return {
+          status: 200,
+          data: {
+            success: true,
+            results: { otp: "email", otp_value: "m***@example.com" },
+          },
+        };
+      },
+    },
+  });
+
+  return { client, requests };
+}
+
+describe("generateDeviceProfile", () => {
+  test("generates a fresh installation and FCM registration ID", () => {
+    const a = generateDeviceProfile();
+    const b = generateDeviceProfile();
+
+    assert.match(a.phoneUuid, /^[A-Za-z0-9_-]{22}$/);
+    assert.match(a.appRegId, /^[A-Za-z0-9_-]{22}:APA91b[A-Za-z0-9_-]{113}$/);
+    assert.ok(a.appRegId.startsWith(`${a.phoneUuid}:`));
+    assert.notEqual(a.phoneUuid, b.phoneUuid);
+    assert.notEqual(a.phoneUuid, DEFAULT_DEVICE_PROFILE.phoneUuid);
+    assert.equal(a.appVersionCode, DEFAULT_DEVICE_PROFILE.appVersionCode);
+    assert.equal(a.userAgent, DEFAULT_DEVICE_PROFILE.userAgent);
+  });
+
+  test("applies overrides over the generated fields", () => {
+    const profile = generateDeviceProfile({
+      phoneUuid: "fixed-uuid",
+      phoneModel: "Pixel 9",
+    });
+
+    assert.equal(profile.phoneUuid, "fixed-uuid");
+    assert.equal(profile.phoneModel, "Pixel 9");
+    assert.match(profile.appRegId, /:APA91b/);
+  });
+
+  test("keeps the default profile frozen", () => {
+    assert.equal(Object.isFrozen(DEFAULT_DEVICE_PROFILE), true);
+  });
+});
+
+describe("client device profile", () => {
+  test("sends the default profile as form fields and User-Agent", async () => {
+    const { client, requests } = recordingClient();
+
+    await client.getOTP();
+
+    assert.deepEqual(client.getDeviceProfile(), { ...DEFAULT_DEVICE_PROFILE });
+    assert.equal(requests[0].headers["User-Agent"], "okhttp/4.12.0");
+    assert.deepEqual(
+      {
+        app_reg_id: requests[0].fields.app_reg_id,
+        phone_uuid: requests[0].fields.phone_uuid,
+        phone_model: requests[0].fields.phone_model,
+        phone_android_version: requests[0].fields.phone_android_version,
+        app_version_code: requests[0].fields.app_version_code,
+        app_version_name: requests[0].fields.app_version_name,
+        ui_mode: requests[0].fields.ui_mode,
+      },
+      {
+        app_reg_id: DEFAULT_DEVICE_PROFILE.appRegId,
+        phone_uuid: DEFAULT_DEVICE_PROFILE.phoneUuid,
+        phone_model: DEFAULT_DEVICE_PROFILE.phoneModel,
+        phone_android_version: DEFAULT_DEVICE_PROFILE.androidVersion,
+        app_version_code: DEFAULT_DEVICE_PROFILE.appVersionCode,
+        app_version_name: DEFAULT_DEVICE_PROFILE.appVersionName,
+        ui_mode: DEFAULT_DEVICE_PROFILE.uiMode,
+      },
+    );
+  });
+
+  test("uses a random profile and overrides when configured", async () => {
+    const { client, requests } = recordingClient({
+      randomDevice: true,
+      device: { userAgent: "okhttp/5.0.0", uiMode: "dark" },
+    });
+
+    await client.getOTP();
+
+    const device = client.getDeviceProfile();
+    assert.notEqual(device.phoneUuid, DEFAULT_DEVICE_PROFILE.phoneUuid);
+    assert.equal(requests[0].fields.phone_uuid, device.phoneUuid);
+    assert.equal(requests[0].fields.ui_mode, "dark");
+    assert.equal(requests[0].headers["User-Agent"], "okhttp/5.0.0");
+  });
+
+  test("restores the stored profile, keeping explicit overrides", async () => {
+    const sessionStore = new MemorySessionStore();
+    const stored = generateDeviceProfile();
+    await sessionStore.save({
+      username: "merchant",
+      device: stored,
+      updatedAt: new Date().toISOString(),
+    });
+    const { client, requests } = recordingClient({
+      sessionStore,
+      randomDevice: true,
+      device: { phoneModel: "Pixel 9" },
+    });
+
+    await client.getOTP();
+
+    assert.deepEqual(client.getDeviceProfile(), {
+      ...stored,
+      phoneModel: "Pixel 9",
+    });
+    assert.equal(requests[0].fields.app_reg_id, stored.appRegId);
+    assert.equal(requests[0].fields.phone_model, "Pixel 9");
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { test } from "node:test";
+import { TypedEmitter } from "../dist/edge.js";
+
+const dist = join(dirname(fileURLToPath(import.meta.url)), "../dist");
+
+function importsOf(file) {
+  const source = readFileSync(file, "utf8");
+  return [
+    ...source.matchAll(/^(?:import|export)\b[^;]*?from\s*"([^"]+)";/gm),
+    ...source.matchAll(/^import\s*"([^"]+)";/gm),
+  ].map((match) => match[1]);
+}
+
+test("the edge build imports only its own modules", () => {
+  const seen = new Set();
+  const external = [];
+  const queue = [join(dist, "edge.js")];
+
+  while (queue.length > 0) {
+    const file = queue.pop();
+    if (seen.has(file)) {
+      continue;
+    }
+    seen.add(file);
+
+    for (const specifier of importsOf(file)) {
+      if (specifier.startsWith(".")) {
+        queue.push(join(dirname(file), specifier));
+      } else {
+        external.push(specifier);
+      }
+    }
+  }
+
+  assert.deepEqual(external, []);
+});
+
+test("TypedEmitter calls once listeners a single time", () => {
+  const emitter = new TypedEmitter();
+  const calls = [];
+  emitter.once("tick", (value) => calls.push(`once ${value}`));
+  emitter.on("tick", (value) => calls.push(`on ${value}`));
+
+  emitter.emit("tick", 1);
+  emitter.emit("tick", 2);
+
+  assert.deepEqual(calls, ["once 1", "on 1", "on 2"]);
+  assert.equal(emitter.listenerCount("tick"), 1);
+});
+
+test("TypedEmitter throws an unhandled error event", () => {
+  const emitter = new TypedEmitter();
+  const error = new Error("boom");
+
+  assert.throws(() => emitter.emit("error", error), error);
+
+  emitter.on("error", () => {});
+  assert.equal(emitter.emit("error", error), true);
+});
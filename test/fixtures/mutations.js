@@ -0,0 +1,186 @@
+// Mutation entries in the formats the normalizer understands, each paired
+// with the record normalizeMutation() must produce. Add the formats seen on
+// real accounts here.
+export const MUTATION_FIXTURES = [
+  {
+    name: "pipe-separated description with brand",
+    raw: {
+      id: "1001",
+      debet: "0",
+      kredit: "10.000",
+      saldo_akhir: "9.930",
+      keterangan: "NMID : ID1020000000001 | DANA | 3F2A9C01B7DE",
+      tanggal: "19/08/2025 14:05",
+      status: "IN",
+      fee: "70",
+      brand: {
+        name: "DANA",
+        logo: "https://app.orderkuota.com/assets/qris/dana.png",
+      },
+    },
+    expected: {
+      id: "1001",
+      direction: "credit",
+      amount: 10000n,
+      fee: 70n,
+      balance: 9930n,
+      date: new Date("2025-08-19T07:05:00.000Z"),
+      issuer: "DANA",
+      reference: "3F2A9C01B7DE",
+      nmid: "ID1020000000001",
+      description: "NMID : ID1020000000001 | DANA | 3F2A9C01B7DE",
+    },
+  },
+  {
+    name: "issuer and labelled RRN in description, no brand",
+    raw: {
+      id: "1002",
+      debet: "0",
+      kredit: "25.500",
+      saldo_akhir: "35.251",
+      keterangan: "QRIS OVO RRN:523114882301 NMID:ID1020000000001",
+      tanggal: "19/08/2025 14:31",
+      status: "IN",
+      fee: "179",
+    },
+    expected: {
+      id: "1002",
+      direction: "credit",
+      amount: 25500n,
+      fee: 179n,
+      balance: 35251n,
+      date: new Date("2025-08-19T07:31:00.000Z"),
+      issuer: "OVO",
+      reference: "523114882301",
+      nmid: "ID1020000000001",
+      description: "QRIS OVO RRN:523114882301 NMID:ID1020000000001",
+    },
+  },
+  {
+    name: "brand alias, Rp prefix and ISO timestamp",
+    raw: {
+      id: "1003",
+      debet: "0",
+      kredit: "Rp 50.000",
+      saldo_akhir: "84.901",
+      keterangan: "Pembayaran QRIS dari GO-PAY Ref 0819ABCD7788",
+      tanggal: "2025-08-19 23:59:59",
+      status: "IN",
+      fee: "350",
+      brand: { name: "GOPAY" },
+    },
+    expected: {
+      id: "1003",
+      direction: "credit",
+      amount: 50000n,
+      fee: 350n,
+      balance: 84901n,
+      date: new Date("2025-08-19T16:59:59.000Z"),
+      issuer: "GoPay",
+      reference: "0819ABCD7788",
+      nmid: undefined,
+      description: "Pembayaran QRIS dari GO-PAY Ref 0819ABCD7788",
+    },
+  },
+  {
+    name: "bank brand by full name, after midnight WIB",
+    raw: {
+      id: "1004",
+      debet: "0",
+      kredit: "1.250.000",
+      saldo_akhir: "1.326.151",
+      keterangan: "QRIS | BCA | 523200017744",
+      tanggal: "20/08/2025 00:15",
+      status: "IN",
+      fee: "8.750",
+      brand: { name: "Bank Central Asia" },
+    },
+    expected: {
+      id: "1004",
+      direction: "credit",
+      amount: 1250000n,
+      fee: 8750n,
+      balance: 1326151n,
+      date: new Date("2025-08-19T17:15:00.000Z"),
+      issuer: "BCA",
+      reference: "523200017744",
+      nmid: undefined,
+      description: "QRIS | BCA | 523200017744",
+    },
+  },
+  {
+    name: "fee and bare RRN in description",
+    raw: {
+      id: "1005",
+      debet: "0",
+      kredit: "15.000",
+      saldo_akhir: "1.341.046",
+      keterangan: "ShopeePay 523300091122 biaya Rp 105",
+      tanggal: "20/08/2025 09:02",
+      status: "IN",
+    },
+    expected: {
+      id: "1005",
+      direction: "credit",
+      amount: 15000n,
+      fee: 105n,
+      balance: 1341046n,
+      date: new Date("2025-08-20T02:02:00.000Z"),
+      issuer: "ShopeePay",
+      reference: "523300091122",
+      nmid: undefined,
+      description: "ShopeePay 523300091122 biaya Rp 105",
+    },
+  },
+  {
+    name: "withdrawal debit",
+    raw: {
+      id: "1006",
+      debet: "1.000.000",
+      kredit: "0",
+      saldo_akhir: "341.046",
+      keterangan: "Pencairan saldo QRIS ke saldo akun",
+      tanggal: "20/08/2025 10:00",
+      status: "OUT",
+      fee: "0",
+    },
+    expected: {
+      id: "1006",
+      direction: "debit",
+      amount: 1000000n,
+      fee: 0n,
+      balance: 341046n,
+      date: new Date("2025-08-20T03:00:00.000Z"),
+      issuer: undefined,
+      reference: undefined,
+      nmid: undefined,
+      description: "Pencairan saldo QRIS ke saldo akun",
+    },
+  },
+  {
+    name: "numeric fields",
+    raw: {
+      id: 1007,
+      debet: 0,
+      kredit: 20000,
+      saldo_akhir: 360906,
+      keterangan: "NMID : ID1020000000001 | LinkAja | 523400055512",
+      tanggal: "20/08/2025 12:45",
+      status: "IN",
+      fee: 140,
+      brand: { name: "LinkAja" },
+    },
+    expected: {
+      id: "1007",
+      direction: "credit",
+      amount: 20000n,
+      fee: 140n,
+      balance: 360906n,
+      date: new Date("2025-08-20T05:45:00.000Z"),
+      issuer: "LinkAja",
+      reference: "523400055512",
+      nmid: "ID1020000000001",
+      description: "NMID : ID1020000000001 | LinkAja | 523400055512",
+    },
+  },
+];
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { MockOrderKuotaServer, PaymentGateway } from "../dist/index.js";
+
+describe("PaymentGateway", () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = new MockOrderKuotaServer();
+    await server.listen();
+    client = server.createClient();
+    await client.getOTP();
+    await client.getToken("123456");
+  });
+
+  after(() => server.close());
+
+  async function start(options = {}) {
+    const gateway = new PaymentGateway(client, {
+      apiKeys: ["secret"],
+      watcher: { interval: 60000 },
+      ...options,
+    });
+    const url = await gateway.listen(0, "127.0.0.1");
+    const post = (body) =>
+      fetch(`${url}/invoices`, {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer secret",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+    const get = (path) =>
+      fetch(`${url}${path}`, { headers: { Authorization: "Bearer secret" } });
+
+    return { gateway, post, get };
+  }
+
+  test("creates one invoice for concurrent requests with the same id", async () => {
+    const { gateway, post } = await start();
+    const allocated = [];
+    gateway.on("created", (invoice) => allocated.push(invoice.id));
+
+    try {
+      const statuses = (
+        await Promise.all([
+          post({ id: "order-1", amount: 10000, image: "none" }),
+          post({ id: "order-1", amount: 10000, image: "none" }),
+        ])
+      ).map((response) => response.status);
+
+      assert.deepEqual(statuses.sort(), [201, 409]);
+      assert.deepEqual(allocated, ["order-1"]);
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  test("frees the id when allocation fails", async () => {
+    const { gateway, post } = await start({ allocator: { maxCode: 1 } });
+
+    try {
+      assert.equal(
+        (await post({ id: "a", amount: 5000, image: "none" })).status,
+        201,
+      );
+      assert.equal(
+        (await post({ id: "b", amount: 5000, image: "none" })).status,
+        409,
+      );
+      assert.equal(
+        (await post({ id: "b", amount: 6000, image: "none" })).status,
+        201,
+      );
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  test("drops settled invoices after the retention period", async () => {
+    const { gateway, post } = await start({ retention: 0 });
+
+    try {
+      const response = await post({
+        id: "short",
+        amount: 7000,
+        ttl: 1,
+        image: "none",
+      });
+      assert.equal(response.status, 201);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      // The next invoice expires the first, the one after drops it
+      await post({ id: "next", amount: 7000, image: "none" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await post({ id: "last", amount: 7000, image: "none" });
+
+      assert.equal(gateway.getInvoice("short"), undefined);
+      assert.equal(gateway.getInvoice("next").status, "pending");
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  test("prunes on read-only requests", async () => {
+    const { gateway, post, get } = await start({ retention: 0 });
+
+    try {
+      await post({ id: "quiet", amount: 8000, ttl: 1, image: "none" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      // The first read expires the invoice, the second drops it
+      await get("/balance");
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      assert.equal((await get("/invoices/quiet")).status, 404);
+      assert.equal(gateway.getInvoice("quiet"), undefined);
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  test("rejects malformed ids, query parameters and metadata", async () => {
+    const { gateway, post, get } = await start();
+
+    try {
+      const invalid = async (response) => {
+        assert.equal(response.status, 400);
+        assert.equal((await response.json()).error.code, "INVALID_REQUEST");
+      };
+
+      await invalid(await get("/invoices/%E0%A4%A"));
+      await invalid(await get("/transactions?type=../balance"));
+      await invalid(await get("/transactions?page=0"));
+      await invalid(await get("/transactions?page=1.5"));
+      await invalid(await post({ amount: 9000, metadata: ["a"] }));
+      await invalid(await post({ amount: 9000, metadata: "note" }));
+      await invalid(await post({ amount: 9000, metadata: null }));
+
+      assert.equal(
+        (await get("/transactions?type=qris_history&page=1")).status,
+        200,
+      );
+    } finally {
+      await gateway.close();
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileInvoiceStore,
+  InvoiceManager,
+  MockOrderKuotaServer,
+} from "../dist/index.js";
+
+describe("InvoiceManager", () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = new MockOrderKuotaServer();
+    await server.listen();
+    client = server.createClient();
+    await client.getOTP();
+    await client.getToken("123456");
+  });
+
+  after(() => server.close());
+
+  test("marks an exact credit paid", async () => {
+    const invoices = new InvoiceManager(client);
+    const invoice = await invoices.create(11000);
+
+    server.pay({ amount: 11000 });
+    await invoices.poll();
+
+    assert.equal((await invoices.get(invoice.id)).status, "paid");
+  });
+
+  test("leaves other amounts alone without a tolerance", async () => {
+    const invoices = new InvoiceManager(client);
+    const invoice = await invoices.create(12000);
+
+    server.pay({ amount: 12500 });
+    await invoices.poll();
+
+    assert.equal((await invoices.get(invoice.id)).status, "pending");
+  });
+
+  test("reports a credit matching two invoices as ambiguous", async () => {
+    const invoices = new InvoiceManager(client);
+    const first = await invoices.create(13000);
+    const second = await invoices.create(13000);
+    const ambiguous = [];
+    invoices.on("ambiguous", (transaction, candidates) =>
+      ambiguous.push(candidates.map((invoice) => invoice.id).sort()),
+    );
+
+    server.pay({ amount: 13000 });
+    await invoices.poll();
+
+    assert.deepEqual(ambiguous, [[first.id, second.id].sort()]);
+    assert.equal((await invoices.get(first.id)).status, "pending");
+    assert.equal((await invoices.get(second.id)).status, "pending");
+
+    await invoices.cancel(second.id);
+    await invoices.poll();
+
+    // The credit was handled once and does not settle the remaining invoice
+    assert.equal(ambiguous.length, 1);
+    assert.equal((await invoices.get(first.id)).status, "pending");
+  });
+
+  test("returns the stored invoice for a repeated idempotency key", async () => {
+    const invoices = new InvoiceManager(client);
+    const options = { idempotencyKey: "order-1", metadata: { orderId: 1 } };
+
+    const [a, b] = await Promise.all([
+      invoices.create(14000, options),
+      invoices.create(14000, options),
+    ]);
+
+    assert.equal(a.id, b.id);
+    assert.equal((await invoices.create(14000, options)).id, a.id);
+  });
+
+  test("rejects an idempotency key reused for another request", async () => {
+    const invoices = new InvoiceManager(client);
+    await invoices.create(15000, {
+      idempotencyKey: "order-2",
+      metadata: { orderId: 2 },
+    });
+
+    await assert.rejects(
+      invoices.create(16000, {
+        idempotencyKey: "order-2",
+        metadata: { orderId: 2 },
+      }),
+      { code: "INVALID_STATE" },
+    );
+    await assert.rejects(
+      invoices.create(15000, {
+        idempotencyKey: "order-2",
+        metadata: { orderId: 3 },
+      }),
+      { code: "INVALID_STATE" },
+    );
+  });
+
+  test("compares retries with the requested amount, not the API's", async () => {
+    const invoices = new InvoiceManager({
+      generateQRISAjaib: async (amount) => ({
+        data: { amount: amount + 7, qr_string: "000201" },
+      }),
+      getQRISHistory: async () => ({ data: [] }),
+      getConfig: () => ({ username: "mockuser" }),
+    });
+    const options = { idempotencyKey: "order-3" };
+
+    const invoice = await invoices.create(17000, options);
+
+    assert.equal(invoice.amount, 17007);
+    assert.equal((await invoices.create(17000, options)).id, invoice.id);
+  });
+
+  test("accepts a retry whose metadata went through a file store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "invoices-"));
+
+    try {
+      const invoices = new InvoiceManager(client, {
+        store: new FileInvoiceStore(join(dir, "invoices.json")),
+      });
+      const options = {
+        idempotencyKey: "order-4",
+        metadata: { placedAt: new Date(0), note: undefined },
+      };
+
+      const invoice = await invoices.create(18000, options);
+
+      assert.equal((await invoices.create(18000, options)).id, invoice.id);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  detectIssuer,
+  normalizeMutation,
+  normalizeTransaction,
+} from "../dist/index.js";
+import { MUTATION_FIXTURES } from "./fixtures/mutations.js";
+
+const raw = MUTATION_FIXTURES[0].raw;
+
+describe("normalizeMutation", () => {
+  for (const fixture of MUTATION_FIXTURES) {
+    test(`normalizes ${fixture.name}`, () => {
+      assert.deepEqual(normalizeMutation(fixture.raw), fixture.expected);
+    });
+  }
+
+  test("rounds fractions of a rupiah", () => {
+    const transaction = normalizeMutation({ ...raw, kredit: "12.345.678,9" });
+
+    assert.equal(transaction.amount, 12345679n);
+  });
+
+  for (const kredit of ["10,000", "1.0000", "abc", "10.000,123"]) {
+    test(`rejects the amount ${JSON.stringify(kredit)}`, () => {
+      assert.throws(() => normalizeMutation({ ...raw, kredit }), {
+        code: "INVALID_RESPONSE",
+      });
+    });
+  }
+
+  test("rejects an unrecognized date", () => {
+    assert.throws(() => normalizeMutation({ ...raw, tanggal: "kemarin" }), {
+      code: "INVALID_RESPONSE",
+      path: "$.tanggal",
+    });
+  });
+});
+
+describe("normalizeTransaction", () => {
+  const transaction = {
+    id: "2001",
+    status: "IN",
+    amount: 15000,
+    credit: 15000,
+    debit: 0,
+    balance: 40000,
+    fee: 0,
+    date: "21/08/2025 08:30",
+    description: "NMID : ID1020000000001 | OVO | 523500012345 | Fee 105",
+    brand: { name: "OVO" },
+  };
+
+  test("normalizes a decoded transaction", () => {
+    assert.deepEqual(normalizeTransaction(transaction), {
+      id: "2001",
+      direction: "credit",
+      amount: 15000n,
+      fee: 105n,
+      balance: 40000n,
+      date: new Date("2025-08-21T01:30:00.000Z"),
+      issuer: "OVO",
+      reference: "523500012345",
+      nmid: "ID1020000000001",
+      description: transaction.description,
+    });
+  });
+
+  test("reads debits from the debit amount", () => {
+    const normalized = normalizeTransaction({
+      ...transaction,
+      status: "OUT",
+      credit: 0,
+      debit: 5000,
+    });
+
+    assert.equal(normalized.direction, "debit");
+    assert.equal(normalized.amount, 5000n);
+  });
+
+  test("rejects an unrecognized date", () => {
+    assert.throws(() => normalizeTransaction({ ...transaction, date: "" }), {
+      code: "INVALID_RESPONSE",
+    });
+  });
+});
+
+describe("detectIssuer", () => {
+  test("maps spellings to canonical names", () => {
+    assert.equal(detectIssuer("Pembayaran GO-PAY"), "GoPay");
+    assert.equal(detectIssuer("Transfer dari Bank Jago"), "Jago");
+  });
+
+  test("does not take the word jago for the bank", () => {
+    assert.equal(detectIssuer("Titip bayar untuk si jago masak"), undefined);
+  });
+});
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { OrderKuota, OrderKuotaError } from "../dist/index.js";
+
+test("onError receives the error with its body redacted", async () => {
+  const body = {
+    success: false,
+    message: "Gagal",
+    results: { token: "1234567:secret" },
+  };
+  const events = [];
+  const client = new OrderKuota({
+    username: "merchant",
+    password: "hunter2",
+    transport: { send: async () => ({ status: 200, data: body }) },
+    hooks: { onError: (event) => events.push(event) },
+  });
+
+  const thrown = await client.getOTP().catch((error) => error);
+  const [event] = events;
+
+  assert.ok(event.error instanceof OrderKuotaError);
+  assert.equal(event.error.code, thrown.code);
+  assert.equal(event.error.request, "getOTP");
+  assert.equal(event.error.body.results.token, "[REDACTED]");
+  assert.equal(thrown.body.results.token, "1234567:secret");
+});
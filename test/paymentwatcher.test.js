@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import { FileMutationStore, PaymentWatcher } from "../dist/index.js";
+
+const createdAt = new Date("2025-01-15T10:00:00+07:00");
+const expiresAt = new Date("2099-01-01T00:00:00+07:00");
+
+function credit(id, amount, date = "15/01/2025 10:05", status = "IN") {
+  return {
+    id,
+    status,
+    amount,
+    credit: status === "IN" ? amount : 0,
+    debit: status === "IN" ? 0 : amount,
+    balance: 0,
+    fee: 0,
+    date,
+    description: "",
+  };
+}
+
+// Stub client whose history is the given list on every poll
+function watcherOf(history, options = {}) {
+  const watcher = new PaymentWatcher(
+    { getQRISHistory: async () => ({ status: "success", data: history }) },
+    options,
+  );
+  const events = [];
+
+  for (const event of ["paid", "expired", "ambiguous"]) {
+    watcher.on(event, (...args) => events.push([event, ...args]));
+  }
+
+  return { watcher, events };
+}
+
+describe("PaymentWatcher", () => {
+  test("pays the invoice whose amount plus unique code was credited once", async () => {
+    const history = [credit("tx-1", 10123)];
+    const { watcher, events } = watcherOf(history);
+    watcher.addInvoice({
+      id: "inv-1",
+      amount: 10000,
+      uniqueCode: 123,
+      createdAt,
+      expiresAt,
+    });
+    watcher.addInvoice({ id: "inv-2", amount: 10000, createdAt, expiresAt });
+
+    await watcher.poll();
+    await watcher.poll();
+
+    assert.deepEqual(
+      events.map(([event, invoice, transaction]) => [
+        event,
+        invoice.id,
+        transaction.id,
+      ]),
+      [["paid", "inv-1", "tx-1"]],
+    );
+    assert.deepEqual(
+      watcher.getPendingInvoices().map((invoice) => invoice.id),
+      ["inv-2"],
+    );
+  });
+
+  test("reports a credit matching several invoices as ambiguous once", async () => {
+    const { watcher, events } = watcherOf([credit("tx-1", 10000)]);
+    watcher.addInvoice({ id: "a", amount: 10000, createdAt, expiresAt });
+    watcher.addInvoice({ id: "b", amount: 10000, createdAt, expiresAt });
+
+    await watcher.poll();
+    await watcher.poll();
+
+    assert.equal(events.length, 1);
+    const [event, transaction, candidates] = events[0];
+    assert.equal(event, "ambiguous");
+    assert.equal(transaction.id, "tx-1");
+    assert.deepEqual(
+      candidates.map((invoice) => invoice.id),
+      ["a", "b"],
+    );
+    assert.equal(watcher.getPendingInvoices().length, 2);
+  });
+
+  test("ignores debits, undated credits and credits outside the window", async () => {
+    const { watcher, events } = watcherOf([
+      credit("debit", 10000, "15/01/2025 10:05", "OUT"),
+      credit("undated", 10000, "tadi pagi"),
+      credit("early", 10000, "15/01/2025 09:58"),
+    ]);
+    watcher.addInvoice({ id: "inv", amount: 10000, createdAt, expiresAt });
+
+    await watcher.poll();
+    assert.deepEqual(events, []);
+
+    // Within the default one-minute clock skew
+    const { watcher: skewed, events: paid } = watcherOf([
+      credit("skewed", 10000, "15/01/2025 09:59"),
+    ]);
+    skewed.addInvoice({ id: "inv", amount: 10000, createdAt, expiresAt });
+
+    await skewed.poll();
+    assert.equal(paid[0][0], "paid");
+  });
+
+  test("expires invoices past their expiry", async () => {
+    const { watcher, events } = watcherOf([]);
+    watcher.addInvoice({
+      id: "late",
+      amount: 10000,
+      expiresAt: new Date(Date.now() - 1),
+    });
+
+    await watcher.poll();
+
+    assert.deepEqual(
+      events.map(([event, invoice]) => [event, invoice.id]),
+      [["expired", "late"]],
+    );
+    assert.equal(watcher.getPendingInvoices().length, 0);
+  });
+
+  test("rejects invoices without a positive amount", () => {
+    const { watcher } = watcherOf([]);
+
+    assert.throws(() => watcher.addInvoice({ id: "x", amount: 0, expiresAt }), {
+      code: "INVALID_AMOUNT",
+    });
+  });
+});
+
+describe("FileMutationStore", () => {
+  let dir;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orderkuota-mutations-"));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  test("keeps every ID across overlapping adds and restarts", async () => {
+    const path = join(dir, "mutations.json");
+    const store = new FileMutationStore(path);
+    const ids = Array.from({ length: 20 }, (_, i) => `tx-${i}`);
+
+    await Promise.all(ids.map((id) => store.add(id)));
+
+    const reopened = new FileMutationStore(path);
+    for (const id of ids) {
+      assert.equal(await reopened.has(id), true);
+    }
+    assert.equal(await reopened.has("tx-unknown"), false);
+    assert.deepEqual(
+      JSON.parse(await readFile(path, "utf8")).sort(),
+      [...ids].sort(),
+    );
+  });
+
+  test("starts empty when the file does not exist", async () => {
+    const store = new FileMutationStore(join(dir, "missing.json"));
+
+    assert.equal(await store.has("tx-1"), false);
+  });
+});
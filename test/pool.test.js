@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { OrderKuota, OrderKuotaError, OrderKuotaPool } from "../dist/index.js";
+
+function account(username) {
+  return new OrderKuota({
+    username,
+    password: "hunter2",
+    token: "1:old",
+    transport: {
+      send: async () => ({
+        status: 200,
+        data: { qris_ajaib: { success: true, results: { qr_string: "QR" } } },
+      }),
+    },
+  });
+}
+
+test("completes the pending payment with the given id", async () => {
+  const pool = new OrderKuotaPool([account("merchant-a")], {
+    strategy: "fewest-pending",
+  });
+  const first = await pool.generateQRISAjaib(10000);
+  const second = await pool.generateQRISAjaib(20000);
+
+  assert.notEqual(first.paymentId, second.paymentId);
+  assert.equal(pool.getAccounts()[0].pending, 2);
+
+  pool.completePayment("merchant-a", second.paymentId);
+  pool.completePayment("merchant-a", second.paymentId);
+  assert.equal(pool.getAccounts()[0].pending, 1);
+
+  pool.completePayment("merchant-a", first.paymentId);
+  assert.equal(pool.getAccounts()[0].pending, 0);
+});
+
+test("closes every history iterator when a first page fails", async () => {
+  const a = account("merchant-a");
+  const b = account("merchant-b");
+  let closed = false;
+
+  a.history = async function* () {
+    throw new OrderKuotaError("Network error: down", "NETWORK_ERROR");
+  };
+  b.history = async function* () {
+    try {
+      yield { id: "1", date: "15/01/2025 10:00", amount: 1000 };
+    } finally {
+      closed = true;
+    }
+  };
+
+  const pool = new OrderKuotaPool([a, b]);
+
+  await assert.rejects(pool.history().next(), { code: "NETWORK_ERROR" });
+  assert.equal(closed, true);
+});
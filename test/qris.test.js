@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  createDynamicQris,
+  crc16,
+  decodeQris,
+  isValidQris,
+  parseQrisTags,
+  serializeQrisTags,
+} from "../dist/index.js";
+
+const tags = [
+  { id: "00", value: "01" },
+  { id: "01", value: "11" },
+  {
+    id: "51",
+    value: "",
+    children: [
+      { id: "00", value: "ID.CO.QRIS.WWW" },
+      { id: "02", value: "ID1020000000001" },
+      { id: "03", value: "UMI" },
+    ],
+  },
+  { id: "52", value: "5411" },
+  { id: "53", value: "360" },
+  { id: "58", value: "ID" },
+  { id: "59", value: "TOKO MAJU" },
+  { id: "60", value: "BANDUNG" },
+  { id: "61", value: "40111" },
+];
+
+const payload = `${serializeQrisTags(tags)}6304`;
+const base = `${payload}${crc16(payload)}`;
+
+describe("crc16", () => {
+  test("matches the CRC-16/CCITT-FALSE check value", () => {
+    assert.equal(crc16("123456789"), "29B1");
+    assert.equal(crc16(""), "FFFF");
+  });
+});
+
+describe("parseQrisTags and serializeQrisTags", () => {
+  test("round-trip templates with their children", () => {
+    const parsed = parseQrisTags(base);
+    const template = parsed.find((tag) => tag.id === "51");
+
+    assert.deepEqual(
+      template.children.map((child) => child.value),
+      ["ID.CO.QRIS.WWW", "ID1020000000001", "UMI"],
+    );
+    assert.equal(serializeQrisTags(parsed), base);
+  });
+
+  test("reject malformed and truncated data objects", () => {
+    assert.throws(() => parseQrisTags("0005AB"), {
+      code: "INVALID_QRIS",
+      message: /truncated/,
+    });
+    assert.throws(() => parseQrisTags("XX0201"), {
+      code: "INVALID_QRIS",
+      message: /position 0/,
+    });
+  });
+
+  test("reject values longer than 99 characters", () => {
+    assert.throws(
+      () => serializeQrisTags([{ id: "59", value: "A".repeat(100) }]),
+      { code: "INVALID_QRIS" },
+    );
+  });
+});
+
+describe("decodeQris", () => {
+  test("decodes a static QRIS", () => {
+    const decoded = decodeQris(base);
+
+    assert.equal(decoded.type, "static");
+    assert.equal(decoded.merchantName, "TOKO MAJU");
+    assert.equal(decoded.merchantCity, "BANDUNG");
+    assert.equal(decoded.postalCode, "40111");
+    assert.equal(decoded.nmid, "ID1020000000001");
+    assert.equal(decoded.currency, "360");
+    assert.equal(decoded.amount, undefined);
+    assert.equal(decoded.crc, crc16(payload));
+  });
+
+  test("rejects a wrong checksum or a missing CRC tag", () => {
+    const corrupted = `${base.slice(0, -4)}${base.endsWith("0000") ? "0001" : "0000"}`;
+
+    assert.throws(() => decodeQris(corrupted), {
+      code: "INVALID_QRIS",
+      message: /checksum mismatch/,
+    });
+    assert.throws(() => decodeQris(serializeQrisTags(tags)), {
+      code: "INVALID_QRIS",
+      message: /CRC16/,
+    });
+    assert.equal(isValidQris(corrupted), false);
+    assert.equal(isValidQris(""), false);
+    assert.equal(isValidQris(base), true);
+  });
+});
+
+describe("createDynamicQris", () => {
+  test("sets the amount, dynamic initiation and a fresh checksum", () => {
+    const dynamic = createDynamicQris(base, { amount: 25000 });
+    const decoded = decodeQris(dynamic);
+
+    assert.equal(decoded.type, "dynamic");
+    assert.equal(decoded.amount, 25000);
+    assert.equal(decoded.merchantName, "TOKO MAJU");
+    assert.deepEqual(
+      decoded.tags.map((tag) => tag.id),
+      ["00", "01", "51", "52", "53", "54", "58", "59", "60", "61", "63"],
+    );
+  });
+
+  test("encodes fixed, percentage and prompted tips", () => {
+    for (const tip of [
+      { type: "fixed", value: 1500 },
+      { type: "percentage", value: 0.7 },
+      { type: "percentage", value: 100 },
+      { type: "prompt" },
+    ]) {
+      assert.deepEqual(
+        decodeQris(createDynamicQris(base, { amount: 10000, tip })).tip,
+        tip,
+      );
+    }
+  });
+
+  test("rejects invalid amounts and tips", () => {
+    for (const amount of [0, -5, 10.5, 1e13]) {
+      assert.throws(() => createDynamicQris(base, { amount }), {
+        code: "INVALID_AMOUNT",
+      });
+    }
+    assert.throws(
+      () =>
+        createDynamicQris(base, {
+          amount: 10000,
+          tip: { type: "fixed", value: 0 },
+        }),
+      { code: "INVALID_AMOUNT" },
+    );
+    for (const value of [0, -1, 100.5, 250, Number.NaN]) {
+      assert.throws(
+        () =>
+          createDynamicQris(base, {
+            amount: 10000,
+            tip: { type: "percentage", value },
+          }),
+        { code: "INVALID_ARGUMENT" },
+      );
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { OrderKuota, RateLimiter } from "../dist/index.js";
+
+// Resolves once the returned release() is called
+function gate() {
+  let release;
+  const promise = new Promise((resolve) => (release = resolve));
+  return { promise, release };
+}
+
+describe("RateLimiter", () => {
+  test("rejects rules that would stall the queue", () => {
+    for (const rule of [
+      { rate: 0 },
+      { rate: -1 },
+      { rate: Number.NaN },
+      { rate: Number.POSITIVE_INFINITY },
+      { burst: 0 },
+      { burst: 0.5 },
+      { burst: Number.POSITIVE_INFINITY },
+      { concurrency: 0 },
+      { concurrency: 1.5 },
+      { concurrency: Number.POSITIVE_INFINITY },
+    ]) {
+      assert.throws(() => new RateLimiter({ rules: { get: rule } }), {
+        code: "INVALID_ARGUMENT",
+      });
+    }
+  });
+
+  test("queues requests beyond the concurrency cap", async () => {
+    const limiter = new RateLimiter({
+      rules: { get: { rate: 1000, burst: 10, concurrency: 1 } },
+    });
+    const first = gate();
+    const depths = [];
+    limiter.on("queueDepth", (endpoint, depth) => depths.push(depth));
+
+    const running = limiter.schedule("get", {}, () => first.promise);
+    const queued = limiter.schedule("get", {}, async () => "second");
+
+    assert.equal(limiter.getMetrics().get.inFlight, 1);
+    assert.equal(limiter.getMetrics().get.queued, 1);
+
+    first.release("first");
+    assert.deepEqual(await Promise.all([running, queued]), ["first", "second"]);
+    assert.equal(limiter.getMetrics().get.queued, 0);
+    assert.deepEqual(depths, [1, 0, 1, 0]);
+  });
+
+  test("runs higher priorities first and equal priorities in order", async () => {
+    const limiter = new RateLimiter({
+      rules: { mutasi: { rate: 1000, burst: 10, concurrency: 1 } },
+    });
+    const blocker = gate();
+    const order = [];
+    const run = (name, priority) =>
+      limiter.schedule("mutasi", { priority }, async () => {
+        order.push(name);
+      });
+
+    const blocked = limiter.schedule("mutasi", {}, () => blocker.promise);
+    const tasks = [run("low", 0), run("a", 5), run("mid", 1), run("b", 5)];
+
+    blocker.release();
+    await Promise.all([blocked, ...tasks]);
+
+    assert.deepEqual(order, ["a", "b", "mid", "low"]);
+  });
+
+  test("rejects aborted and overflowing requests", async () => {
+    const limiter = new RateLimiter({
+      rules: { menu: { rate: 1000, burst: 10, concurrency: 1 } },
+      maxQueue: 1,
+    });
+    const blocker = gate();
+    const controller = new AbortController();
+
+    const blocked = limiter.schedule("menu", {}, () => blocker.promise);
+    const aborted = limiter.schedule(
+      "menu",
+      { signal: controller.signal },
+      async () => "never",
+    );
+
+    await assert.rejects(
+      limiter.schedule("menu", {}, async () => "overflow"),
+      { code: "RATE_LIMITED" },
+    );
+
+    controller.abort();
+    await assert.rejects(aborted, { code: "ABORTED" });
+
+    blocker.release();
+    await blocked;
+  });
+
+  test("doubles the pause on consecutive throttles up to maxDelay", () => {
+    const limiter = new RateLimiter({
+      backoff: { minDelay: 100, maxDelay: 300 },
+    });
+    const pauses = [];
+    limiter.on("throttled", (endpoint, pause) => pauses.push(pause));
+
+    limiter.reportThrottle("get");
+    limiter.reportThrottle("get");
+    limiter.reportThrottle("get");
+    limiter.reportSuccess("get");
+    limiter.reportThrottle("get");
+
+    assert.deepEqual(pauses, [100, 200, 300, 100]);
+    assert.equal(limiter.getMetrics().get.throttled, 4);
+    assert.ok(limiter.getMetrics().get.pausedUntil instanceof Date);
+    assert.equal(limiter.getMetrics().mutasi.pausedUntil, undefined);
+  });
+
+  test("retries an idempotent read after a 429 pause", async () => {
+    const limiter = new RateLimiter({
+      backoff: { minDelay: 20, maxDelay: 20 },
+    });
+    const responses = [
+      { status: 429, data: { success: false, message: "Too many requests" } },
+      {
+        status: 200,
+        data: {
+          account: {
+            success: true,
+            results: { id: "1", username: "merchant", balance: "1.000" },
+          },
+        },
+      },
+    ];
+    const sentAt = [];
+    const client = new OrderKuota({
+      username: "merchant",
+      password: "hunter2",
+      token: "1:old",
+      rateLimiter: limiter,
+      transport: {
+        send: async () => {
+          sentAt.push(Date.now());
+          return responses.shift();
+        },
+      },
+    });
+
+    const balance = await client.checkBalance();
+
+    assert.equal(balance.success, true);
+    assert.equal(sentAt.length, 2);
+    assert.ok(sentAt[1] - sentAt[0] >= 15);
+    assert.equal(limiter.getMetrics().menu.throttled, 1);
+  });
+});
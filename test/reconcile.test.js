@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  reconcile,
+  reconciliationToCsv,
+  reconciliationToJson,
+} from "../dist/index.js";
+
+// WIB wall-clock time on 15 January 2025
+const at = (time) => new Date(`2025-01-15T${time}:00+07:00`);
+
+function credit(id, amount, time, description = "QRIS payment") {
+  return {
+    id,
+    status: "IN",
+    amount,
+    credit: amount,
+    debit: 0,
+    balance: 0,
+    fee: amount * 0.007,
+    date: time ? `15/01/2025 ${time}` : "kemarin sore",
+    description,
+    brand: { name: "DANA", logo: "" },
+  };
+}
+
+const expected = [
+  { id: "order-a", amount: 10000, from: at("09:00"), to: at("11:00") },
+  { id: "order-b", amount: 20000, from: at("09:00"), to: at("12:00") },
+  { id: "order-c", amount: 30000, from: at("09:00"), to: at("12:00") },
+  { id: "order-d", amount: 15000, from: at("09:00"), to: at("12:00") },
+];
+
+const transactions = [
+  credit("t-undated", 30000, undefined),
+  credit("t-d", 15500, "11:30"),
+  credit("t-b", 20000, "11:00"),
+  credit("t-extra", 5000, "10:30", "=HYPERLINK(1)"),
+  credit("t-a", 10000, "10:00"),
+  { ...credit("t-out", 1000, "10:15"), status: "OUT", debit: 1000 },
+];
+
+const ids = (items) => items.map((item) => item.id);
+
+describe("reconcile", () => {
+  test("matches exact amounts and reports the rest as missing or unexpected", () => {
+    const report = reconcile(expected, transactions);
+
+    assert.deepEqual(
+      report.matched.map((payment) => [
+        payment.expected.id,
+        payment.transaction.id,
+      ]),
+      [
+        ["order-a", "t-a"],
+        ["order-b", "t-b"],
+      ],
+    );
+    assert.deepEqual(report.amountMismatch, []);
+    assert.deepEqual(ids(report.missing), ["order-c", "order-d"]);
+    // Oldest first; the credit with an unparseable date sorts last
+    assert.deepEqual(ids(report.unexpected), ["t-extra", "t-d", "t-undated"]);
+  });
+
+  test("pairs the closest credit within the mismatch tolerance", () => {
+    const report = reconcile(expected, transactions, {
+      mismatchTolerance: 0.1,
+    });
+
+    assert.deepEqual(
+      report.amountMismatch.map((payment) => [
+        payment.expected.id,
+        payment.transaction.id,
+        payment.difference,
+      ]),
+      [["order-d", "t-d", 500]],
+    );
+    assert.deepEqual(ids(report.missing), ["order-c"]);
+    assert.deepEqual(ids(report.unexpected), ["t-extra", "t-undated"]);
+  });
+
+  test("settles the earliest deadline with the oldest credit", () => {
+    const report = reconcile(
+      [
+        { id: "late", amount: 10000, from: at("09:00"), to: at("12:00") },
+        { id: "early", amount: 10000, from: at("09:00"), to: at("10:30") },
+      ],
+      [credit("second", 10000, "11:00"), credit("first", 10000, "10:00")],
+    );
+
+    assert.deepEqual(
+      report.matched.map((payment) => [
+        payment.expected.id,
+        payment.transaction.id,
+      ]),
+      [
+        ["early", "first"],
+        ["late", "second"],
+      ],
+    );
+  });
+
+  test("allows clock skew before the window but not after it", () => {
+    const payment = {
+      id: "order",
+      amount: 10000,
+      from: at("10:01"),
+      to: at("10:30"),
+    };
+
+    assert.equal(
+      reconcile([payment], [credit("t", 10000, "10:00")]).matched.length,
+      1,
+    );
+    assert.equal(
+      reconcile([payment], [credit("t", 10000, "10:00")], { clockSkew: 0 })
+        .matched.length,
+      0,
+    );
+    assert.equal(
+      reconcile([payment], [credit("t", 10000, "10:31")]).matched.length,
+      0,
+    );
+  });
+
+  test("totals each WIB day and keeps undated credits under unknown", () => {
+    const { days } = reconcile(expected, transactions);
+
+    assert.deepEqual(
+      days.map((day) => day.date),
+      ["2025-01-15", "unknown"],
+    );
+    assert.deepEqual(days[0], {
+      date: "2025-01-15",
+      expected: 75000,
+      received: 50500,
+      fees: 353.5,
+      net: 50146.5,
+      matched: 2,
+      amountMismatch: 0,
+      missing: 2,
+      unexpected: 2,
+    });
+    assert.equal(days[1].received, 30000);
+    assert.equal(days[1].unexpected, 1);
+  });
+});
+
+describe("reconciliation export", () => {
+  const report = reconcile(
+    [expected[0], expected[2]],
+    [transactions[0], transactions[3], transactions[4]],
+  );
+
+  test("writes one CSV row per payment or credit", () => {
+    const lines = reconciliationToCsv(report).trimEnd().split("\n");
+
+    assert.equal(
+      lines[0],
+      "bucket,expected_id,expected_amount,window_from,window_to,transaction_id,transaction_date,amount,fee,net,brand,description,difference",
+    );
+    assert.deepEqual(lines.slice(1), [
+      "matched,order-a,10000,2025-01-15 09:00,2025-01-15 11:00,t-a,2025-01-15 10:00,10000,70,9930,DANA,QRIS payment,0",
+      "missing,order-c,30000,2025-01-15 09:00,2025-01-15 12:00,,,,,,,,",
+      "unexpected,,,,,t-extra,2025-01-15 10:30,5000,35,4965,DANA,=HYPERLINK(1),",
+      "unexpected,,,,,t-undated,kemarin sore,30000,210,29790,DANA,QRIS payment,",
+    ]);
+  });
+
+  test("escapes formulas and uses CRLF for Excel", () => {
+    const csv = reconciliationToCsv(report, { excel: true, delimiter: ";" });
+
+    assert.ok(csv.startsWith("\uFEFFbucket;expected_id;"));
+    assert.ok(csv.endsWith("\r\n"));
+    assert.ok(csv.includes(";'=HYPERLINK(1);"));
+  });
+
+  test("writes daily totals followed by a total row", () => {
+    const lines = reconciliationToCsv(report, { table: "days" })
+      .trimEnd()
+      .split("\n");
+
+    assert.deepEqual(lines, [
+      "date,expected,received,fees,net,matched,amount_mismatch,missing,unexpected",
+      "2025-01-15,40000,15000,105,14895,1,0,1,1",
+      "unknown,0,30000,210,29790,0,0,0,1",
+      "total,40000,45000,315,44685,1,0,1,2",
+    ]);
+  });
+
+  test("serializes dates as ISO 8601 in JSON", () => {
+    const json = JSON.parse(reconciliationToJson(report));
+
+    assert.equal(json.missing[0].from, "2025-01-15T02:00:00.000Z");
+    assert.equal(json.days.length, 2);
+  });
+});
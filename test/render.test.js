@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  OrderKuota,
+  renderPaymentCard,
+  renderQrPng,
+  renderQrPngBytes,
+  renderQrSvg,
+} from "../dist/index.js";
+
+const qrString = "00020101021126570011ID.DANA.WWW";
+
+test("renderQrSvg writes hex colours and rejects anything else", () => {
+  const svg = renderQrSvg(qrString, { dark: "1a1a1a", light: "#FFF" });
+
+  assert.match(svg, /<path d="[^"]+" fill="#1a1a1a"\/>/);
+  assert.match(svg, /<rect width="\d+" height="\d+" fill="#FFF"\/>/);
+
+  for (const dark of [
+    'red"/><script>alert(1)</script><path d="',
+    "red",
+    "#12345",
+    "",
+  ]) {
+    assert.throws(() => renderQrSvg(qrString, { dark }), {
+      code: "INVALID_ARGUMENT",
+    });
+  }
+});
+
+test("renderers reject oversized or invalid sizes", async () => {
+  for (const options of [
+    { width: 100000 },
+    { width: 0 },
+    { width: Number.NaN },
+    { scale: 100 },
+    { scale: Infinity },
+    { margin: -1 },
+    { margin: 1000 },
+  ]) {
+    assert.throws(() => renderQrSvg(qrString, options), {
+      code: "INVALID_ARGUMENT",
+    });
+    await assert.rejects(renderQrPngBytes(qrString, options), {
+      code: "INVALID_ARGUMENT",
+    });
+    await assert.rejects(renderQrPng(qrString, options), {
+      code: "INVALID_ARGUMENT",
+    });
+  }
+
+  assert.match(renderQrSvg(qrString, { width: 4096 }), /width="4096"/);
+});
+
+test("renderPaymentCard validates the accent colour and width", () => {
+  assert.match(
+    renderPaymentCard(qrString, { accent: "#00AA00" }),
+    /fill="#00AA00"/,
+  );
+  assert.throws(() => renderPaymentCard(qrString, { accent: '"><script>' }), {
+    code: "INVALID_ARGUMENT",
+  });
+  assert.throws(() => renderPaymentCard(qrString, { width: 50000 }), {
+    code: "INVALID_ARGUMENT",
+  });
+});
+
+test("generateQRImage reports invalid colours as INVALID_ARGUMENT", async () => {
+  const client = new OrderKuota({ username: "merchant", password: "hunter2" });
+
+  await assert.rejects(
+    client.generateQRImage(qrString, { color: { dark: "black" } }),
+    { code: "INVALID_ARGUMENT" },
+  );
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { OrderKuota } from "../dist/index.js";
+
+function clientReturning(status, data) {
+  return new OrderKuota({
+    username: "merchant",
+    password: "hunter2",
+    token: "1:old",
+    transport: { send: async () => ({ status, data }) },
+  });
+}
+
+test("keeps the token when a business error mentions tokens or expiry", async () => {
+  for (const message of [
+    "QRIS sudah kadaluarsa",
+    "Token transaksi tidak ditemukan",
+    "Silakan login ke aplikasi untuk melihat detail",
+  ]) {
+    const client = clientReturning(200, { success: false, message });
+
+    await assert.rejects(client.checkBalance(), { code: "API_ERROR", message });
+    assert.equal(client.getTokenValue(), "1:old");
+  }
+});
+
+test("treats known session-expiry messages as SESSION_EXPIRED", async () => {
+  const client = clientReturning(200, {
+    success: false,
+    message: "Sesi login telah berakhir, silakan login ulang",
+  });
+
+  await assert.rejects(client.checkBalance(), { code: "SESSION_EXPIRED" });
+  assert.equal(client.hasToken(), false);
+});
+
+test("treats 401 responses as SESSION_EXPIRED", async () => {
+  const client = clientReturning(401, { success: false, message: "Error" });
+
+  await assert.rejects(client.checkBalance(), { code: "SESSION_EXPIRED" });
+  assert.equal(client.hasToken(), false);
+});
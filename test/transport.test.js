@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { after, before, describe, test } from "node:test";
+import { AxiosTransport, FetchTransport } from "../dist/index.js";
+
+const retry = { retries: 2, minDelay: 1, maxDelay: 5 };
+
+// Local server answering each request with the next queued status, or 200
+let server;
+let url;
+let statuses = [];
+let requests = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      if (req.url === "/slow") {
+        setTimeout(() => res.end("{}"), 500);
+        return;
+      }
+      const status = statuses.shift() ?? 200;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status, body }));
+    });
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+function request(overrides = {}) {
+  return {
+    name: "checkBalance",
+    url: `${url}/api`,
+    body: "a=1",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    idempotent: true,
+    ...overrides,
+  };
+}
+
+// A port nothing listens on, for connection errors
+async function closedUrl() {
+  const probe = createServer();
+  await new Promise((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address();
+  await new Promise((resolve) => probe.close(resolve));
+  return `http://127.0.0.1:${port}/api`;
+}
+
+for (const [name, Transport] of [
+  ["AxiosTransport", AxiosTransport],
+  ["FetchTransport", FetchTransport],
+]) {
+  const create = (options = {}) =>
+    new Transport(
+      Transport === AxiosTransport ? { proxy: false, ...options } : options,
+    );
+
+  describe(name, () => {
+    test("posts the body and parses a JSON response", async () => {
+      statuses = [];
+      requests = [];
+
+      const response = await create().send(request());
+
+      assert.deepEqual(response, {
+        status: 200,
+        data: { status: 200, body: "a=1" },
+      });
+      assert.equal(
+        requests[0].headers["content-type"],
+        "application/x-www-form-urlencoded",
+      );
+    });
+
+    test("returns error statuses instead of throwing", async () => {
+      statuses = [401];
+
+      const response = await create({ retry: false }).send(request());
+
+      assert.equal(response.status, 401);
+    });
+
+    test("retries idempotent requests on 5xx and 429", async () => {
+      statuses = [503, 429];
+      requests = [];
+
+      const response = await create({ retry }).send(request());
+
+      assert.equal(response.status, 200);
+      assert.equal(requests.length, 3);
+    });
+
+    test("gives up after the configured retries", async () => {
+      statuses = [500, 500, 500, 500];
+      requests = [];
+
+      const response = await create({ retry }).send(request());
+
+      assert.equal(response.status, 500);
+      assert.equal(requests.length, 3);
+      statuses = [];
+    });
+
+    test("does not retry non-idempotent requests or when disabled", async () => {
+      statuses = [503];
+      requests = [];
+      const first = await create({ retry }).send(
+        request({ idempotent: false }),
+      );
+
+      statuses = [503];
+      const second = await create({ retry: false }).send(request());
+
+      assert.equal(first.status, 503);
+      assert.equal(second.status, 503);
+      assert.equal(requests.length, 2);
+    });
+
+    test("reports timeouts as TIMEOUT", async () => {
+      await assert.rejects(
+        create({ retry: false }).send(
+          request({ url: `${url}/slow`, timeout: 20 }),
+        ),
+        { code: "TIMEOUT", message: /20ms/ },
+      );
+    });
+
+    test("reports aborted requests as ABORTED without retrying", async () => {
+      const controller = new AbortController();
+      requests = [];
+      const pending = create({ retry }).send(
+        request({ url: `${url}/slow`, signal: controller.signal }),
+      );
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(pending, { code: "ABORTED" });
+      assert.equal(requests.length, 1);
+    });
+
+    test("retries and then reports connection failures as NETWORK_ERROR", async () => {
+      await assert.rejects(
+        create({ retry }).send(request({ url: await closedUrl() })),
+        { code: "NETWORK_ERROR", request: "checkBalance" },
+      );
+    });
+  });
+}
+
+test("FetchTransport uses a custom fetch and drops the Host header", async () => {
+  const calls = [];
+  const transport = new FetchTransport({
+    fetch: async (target, init) => {
+      calls.push({ target, init });
+      return new Response("not json", { status: 200 });
+    },
+  });
+
+  const response = await transport.send(
+    request({ headers: { Host: "example.com", "X-Test": "1" } }),
+  );
+
+  assert.deepEqual(response, { status: 200, data: "not json" });
+  assert.equal(calls[0].target, `${url}/api`);
+  assert.equal(calls[0].init.method, "POST");
+  assert.deepEqual(calls[0].init.headers, { "X-Test": "1" });
+});
+
+test("FetchTransport retries network errors from a custom fetch", async () => {
+  let attempts = 0;
+  const transport = new FetchTransport({
+    retry,
+    fetch: async () => {
+      attempts += 1;
+      if (attempts < 3) {
+        throw new TypeError("fetch failed");
+      }
+      return new Response('{"ok":true}', { status: 200 });
+    },
+  });
+
+  assert.deepEqual(await transport.send(request()), {
+    status: 200,
+    data: { ok: true },
+  });
+  assert.equal(attempts, 3);
+});
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { EventEmitter, once } from "node:events";
+import { test } from "node:test";
+import { WebhookDispatcher } from "../dist/index.js";
+
+test("attach() emits error when a delivery cannot be dead-lettered", async () => {
+  const webhooks = new WebhookDispatcher({
+    endpoints: [{ url: "http://127.0.0.1:9/hooks", secret: "secret" }],
+    retry: { retries: 0 },
+    timeout: 1000,
+    deadLetterStore: {
+      add: async () => {
+        throw new Error("disk full");
+      },
+      list: async () => [],
+      remove: async () => undefined,
+    },
+  });
+  const watcher = new EventEmitter();
+  webhooks.attach(watcher);
+
+  watcher.emit(
+    "paid",
+    { id: "INV-1", amount: 10000 },
+    { id: "1", status: "IN", amount: 10000 },
+  );
+  const [error] = await once(webhooks, "error");
+
+  assert.equal(error.message, "disk full");
+});